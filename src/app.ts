@@ -0,0 +1,185 @@
+import { FastMCP } from "fastmcp";
+import { z } from "zod";
+
+import { config } from "./config.js";
+import { registerResources } from "./guides/index.js";
+import { registerPrompts } from "./prompts/index.js";
+import { registerTools } from "./tools/index.js";
+import {
+  GetSpecificAptosResourceToolScheme,
+  ListAptosResourcesToolScheme,
+  PaginatedResourcesToolScheme,
+} from "./tools/types/guides.js";
+import {
+  describeMissingResource,
+  describeResourceMetadata,
+  describeResourceSource,
+  findAptosResource,
+  getAptosResources,
+  matchesResourceFilter,
+  type ResourceCategory,
+  type ResourceFilter,
+  readAllMarkdownFromDirectories,
+  readAptosGuide,
+  readMarkdownChunksFromDirectories,
+} from "./utils/index.js";
+import { DEFAULT_PAGE_TOKENS, paginateChunks } from "./utils/markdown.js";
+
+/**
+ * Read every guide in the given categories, either whole or one page at a
+ * time when the caller passes a token budget or a cursor.
+ */
+async function readGuides(
+  toolName: string,
+  categories: ResourceCategory[],
+  args: ResourceFilter & { cursor?: string; max_tokens?: number },
+): Promise<string> {
+  if (args.max_tokens === undefined && args.cursor === undefined) {
+    return readAllMarkdownFromDirectories(categories, args);
+  }
+
+  const page = paginateChunks(
+    await readMarkdownChunksFromDirectories(categories, args),
+    {
+      cursor: args.cursor,
+      maxTokens: args.max_tokens ?? DEFAULT_PAGE_TOKENS,
+    },
+  );
+  if (!page.nextCursor) {
+    return page.text;
+  }
+  return `${page.text}[Page of ~${page.tokens} tokens. More content is available: call ${toolName} again with cursor "${page.nextCursor}" to continue.]`;
+}
+
+/**
+ * Register every tool, resource and prompt the server exposes.
+ */
+export function registerServer(server: FastMCP): void {
+  registerTools(server);
+  registerResources(server);
+  registerPrompts(server);
+
+  server.addTool({
+    description: "Returns the version of the MCP server",
+    execute: async () => {
+      return {
+        text: server.options.version,
+        type: "text",
+      };
+    },
+    name: "get_mcp_version",
+    parameters: z.object({}),
+  });
+
+  server.addTool({
+    description:
+      "Build an Aptos smart contract - returns all resources from move and management directories. Use this tool when you need guidance on how to build a smart contract for a dapp on Aptos. Set max_tokens to receive the content in pages, or use get_aptos_resource_outline and get_aptos_resource_section to fetch single sections.",
+    execute: async (args) => {
+      const content = await readGuides(
+        "build_smart_contract_on_aptos",
+        ["management", "move"],
+        args,
+      );
+
+      return {
+        text: content || "No content found in management and move directories.",
+        type: "text",
+      };
+    },
+    name: "build_smart_contract_on_aptos",
+    parameters: PaginatedResourcesToolScheme,
+  });
+
+  server.addTool({
+    description:
+      "Build a UI frontend for Aptos dApp - returns all resources from frontend directory. Use this tool when you need guidance on how to build a frontend for a dapp on Aptos. Set max_tokens to receive the content in pages, or use get_aptos_resource_outline and get_aptos_resource_section to fetch single sections.",
+    execute: async (args) => {
+      const content = await readGuides(
+        "build_ui_frontend_on_aptos",
+        ["frontend"],
+        args,
+      );
+
+      return {
+        text: content || "No content found in frontend directory.",
+        type: "text",
+      };
+    },
+    name: "build_ui_frontend_on_aptos",
+    parameters: PaginatedResourcesToolScheme,
+  });
+
+  server.addTool({
+    description:
+      "Build a complete full-stack Aptos dApp - returns all resources from move, management, and frontend directories. Use this tool when you need guidance on how to build a full-stack dapp on Aptos. Set max_tokens to receive the content in pages, or use get_aptos_resource_outline and get_aptos_resource_section to fetch single sections.",
+    execute: async (args) => {
+      const content = await readGuides(
+        "build_dapp_on_aptos",
+        ["frontend", "move", "management"],
+        args,
+      );
+
+      return {
+        text:
+          content ||
+          "No content found in management, move, and frontend directories.",
+        type: "text",
+      };
+    },
+    name: "build_dapp_on_aptos",
+    parameters: PaginatedResourcesToolScheme,
+  });
+
+  // Step 1: Discovery tool - returns list of available resources
+  server.addTool({
+    description:
+      "Get a list of all available Aptos development resources. Use this first to see what guidance is available, then use get_specific_aptos_resource to fetch the relevant one.",
+    execute: async (args) => {
+      const availableFiles = getAptosResources().filter((f) =>
+        matchesResourceFilter(f, args),
+      );
+      const describe = (f: (typeof availableFiles)[number]) => {
+        const metadata = describeResourceMetadata(f);
+        return `- ${f.id} (${describeResourceSource(f)})${metadata ? ` - ${metadata}` : ""}`;
+      };
+
+      return {
+        text: `Available Aptos development resources:\n${availableFiles.map(describe).join("\n")}\n\nUse get_specific_aptos_resource with the resource id (e.g. 'move/deploy_smart_contract') or file name to retrieve content.`,
+        type: "text",
+      };
+    },
+    name: "list_aptos_resources",
+    parameters: ListAptosResourcesToolScheme,
+  });
+
+  // Step 2: Retrieval tool - gets specific resource by id or name
+  server.addTool({
+    description:
+      "Retrieve a specific Aptos development resource from any category by its id (e.g. 'move/deploy_smart_contract'), aptos:// uri or file name (without .md extension). Suggests the closest resources when nothing matches.",
+    execute: async (args) => {
+      const resource = findAptosResource(args.filename);
+      if (!resource) {
+        return {
+          text: describeMissingResource(args.filename),
+          type: "text",
+        };
+      }
+
+      return {
+        text: await readAptosGuide(resource),
+        type: "text",
+      };
+    },
+    name: "get_specific_aptos_resource",
+    parameters: GetSpecificAptosResourceToolScheme,
+  });
+}
+
+export function createServer(): FastMCP {
+  const server = new FastMCP({
+    name: config.server.name,
+    version: "0.0.22",
+  });
+  registerServer(server);
+  return server;
+}
@@ -0,0 +1,57 @@
+import { mkdtempSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+
+import { loadConfigFile } from "./config-file.js";
+
+describe("loadConfigFile", () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), "aptos-mcp-config-"));
+  });
+
+  afterEach(() => {
+    rmSync(dir, { force: true, recursive: true });
+  });
+
+  it("resolves extra resource dirs relative to the config file", () => {
+    const path = join(dir, "aptos-mcp.config.json");
+    writeFileSync(
+      path,
+      JSON.stringify({ resources: { extra_dirs: ["./guides", "/abs"] } }),
+    );
+
+    expect(loadConfigFile(path)).toEqual({
+      path,
+      resources: { extra_dirs: [join(dir, "guides"), "/abs"] },
+    });
+  });
+
+  it("throws for an explicit path that does not exist", () => {
+    expect(() => loadConfigFile(join(dir, "missing.json"))).toThrow(
+      "Failed to read config file",
+    );
+  });
+
+  it("throws for an invalid config", () => {
+    const path = join(dir, "aptos-mcp.config.json");
+    writeFileSync(path, JSON.stringify({ resources: { extra_dirs: "docs" } }));
+
+    expect(() => loadConfigFile(path)).toThrow("Invalid config file");
+  });
+
+  it("validates profile endpoints", () => {
+    const path = join(dir, "aptos-mcp.config.json");
+    writeFileSync(
+      path,
+      JSON.stringify({
+        profiles: { local: { gas_station_urls: { betanet: "not a url" } } },
+      }),
+    );
+
+    expect(() => loadConfigFile(path)).toThrow("Invalid config file");
+  });
+});
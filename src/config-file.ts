@@ -0,0 +1,137 @@
+import { existsSync, readFileSync } from "node:fs";
+import { dirname, resolve } from "node:path";
+
+import { z } from "zod";
+
+import { NETWORKS } from "./profiles.js";
+
+export const DEFAULT_CONFIG_FILE = "aptos-mcp.config.json";
+
+// Tools that ask before they delete anything
+export const CONFIRMABLE_TOOLS = [
+  "delete_geomi_api_key",
+  "delete_geomi_application",
+  "delete_geomi_project",
+  "delete_gas_station_rule",
+  "cleanup_geomi_provisioning_run",
+] as const;
+
+export type ConfirmableTool = (typeof CONFIRMABLE_TOOLS)[number];
+
+// elicit: ask through MCP elicitation, falling back to a confirm token when
+// the client does not support it. token: always use a confirm token.
+// none: delete right away.
+export const CONFIRMATION_MODES = ["elicit", "token", "none"] as const;
+
+export type ConfirmationMode = (typeof CONFIRMATION_MODES)[number];
+
+const ProfileSchema = z.object({
+  admin_url: z
+    .url()
+    .describe("rspc endpoint of the Geomi admin API")
+    .optional(),
+  gas_station_urls: z
+    .partialRecord(z.enum(NETWORKS), z.url())
+    .describe("Gas station API base url per network")
+    .optional(),
+});
+
+export const ConfigFileSchema = z.object({
+  geomi: z
+    .object({
+      allow_tools: z
+        .array(z.string())
+        .describe("Only these Geomi tools may run. Defaults to all.")
+        .optional(),
+      confirm: z
+        .partialRecord(z.enum(CONFIRMABLE_TOOLS), z.enum(CONFIRMATION_MODES))
+        .describe(
+          "How each delete tool asks for confirmation: elicit (default), token or none.",
+        )
+        .optional(),
+      deny_tools: z
+        .array(z.string())
+        .describe("Geomi tools that never run.")
+        .optional(),
+      read_only: z
+        .boolean()
+        .describe(
+          "Only allow Geomi tools that do not change anything, like get_geomi_applications. Defaults to false.",
+        )
+        .optional(),
+    })
+    .optional(),
+  profile: z
+    .string()
+    .describe(
+      "The endpoint profile to use: production, local, sandbox or one defined in profiles. Defaults to production.",
+    )
+    .optional(),
+  profiles: z
+    .record(z.string(), ProfileSchema)
+    .describe(
+      "Endpoint overrides for the built-in profiles, or additional profiles by name.",
+    )
+    .optional(),
+  resources: z
+    .object({
+      extra_dirs: z
+        .array(z.string())
+        .describe(
+          "Team guide directories layered over the bundled guides, highest precedence first. Relative paths are resolved from the config file.",
+        )
+        .optional(),
+      watch: z
+        .boolean()
+        .describe(
+          "Reload the guides when files in the resource directories change. Defaults to true.",
+        )
+        .optional(),
+    })
+    .optional(),
+});
+
+export type ConfigFile = z.infer<typeof ConfigFileSchema> & {
+  // Absolute path of the file that was loaded, if any
+  path?: string;
+};
+
+/**
+ * Load the optional JSON config file. The path comes from APTOS_MCP_CONFIG,
+ * falling back to aptos-mcp.config.json in the working directory. A missing
+ * default file is fine; a missing explicit file or an invalid one is an error.
+ */
+export function loadConfigFile(
+  configPath = process.env.APTOS_MCP_CONFIG,
+): ConfigFile {
+  const path = resolve(configPath ?? DEFAULT_CONFIG_FILE);
+  if (!configPath && !existsSync(path)) {
+    return {};
+  }
+
+  let raw: unknown;
+  try {
+    raw = JSON.parse(readFileSync(path, "utf-8"));
+  } catch (error) {
+    throw new Error(`Failed to read config file ${path}: ${error}`);
+  }
+
+  const parsed = ConfigFileSchema.safeParse(raw);
+  if (!parsed.success) {
+    throw new Error(
+      `Invalid config file ${path}: ${z.prettifyError(parsed.error)}`,
+    );
+  }
+
+  const extraDirs = parsed.data.resources?.extra_dirs;
+  return {
+    ...parsed.data,
+    path,
+    resources: extraDirs
+      ? {
+          ...parsed.data.resources,
+          extra_dirs: extraDirs.map((dir) => resolve(dirname(path), dir)),
+        }
+      : parsed.data.resources,
+  };
+}
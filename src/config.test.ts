@@ -7,14 +7,15 @@ describe("config", () => {
     expect(config.server.name).toBe("Aptos MCP Server");
   });
 
-  it("exposes geomi and gas station endpoints", () => {
-    expect(config.geomi.adminUrl).toBe(
+  it("exposes geomi and gas station endpoints of the production profile", () => {
+    expect(config.profile.name).toBe("production");
+    expect(config.profile.adminUrl).toBe(
       "https://admin.api.aptoslabs.com/api/rspc",
     );
-    expect(config.gas_station.testnetUrl).toBe(
+    expect(config.profile.gasStationUrls.testnet).toBe(
       "https://api.testnet.aptoslabs.com/gs/v1",
     );
-    expect(config.gas_station.mainnetUrl).toBe(
+    expect(config.profile.gasStationUrls.mainnet).toBe(
       "https://api.mainnet.aptoslabs.com/gs/v1",
     );
   });
@@ -1,24 +1,113 @@
+import { homedir } from "node:os";
+import { delimiter, join, resolve } from "node:path";
+
+import {
+  CONFIRMABLE_TOOLS,
+  CONFIRMATION_MODES,
+  type ConfirmableTool,
+  type ConfirmationMode,
+  loadConfigFile,
+} from "./config-file.js";
 import { loadEnvFromFile } from "./load-env.js";
+import { resolveProfile } from "./profiles.js";
 
 loadEnvFromFile();
 
+const configFile = loadConfigFile();
+
+// APTOS_MCP_RESOURCE_DIRS is a list of directories separated like PATH
+const envResourceDirs = (process.env.APTOS_MCP_RESOURCE_DIRS ?? "")
+  .split(delimiter)
+  .filter((dir) => dir.trim())
+  .map((dir) => resolve(dir.trim()));
+
+// Comma separated tool names, e.g. APTOS_MCP_DENY_TOOLS=delete_geomi_project
+const envToolList = (value?: string) =>
+  value
+    ?.split(",")
+    .map((name) => name.trim())
+    .filter(Boolean);
+
+// APTOS_MCP_CONFIRM sets the confirmation mode of every delete tool
+const envConfirm = process.env.APTOS_MCP_CONFIRM as
+  | ConfirmationMode
+  | undefined;
+if (envConfirm && !CONFIRMATION_MODES.includes(envConfirm)) {
+  throw new Error(
+    `Invalid APTOS_MCP_CONFIRM "${envConfirm}". Expected one of: ${CONFIRMATION_MODES.join(", ")}`,
+  );
+}
+
 const GA_MEASURMENT_ID = "G-LXY7NNQBTG";
 const GA_CLIENT_ID = process.env.GA_CLIENT_ID;
 
 // Aptos MCP configuration
 export const config = {
   geomi: {
-    adminUrl: "https://admin.api.aptoslabs.com/api/rspc",
     botKey: process.env.APTOS_BOT_KEY,
+    // How each delete tool asks before deleting
+    confirm: Object.fromEntries(
+      CONFIRMABLE_TOOLS.map((tool) => [
+        tool,
+        envConfirm ?? configFile.geomi?.confirm?.[tool] ?? "elicit",
+      ]),
+    ) as Record<ConfirmableTool, ConfirmationMode>,
+    // Which Geomi tools may run. The env allow list replaces the one in the
+    // config file, deny lists from both are combined.
+    policy: {
+      allow:
+        envToolList(process.env.APTOS_MCP_ALLOW_TOOLS) ??
+        configFile.geomi?.allow_tools,
+      deny: [
+        ...(envToolList(process.env.APTOS_MCP_DENY_TOOLS) ?? []),
+        ...(configFile.geomi?.deny_tools ?? []),
+      ],
+      readOnly: process.env.APTOS_MCP_READ_ONLY
+        ? process.env.APTOS_MCP_READ_ONLY !== "false"
+        : (configFile.geomi?.read_only ?? false),
+    },
+  },
+  // Geomi admin API and gas station endpoints, chosen by APTOS_MCP_PROFILE or
+  // the config file
+  profile: resolveProfile(configFile),
+  http: {
+    // Retry, timeout and backoff policy for Geomi and gas station requests
+    maxRetries: 3,
+    maxRetryDelayMs: 10_000,
+    retryBaseDelayMs: 500,
+    timeoutMs: 30_000,
   },
-  gas_station: {
-    testnetUrl: "https://api.testnet.aptoslabs.com/gs/v1",
-    mainnetUrl: "https://api.mainnet.aptoslabs.com/gs/v1",
+  fixtures: {
+    // Save Geomi and gas station requests and responses to this file, with
+    // secrets redacted
+    record: process.env.APTOS_MCP_RECORD_FIXTURES,
+    // Serve Geomi and gas station responses from this file instead
+    replay: process.env.APTOS_MCP_REPLAY_FIXTURES,
+  },
+  journal: {
+    // Multi-step runs like create_gas_station_application keep their progress
+    // here until they finish, so an interrupted or failed run can be resumed
+    // or cleaned up
+    dir:
+      process.env.APTOS_MCP_JOURNAL_DIR ??
+      join(homedir(), ".aptos-mcp", "runs"),
   },
   ga: {
     url: `https://www.google-analytics.com/mp/collect?measurement_id=${GA_MEASURMENT_ID}&api_secret=${GA_CLIENT_ID}`,
     urlDebug: `https://www.google-analytics.com/debug/mp/collect?measurement_id=${GA_MEASURMENT_ID}&api_secret=${GA_CLIENT_ID}`,
   },
+  resources: {
+    // Team guide directories layered over the bundled guides, highest
+    // precedence first: APTOS_MCP_RESOURCE_DIRS, then the config file.
+    extraDirs: [
+      ...envResourceDirs,
+      ...(configFile.resources?.extra_dirs ?? []),
+    ],
+    // Reload the guides when files in the resource directories change
+    watch: process.env.APTOS_MCP_WATCH_RESOURCES
+      ? process.env.APTOS_MCP_WATCH_RESOURCES !== "false"
+      : (configFile.resources?.watch ?? true),
+  },
   server: {
     name: "Aptos MCP Server",
   },
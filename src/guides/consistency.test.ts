@@ -0,0 +1,107 @@
+import type { FastMCP } from "fastmcp";
+import { describe, expect, it } from "vitest";
+
+import { getAptosResource } from "../utils/index.js";
+import {
+  checkMarkdown,
+  checkResourceConsistency,
+  formatConsistencyIssues,
+  recordRegistrations,
+} from "./consistency.js";
+
+const knownNames = new Set(["list_aptos_resources", "create_geomi_api_key"]);
+
+const kinds = (markdown: string, filePath?: string) =>
+  checkMarkdown(markdown, { filePath, knownNames, source: "test.md" }).map(
+    (issue) => `${issue.line}:${issue.kind}`,
+  );
+
+describe("checkMarkdown", () => {
+  it("reports unknown tools and guides", () => {
+    expect(
+      kinds(
+        [
+          "Use 'list_aptos_resources' and `create_geomi_api_key`.",
+          "Then call 'delete_geomi_everything'.",
+          "See 'how_to_integrate_gas_station' or 'move/deploy_smart_contract'.",
+          "Read aptos://how_to/how_to_missing too.",
+        ].join("\n"),
+      ),
+    ).toEqual(["2:unknown_tool", "3:missing_guide", "4:missing_guide"]);
+  });
+
+  it("ignores quoted names that are not tool or guide shaped", () => {
+    expect(kinds("Set `your_table_name` and call `move_to`.")).toEqual([]);
+  });
+
+  it("reports fenced code blocks without a language", () => {
+    expect(
+      kinds(
+        [
+          "```",
+          "npm install",
+          "```",
+          "",
+          "- ```rust",
+          "  let a = 1;",
+          "  ```",
+          "",
+          "```ts",
+          "// 'create_unknown_aptos_thing' is in code",
+          "```",
+        ].join("\n"),
+      ),
+    ).toEqual(["1:missing_code_language"]);
+  });
+
+  it("checks relative links and anchors against the files on disk", () => {
+    const guide = getAptosResource(
+      "management",
+      "how_to_create_and_manage_keys",
+    );
+    if (!guide) {
+      throw new Error("Missing bundled guide");
+    }
+    expect(
+      kinds(
+        [
+          "[ok](../how_to/how_to_config_a_gas_station_in_a_dapp.md)",
+          "[gone](../how_to/how_to_integrate_gas_station.md)",
+          "[image](./diagram.png)",
+          "[anchor](#nowhere)",
+          "[external](https://geomi.dev)",
+        ].join("\n"),
+        guide.path,
+      ),
+    ).toEqual(["2:missing_guide", "3:broken_link", "4:broken_link"]);
+  });
+});
+
+describe("checkResourceConsistency", () => {
+  const register = (server: FastMCP) => {
+    server.addTool({
+      execute: async () => "",
+      name: "list_aptos_resources",
+    });
+    server.addPrompt({
+      load: async () => "Call 'get_geomi_secrets' first.",
+      name: "test_prompt",
+    });
+  };
+
+  it("records the tools and prompts a registration function adds", () => {
+    const { prompts, tools } = recordRegistrations(register);
+    expect(tools).toEqual(["list_aptos_resources"]);
+    expect(prompts.map((prompt) => prompt.name)).toEqual(["test_prompt"]);
+  });
+
+  it("checks rendered prompts against the registered tools", async () => {
+    const issues = await checkResourceConsistency(register, []);
+    expect(formatConsistencyIssues(issues)).toBe(
+      "Found 1 issue(s):\nprompt:test_prompt:1: [unknown_tool] Unknown tool 'get_geomi_secrets'",
+    );
+    expect(formatConsistencyIssues([])).toBe(
+      "All guides and prompts are consistent.",
+    );
+  });
+});
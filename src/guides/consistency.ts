@@ -0,0 +1,252 @@
+import { existsSync, readFileSync } from "node:fs";
+import * as path from "node:path";
+
+import type { FastMCP } from "fastmcp";
+
+import {
+  type AptosResource,
+  findAptosResource,
+  getAptosResources,
+  isResourceCategory,
+} from "../utils/index.js";
+import { FENCE_PATTERN, parseMarkdownSections } from "../utils/markdown.js";
+
+export type ConsistencyIssueKind =
+  | "broken_link"
+  | "missing_code_language"
+  | "missing_guide"
+  | "unknown_tool";
+
+export type ConsistencyIssue = {
+  kind: ConsistencyIssueKind;
+  // 1-based line in the guide or rendered prompt
+  line: number;
+  message: string;
+  // Guide path relative to the working directory, or `prompt:<name>`
+  source: string;
+};
+
+type RecordedPrompt = {
+  load: (args: Record<string, string>) => Promise<unknown>;
+  name: string;
+};
+
+type Registrations = {
+  prompts: RecordedPrompt[];
+  tools: string[];
+};
+
+const LINK_PATTERN = /\[[^\]]*\]\(([^)\s]+)(?:\s+"[^"]*")?\)/g;
+const QUOTED_NAME_PATTERN = /[`'"]([a-z][a-z0-9_]*(?:\/[a-z0-9_]+)?)[`'"]/g;
+const RESOURCE_URI_PATTERN = /aptos:\/\/[^\s)'"`]+/g;
+// Quoted names shaped like one of our tools, e.g. 'create_geomi_api_key'
+const TOOL_NAME_PATTERN =
+  /^(?:build|create|delete|edit|get|list|provision|remove|search|update|write)_\w*(?:aptos|geomi|gas_station|api_key|mcp)\w*$/;
+
+/**
+ * Run a registration function against a stand-in server and record the tools
+ * and prompts it adds, without starting anything.
+ */
+export function recordRegistrations(
+  register: (server: FastMCP) => void,
+): Registrations {
+  const registrations: Registrations = { prompts: [], tools: [] };
+  const recorder = new Proxy(
+    {},
+    {
+      get: (_target, property) => {
+        switch (property) {
+          case "addPrompt":
+            return (prompt: RecordedPrompt) =>
+              registrations.prompts.push(prompt);
+          case "addTool":
+            return (tool: { name: string }) =>
+              registrations.tools.push(tool.name);
+          case "addTools":
+            return (tools: { name: string }[]) =>
+              registrations.tools.push(...tools.map((tool) => tool.name));
+          default:
+            return () => undefined;
+        }
+      },
+    },
+  );
+  register(recorder as FastMCP);
+  return registrations;
+}
+
+const checkQuotedName = (
+  name: string,
+  knownNames: Set<string>,
+): Omit<ConsistencyIssue, "line" | "source"> | undefined => {
+  if (knownNames.has(name) || findAptosResource(name)) {
+    return undefined;
+  }
+  const [category] = name.split("/");
+  if (
+    (name.includes("/") && isResourceCategory(category)) ||
+    name.startsWith("how_to_")
+  ) {
+    return { kind: "missing_guide", message: `Unknown guide '${name}'` };
+  }
+  if (!name.includes("/") && TOOL_NAME_PATTERN.test(name)) {
+    return { kind: "unknown_tool", message: `Unknown tool '${name}'` };
+  }
+  return undefined;
+};
+
+const checkLink = (
+  target: string,
+  filePath: string | undefined,
+  anchors: Set<string>,
+): Omit<ConsistencyIssue, "line" | "source"> | undefined => {
+  if (target.startsWith("aptos://")) {
+    return findAptosResource(target)
+      ? undefined
+      : { kind: "missing_guide", message: `Unknown guide ${target}` };
+  }
+  if (/^[a-z][a-z0-9+.-]*:/i.test(target)) {
+    return undefined;
+  }
+
+  const [linkPath, anchor] = target.split("#");
+  if (!linkPath) {
+    return anchor && !anchors.has(anchor)
+      ? { kind: "broken_link", message: `Missing anchor #${anchor}` }
+      : undefined;
+  }
+  if (!filePath) {
+    return { kind: "broken_link", message: `Relative link ${target}` };
+  }
+
+  const resolved = path.resolve(path.dirname(filePath), linkPath);
+  if (!existsSync(resolved)) {
+    return linkPath.endsWith(".md")
+      ? { kind: "missing_guide", message: `Link to missing guide ${target}` }
+      : { kind: "broken_link", message: `Broken link ${target}` };
+  }
+  if (anchor && resolved.endsWith(".md")) {
+    const linkedAnchors = parseMarkdownSections(
+      readFileSync(resolved, "utf-8"),
+    ).map((section) => section.anchor);
+    if (!linkedAnchors.includes(anchor)) {
+      return { kind: "broken_link", message: `Missing anchor in ${target}` };
+    }
+  }
+  return undefined;
+};
+
+/**
+ * Check one guide or prompt text for references to unknown tools and guides,
+ * broken links and fenced code blocks without a language.
+ */
+export function checkMarkdown(
+  markdown: string,
+  {
+    filePath,
+    knownNames,
+    source,
+  }: { filePath?: string; knownNames: Set<string>; source: string },
+): ConsistencyIssue[] {
+  const issues: ConsistencyIssue[] = [];
+  const anchors = new Set(
+    parseMarkdownSections(markdown).map((section) => section.anchor),
+  );
+  let fence: string | null = null;
+
+  markdown.split("\n").forEach((text, index) => {
+    const line = index + 1;
+    const report = (
+      issue: Omit<ConsistencyIssue, "line" | "source"> | undefined,
+    ) => {
+      if (issue) {
+        issues.push({ ...issue, line, source });
+      }
+    };
+
+    const fenceMatch = text.match(FENCE_PATTERN);
+    if (fenceMatch) {
+      const [, marker, language] = fenceMatch;
+      if (!fence) {
+        fence = marker;
+        if (!language) {
+          report({
+            kind: "missing_code_language",
+            message: "Fenced code block has no language",
+          });
+        }
+      } else if (marker[0] === fence[0] && marker.length >= fence.length) {
+        fence = null;
+      }
+      return;
+    }
+    if (fence) {
+      return;
+    }
+
+    for (const [, target] of text.matchAll(LINK_PATTERN)) {
+      report(checkLink(target, filePath, anchors));
+    }
+    for (const [uri] of text
+      .replace(LINK_PATTERN, "")
+      .matchAll(RESOURCE_URI_PATTERN)) {
+      report(checkLink(uri, filePath, anchors));
+    }
+    for (const [, name] of text.matchAll(QUOTED_NAME_PATTERN)) {
+      report(checkQuotedName(name, knownNames));
+    }
+  });
+
+  return issues;
+}
+
+const renderPrompt = async (prompt: RecordedPrompt): Promise<string> => {
+  const result = await prompt.load({});
+  return typeof result === "string" ? result : JSON.stringify(result);
+};
+
+/**
+ * Check every guide and every prompt added by the registration function
+ * against the tools it registers.
+ */
+export async function checkResourceConsistency(
+  register: (server: FastMCP) => void,
+  resources: AptosResource[] = getAptosResources(),
+): Promise<ConsistencyIssue[]> {
+  const { prompts, tools } = recordRegistrations(register);
+  const knownNames = new Set([
+    ...tools,
+    ...prompts.map((prompt) => prompt.name),
+  ]);
+  const issues: ConsistencyIssue[] = [];
+
+  for (const resource of resources) {
+    issues.push(
+      ...checkMarkdown(readFileSync(resource.path, "utf-8"), {
+        filePath: resource.path,
+        knownNames,
+        source: path.relative(process.cwd(), resource.path),
+      }),
+    );
+  }
+  for (const prompt of prompts) {
+    issues.push(
+      ...checkMarkdown(await renderPrompt(prompt), {
+        knownNames,
+        source: `prompt:${prompt.name}`,
+      }),
+    );
+  }
+
+  return issues;
+}
+
+export const formatConsistencyIssues = (issues: ConsistencyIssue[]): string =>
+  issues.length === 0
+    ? "All guides and prompts are consistent."
+    : `Found ${issues.length} issue(s):\n${issues
+        .map(
+          (issue) =>
+            `${issue.source}:${issue.line}: [${issue.kind}] ${issue.message}`,
+        )
+        .join("\n")}`;
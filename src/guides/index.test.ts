@@ -0,0 +1,59 @@
+import { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import { InMemoryTransport } from "@modelcontextprotocol/sdk/inMemory.js";
+import { FastMCP } from "fastmcp";
+import { afterEach, describe, expect, it } from "vitest";
+
+import { registerResources } from "./index.js";
+
+describe("registerResources", () => {
+  let client: Client | undefined;
+
+  afterEach(async () => {
+    await client?.close();
+    client = undefined;
+  });
+
+  const connect = async () => {
+    const server = new FastMCP({ name: "test", version: "0.0.0" });
+    registerResources(server);
+
+    const [clientTransport, serverTransport] =
+      InMemoryTransport.createLinkedPair();
+    client = new Client({ name: "guides-test", version: "1.0.0" });
+    await Promise.all([
+      server.connect(serverTransport),
+      client.connect(clientTransport),
+    ]);
+    return client;
+  };
+
+  it("lists every guide with an aptos:// uri", async () => {
+    const { resources } = await (await connect()).listResources();
+
+    expect(resources).toEqual(
+      expect.arrayContaining([
+        expect.objectContaining({
+          mimeType: "text/markdown",
+          uri: "aptos://how_to/how_to_add_wallet_connection",
+        }),
+        expect.objectContaining({ uri: "aptos://move/deploy_smart_contract" }),
+        expect.objectContaining({
+          uri: "aptos://management/how_to_fund_an_account_on_aptos",
+        }),
+        expect.objectContaining({ uri: "aptos://frontend/write_a_frontend" }),
+      ]),
+    );
+  });
+
+  it("reads a guide by uri", async () => {
+    const { contents } = await (await connect()).readResource({
+      uri: "aptos://how_to/how_to_sign_and_submit_transaction",
+    });
+
+    expect(contents[0]).toMatchObject({ mimeType: "text/markdown" });
+    expect(contents[0].text).toContain(
+      "# How to Sign and Submit a Transaction",
+    );
+    expect(contents[0].text).not.toContain("tags:");
+  });
+});
@@ -0,0 +1,72 @@
+import type { FastMCP } from "fastmcp";
+
+import {
+  type AptosResource,
+  describeResourceSource,
+  getAptosResource,
+  getAptosResources,
+  isResourceCategory,
+  RESOURCE_CATEGORIES,
+  RESOURCE_MIME_TYPE,
+  readAptosGuide,
+} from "../utils/index.js";
+
+export const toMcpResource = (resource: AptosResource) => ({
+  description: `${resource.title} (${describeResourceSource(resource)})`,
+  load: async () => ({
+    mimeType: resource.mimeType,
+    text: await readAptosGuide(resource),
+  }),
+  mimeType: resource.mimeType,
+  name: resource.id,
+  uri: resource.uri,
+});
+
+/**
+ * Register every Aptos guide as an MCP resource (`aptos://<category>/<name>`),
+ * plus a template so guides added after startup can still be read by uri.
+ */
+export function registerResources(server: FastMCP): void {
+  server.addResources(getAptosResources().map(toMcpResource));
+
+  server.addResourceTemplate({
+    arguments: [
+      {
+        complete: async (value: string) => ({
+          values: RESOURCE_CATEGORIES.filter((category) =>
+            category.startsWith(value),
+          ),
+        }),
+        description: `The guide category: ${RESOURCE_CATEGORIES.join(", ")}`,
+        name: "category",
+        required: true,
+      },
+      {
+        complete: async (value: string) => ({
+          values: getAptosResources()
+            .map((resource) => resource.name)
+            .filter((name) => name.startsWith(value)),
+        }),
+        description: "The guide file name without the .md extension",
+        name: "name",
+        required: true,
+      },
+    ],
+    description: "An Aptos development guide",
+    load: async ({ category, name }) => {
+      const resource = isResourceCategory(category)
+        ? getAptosResource(category, name)
+        : undefined;
+      if (!resource) {
+        throw new Error(`Aptos resource not found: ${category}/${name}`);
+      }
+      return {
+        mimeType: resource.mimeType,
+        text: await readAptosGuide(resource),
+      };
+    },
+    mimeType: RESOURCE_MIME_TYPE,
+    name: "aptos_guide",
+    uriTemplate: "aptos://{category}/{name}",
+  });
+}
@@ -0,0 +1,106 @@
+import { mkdirSync, mkdtempSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+
+import { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import { InMemoryTransport } from "@modelcontextprotocol/sdk/inMemory.js";
+import {
+  ResourceListChangedNotificationSchema,
+  ResourceUpdatedNotificationSchema,
+} from "@modelcontextprotocol/sdk/types.js";
+import { FastMCP } from "fastmcp";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+
+import { config } from "../config.js";
+import { getSearchIndex, searchSections } from "../utils/search.js";
+import { registerResources } from "./index.js";
+import { type ResourceWatcher, watchResources } from "./watcher.js";
+
+describe("watchResources", () => {
+  let teamDir: string;
+  let client: Client;
+  let watcher: ResourceWatcher;
+  const listChanged = vi.fn();
+  const updated = vi.fn();
+
+  beforeEach(async () => {
+    teamDir = mkdtempSync(join(tmpdir(), "aptos-mcp-watch-"));
+    mkdirSync(join(teamDir, "how_to"));
+    writeFileSync(join(teamDir, "how_to", "team_guide.md"), "# Team Guide\n");
+    config.resources.extraDirs.push(teamDir);
+
+    const server = new FastMCP({ name: "test", version: "0.0.0" });
+    registerResources(server);
+    watcher = watchResources(server, { debounceMs: 10 });
+
+    const [clientTransport, serverTransport] =
+      InMemoryTransport.createLinkedPair();
+    client = new Client({ name: "watch-test", version: "1.0.0" });
+    client.setNotificationHandler(
+      ResourceListChangedNotificationSchema,
+      listChanged,
+    );
+    client.setNotificationHandler(ResourceUpdatedNotificationSchema, updated);
+    await Promise.all([
+      server.connect(serverTransport),
+      client.connect(clientTransport),
+    ]);
+  });
+
+  afterEach(async () => {
+    watcher.close();
+    await client.close();
+    config.resources.extraDirs.splice(
+      config.resources.extraDirs.indexOf(teamDir),
+      1,
+    );
+    rmSync(teamDir, { force: true, recursive: true });
+    listChanged.mockReset();
+    updated.mockReset();
+  });
+
+  it("registers new guides and notifies the client", async () => {
+    writeFileSync(
+      join(teamDir, "how_to", "allowed_wallets.md"),
+      "# Allowed Wallets\n\nOnly zebrawallet is allowed.\n",
+    );
+    await watcher.reload();
+
+    await vi.waitFor(() => expect(listChanged).toHaveBeenCalled());
+    const { resources } = await client.listResources();
+    expect(resources.map((resource) => resource.uri)).toContain(
+      "aptos://how_to/allowed_wallets",
+    );
+    expect(searchSections(getSearchIndex(), "zebrawallet")[0]?.heading).toBe(
+      "Allowed Wallets",
+    );
+  });
+
+  it("unregisters deleted guides", async () => {
+    rmSync(join(teamDir, "how_to", "team_guide.md"));
+    await watcher.reload();
+
+    const { resources } = await client.listResources();
+    expect(resources.map((resource) => resource.uri)).not.toContain(
+      "aptos://how_to/team_guide",
+    );
+  });
+
+  it("sends updates for subscribed guides whose content changed", async () => {
+    await client.subscribeResource({ uri: "aptos://how_to/team_guide" });
+    writeFileSync(
+      join(teamDir, "how_to", "team_guide.md"),
+      "# Team Guide\n\nUpdated.\n",
+      { flag: "w" },
+    );
+
+    await vi.waitFor(() =>
+      expect(updated).toHaveBeenCalledWith(
+        expect.objectContaining({
+          params: { uri: "aptos://how_to/team_guide" },
+        }),
+      ),
+    );
+    expect(listChanged).not.toHaveBeenCalled();
+  });
+});
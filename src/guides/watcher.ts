@@ -0,0 +1,136 @@
+import { existsSync, type FSWatcher, statSync, watch } from "node:fs";
+import type { FastMCP } from "fastmcp";
+
+import {
+  type AptosResource,
+  getAptosResources,
+  getResourceSources,
+} from "../utils/index.js";
+import { rebuildSearchIndex } from "../utils/search.js";
+import { toMcpResource } from "./index.js";
+
+type CatalogEntry = {
+  modifiedAt: number;
+  resource: AptosResource;
+  // Changes when the listed metadata of the resource changes
+  signature: string;
+};
+
+const snapshot = (): Map<string, CatalogEntry> =>
+  new Map(
+    getAptosResources().map((resource) => {
+      let modifiedAt = 0;
+      try {
+        modifiedAt = statSync(resource.path).mtimeMs;
+      } catch {
+        // Deleted between discovery and stat, the next reload drops it
+      }
+      return [
+        resource.uri,
+        {
+          modifiedAt,
+          resource,
+          signature: JSON.stringify([
+            resource.title,
+            resource.path,
+            resource.shadows,
+          ]),
+        },
+      ];
+    }),
+  );
+
+export type ResourceWatcher = {
+  close: () => void;
+  // Compare the guides on disk with the registered ones and notify clients
+  reload: () => Promise<void>;
+};
+
+/**
+ * Watch the bundled and team guide directories and keep the registered MCP
+ * resources and the search index in sync with them. Clients get
+ * `notifications/resources/list_changed` when guides are added, removed or
+ * renamed, and `notifications/resources/updated` for subscribed guides whose
+ * content changed.
+ */
+export function watchResources(
+  server: FastMCP,
+  { debounceMs = 200 }: { debounceMs?: number } = {},
+): ResourceWatcher {
+  let catalog = snapshot();
+  let timer: NodeJS.Timeout | undefined;
+
+  const reload = async () => {
+    const next = snapshot();
+    const removed = [...catalog.keys()].filter((uri) => !next.has(uri));
+    const listed: AptosResource[] = [];
+    const updated: string[] = [];
+
+    for (const [uri, entry] of next) {
+      const previous = catalog.get(uri);
+      if (!previous || previous.signature !== entry.signature) {
+        listed.push(entry.resource);
+      }
+      if (
+        previous &&
+        (previous.modifiedAt !== entry.modifiedAt ||
+          previous.signature !== entry.signature)
+      ) {
+        updated.push(uri);
+      }
+    }
+
+    if (removed.length > 0) {
+      server.removeResources(
+        removed.map((uri) => catalog.get(uri)?.resource.id ?? uri),
+      );
+    }
+    if (listed.length > 0) {
+      server.addResources(listed.map(toMcpResource));
+    }
+    catalog = next;
+
+    if (removed.length > 0 || listed.length > 0 || updated.length > 0) {
+      rebuildSearchIndex();
+    }
+    await Promise.all(updated.map((uri) => server.sendResourceUpdated(uri)));
+  };
+
+  const onChange = () => {
+    clearTimeout(timer);
+    timer = setTimeout(() => {
+      reload().catch((error) => {
+        console.error("Error reloading Aptos resources:", error);
+      });
+    }, debounceMs);
+  };
+
+  const watchers: FSWatcher[] = [];
+  for (const { dir } of getResourceSources()) {
+    if (!existsSync(dir)) {
+      console.error(`Resource directory not found, not watching: ${dir}`);
+      continue;
+    }
+    try {
+      const watcher = watch(dir, { recursive: true }, onChange);
+      watcher.on("error", (error) => {
+        console.error(`Error watching ${dir}:`, error);
+      });
+      // Watching must not keep the process alive on its own
+      watcher.unref();
+      watchers.push(watcher);
+    } catch (error) {
+      console.error(`Error watching ${dir}:`, error);
+    }
+  }
+
+  return {
+    close: () => {
+      clearTimeout(timer);
+      for (const watcher of watchers) {
+        watcher.close();
+      }
+    },
+    reload,
+  };
+}
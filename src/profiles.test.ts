@@ -0,0 +1,60 @@
+import { describe, expect, it } from "vitest";
+
+import { resolveProfile } from "./profiles.js";
+
+describe("resolveProfile", () => {
+  it("defaults to production", () => {
+    const profile = resolveProfile({}, undefined);
+
+    expect(profile).toMatchObject({
+      adminUrl: "https://admin.api.aptoslabs.com/api/rspc",
+      name: "production",
+      source: "default",
+    });
+    expect(profile.gasStationUrls.localnet).toBeUndefined();
+  });
+
+  it("prefers the env profile over the config file", () => {
+    expect(resolveProfile({ profile: "production" }, "local")).toMatchObject({
+      gasStationUrls: { localnet: "http://127.0.0.1:8787/localnet/gs/v1" },
+      name: "local",
+      source: "env",
+    });
+    expect(resolveProfile({ profile: "production" }, undefined).source).toBe(
+      "config file",
+    );
+  });
+
+  it("merges config file endpoints into built-in and custom profiles", () => {
+    const configFile = {
+      profile: "production",
+      profiles: {
+        mine: {
+          admin_url: "http://localhost:9000/api/rspc",
+          gas_station_urls: { devnet: "http://localhost:9001/gs/v1" },
+        },
+        production: {
+          gas_station_urls: { localnet: "http://localhost/gs/v1" },
+        },
+      },
+    };
+
+    const production = resolveProfile(configFile, undefined);
+    expect(production.adminUrl).toBe(
+      "https://admin.api.aptoslabs.com/api/rspc",
+    );
+    expect(production.gasStationUrls.localnet).toBe("http://localhost/gs/v1");
+    expect(production.gasStationUrls.testnet).toBeDefined();
+
+    expect(resolveProfile(configFile, "mine")).toMatchObject({
+      adminUrl: "http://localhost:9000/api/rspc",
+      gasStationUrls: { devnet: "http://localhost:9001/gs/v1" },
+    });
+  });
+
+  it("rejects unknown profiles", () => {
+    expect(() => resolveProfile({}, "qa")).toThrow(
+      'Unknown profile "qa". Available profiles: local, production, sandbox',
+    );
+  });
+});
@@ -0,0 +1,94 @@
+import type { ConfigFile } from "./config-file.js";
+
+export const NETWORKS = ["mainnet", "testnet", "devnet", "localnet"] as const;
+
+export type Network = (typeof NETWORKS)[number];
+
+export const DEFAULT_PROFILE = "production";
+
+export type ProfileEndpoints = {
+  // rspc endpoint of the Geomi admin API
+  adminUrl: string;
+  // Gas station API per network. Networks without one have no gas station.
+  gasStationUrls: Partial<Record<Network, string>>;
+};
+
+export type Profile = ProfileEndpoints & {
+  name: string;
+  // Where the profile name came from
+  source: "config file" | "default" | "env";
+};
+
+// Port of the local stand-in for the admin and gas station APIs
+export const LOCAL_URL = "http://127.0.0.1:8787";
+
+// The profile that runs an in-process sandbox instead of calling Geomi
+export const SANDBOX_PROFILE = "sandbox";
+
+/**
+ * Endpoints of a stand-in served from one base URL, like the sandbox.
+ */
+export const localEndpoints = (baseUrl: string): ProfileEndpoints => ({
+  adminUrl: `${baseUrl}/api/rspc`,
+  gasStationUrls: Object.fromEntries(
+    NETWORKS.map((network) => [network, `${baseUrl}/${network}/gs/v1`]),
+  ),
+});
+
+export const BUILT_IN_PROFILES: Record<string, ProfileEndpoints> = {
+  local: localEndpoints(LOCAL_URL),
+  production: {
+    adminUrl: "https://admin.api.aptoslabs.com/api/rspc",
+    gasStationUrls: {
+      mainnet: "https://api.mainnet.aptoslabs.com/gs/v1",
+      testnet: "https://api.testnet.aptoslabs.com/gs/v1",
+    },
+  },
+  // Pointed at the sandbox's port once it has started
+  [SANDBOX_PROFILE]: localEndpoints(LOCAL_URL),
+};
+
+/**
+ * Pick the active profile: APTOS_MCP_PROFILE, then `profile` in the config
+ * file, then production. Profiles in the config file override the endpoints
+ * of a built-in profile or define new ones.
+ */
+export function resolveProfile(
+  configFile: ConfigFile,
+  envProfile = process.env.APTOS_MCP_PROFILE,
+): Profile {
+  const name = envProfile || configFile.profile || DEFAULT_PROFILE;
+  const source = envProfile
+    ? "env"
+    : configFile.profile
+      ? "config file"
+      : "default";
+  const builtIn = BUILT_IN_PROFILES[name];
+  const overrides = configFile.profiles?.[name];
+
+  if (!builtIn && !overrides) {
+    const available = [
+      ...new Set([
+        ...Object.keys(BUILT_IN_PROFILES),
+        ...Object.keys(configFile.profiles ?? {}),
+      ]),
+    ];
+    throw new Error(
+      `Unknown profile "${name}". Available profiles: ${available.join(", ")}`,
+    );
+  }
+
+  const adminUrl = overrides?.admin_url ?? builtIn?.adminUrl;
+  if (!adminUrl) {
+    throw new Error(`Profile "${name}" has no admin_url`);
+  }
+  return {
+    adminUrl,
+    gasStationUrls: {
+      ...builtIn?.gasStationUrls,
+      ...overrides?.gas_station_urls,
+    },
+    name,
+    source,
+  };
+}
@@ -0,0 +1,205 @@
+import { getAptosResources } from "../utils/index.js";
+
+export const DEBUGGING_AREAS = [
+  "move",
+  "frontend",
+  "wallet",
+  "transaction",
+  "gas_station",
+  "api_key",
+  "rate_limit",
+  "indexer",
+  "account",
+] as const;
+
+export type DebuggingArea = (typeof DEBUGGING_AREAS)[number];
+
+type AreaGuidance = {
+  // Guide ids in the `<category>/<name>` form
+  guides: string[];
+  // Words in an error message that point at this area
+  keywords: RegExp;
+  label: string;
+  tools: string[];
+};
+
+export const DEBUGGING_AREA_GUIDANCE: Record<DebuggingArea, AreaGuidance> = {
+  move: {
+    guides: [
+      "move/write_a_move_smart_contract",
+      "move/develop_smart_contract",
+      "move/deploy_smart_contract",
+    ],
+    keywords: /\bmove\b|compil|module|abort|unbound|bytecode|aptos move/i,
+    label: "Move smart contracts",
+    tools: ["build_smart_contract_on_aptos"],
+  },
+  frontend: {
+    guides: [
+      "frontend/write_a_frontend",
+      "how_to/how_to_add_wallet_connection",
+      "how_to/how_to_sign_and_submit_transaction",
+    ],
+    keywords: /react|vite|next\.?js|frontend|component|\bui\b/i,
+    label: "Frontend",
+    tools: ["build_ui_frontend_on_aptos"],
+  },
+  wallet: {
+    guides: [
+      "how_to/how_to_add_wallet_connection",
+      "how_to/how_to_integrate_wallet_selector_ui",
+    ],
+    keywords: /wallet|adapter|connect|petra|keyless/i,
+    label: "Wallet connection",
+    tools: ["get_specific_aptos_resource"],
+  },
+  transaction: {
+    guides: [
+      "how_to/how_to_sign_and_submit_transaction",
+      "management/how_to_fund_an_account_on_aptos",
+    ],
+    keywords:
+      /transaction|signAndSubmit|simulat|sequence number|INSUFFICIENT_BALANCE|vm_status/i,
+    label: "Transactions",
+    tools: ["get_specific_aptos_resource"],
+  },
+  gas_station: {
+    guides: ["how_to/how_to_config_a_gas_station_in_a_dapp"],
+    keywords: /gas station|sponsor|fee ?payer/i,
+    label: "Gas station",
+    tools: ["create_gas_station_application", "get_geomi_applications"],
+  },
+  api_key: {
+    guides: ["how_to/how_to_config_a_full_node_api_key_in_a_dapp"],
+    keywords: /api ?key|unauthori[sz]ed|\b401\b|\b403\b/i,
+    label: "Full node API keys",
+    tools: ["create_geomi_api_key", "get_geomi_applications"],
+  },
+  rate_limit: {
+    guides: [
+      "how_to/how_to_handle_rate_limit_in_a_dapp",
+      "how_to/how_to_config_a_full_node_api_key_in_a_dapp",
+    ],
+    keywords: /rate ?limit|\b429\b|too many requests/i,
+    label: "Rate limits",
+    tools: ["create_geomi_api_key"],
+  },
+  indexer: {
+    guides: [
+      "how_to/how_to_integrate_no_code_indexer",
+      "how_to/how_to_integrate_fungible_asset",
+    ],
+    keywords: /indexer|graphql|hasura|processor/i,
+    label: "Indexer",
+    tools: ["get_specific_aptos_resource"],
+  },
+  account: {
+    guides: [
+      "management/how_to_configure_admin_account",
+      "management/how_to_create_and_manage_keys",
+      "management/how_to_fund_an_account_on_aptos",
+    ],
+    keywords: /account|private key|faucet|fund|profile/i,
+    label: "Accounts and keys",
+    tools: ["build_smart_contract_on_aptos"],
+  },
+};
+
+/**
+ * Guess the areas an error message belongs to from its wording.
+ */
+export const detectDebuggingAreas = (errorMessage: string): DebuggingArea[] =>
+  DEBUGGING_AREAS.filter((area) =>
+    DEBUGGING_AREA_GUIDANCE[area].keywords.test(errorMessage),
+  );
+
+export const buildDebuggingHelperText = ({
+  area,
+  error_message,
+}: {
+  area?: string;
+  error_message?: string;
+}): string => {
+  const errorMessage = error_message?.trim();
+  const areas: DebuggingArea[] = DEBUGGING_AREAS.includes(area as DebuggingArea)
+    ? [area as DebuggingArea]
+    : errorMessage
+      ? detectDebuggingAreas(errorMessage)
+      : [];
+  const resources = new Map(
+    getAptosResources().map((resource) => [resource.id, resource]),
+  );
+
+  const sections = (areas.length > 0 ? areas : DEBUGGING_AREAS).map(
+    (debuggingArea) => {
+      const guidance = DEBUGGING_AREA_GUIDANCE[debuggingArea];
+      const guides = guidance.guides.map((id) => {
+        const resource = resources.get(id);
+        return resource
+          ? `   - '${resource.id}' (${resource.uri}) - ${resource.title}`
+          : `   - '${id}'`;
+      });
+      return [
+        `- ${guidance.label}:`,
+        ...guides,
+        `   - Tools: ${guidance.tools.map((tool) => `'${tool}'`).join(", ")}`,
+      ].join("\n");
+    },
+  );
+
+  return `APTOS DEBUGGING HELPER
+
+You seem to be encountering issues with Aptos development.
+${errorMessage ? `\nERROR:\n${errorMessage}\n` : ""}
+STOP - Before trying generic solutions:
+
+REQUIRED FIRST STEPS:
+1. Check MCP resources first:
+   - Use 'list_aptos_resources' to discover available guidance
+   - Get specific guidance with 'get_specific_aptos_resource' or read the aptos:// resources below
+
+2. ${areas.length > 0 ? "Guides matching this problem" : "Guides by area"}:
+${sections.join("\n")}
+
+3. For broader problems, use targeted MCP tools:
+   - Move contracts: 'build_smart_contract_on_aptos'
+   - Frontend issues: 'build_ui_frontend_on_aptos'
+   - Full-stack problems: 'build_dapp_on_aptos'
+
+DO NOT:
+- Try random fixes based on generic blockchain knowledge
+- Keep retrying the same failing approach
+- Use Stack Overflow solutions without checking if they're Aptos-specific
+- Assume your implementation is correct without consulting MCP
+
+ALWAYS:
+- Consult MCP tools first
+- Follow Aptos-specific guidance from MCP resources
+- Verify your implementation approach with MCP
+- Use current Aptos Move patterns, not outdated ones`;
+};
+
+/**
+ * Prompt to redirect the agent to the matching guides when it hits an error.
+ */
+export const aptosDebuggingHelperPrompt = {
+  arguments: [
+    {
+      description:
+        "The error message or unexpected behavior you are seeing. Used to pick the matching guides when no area is given.",
+      name: "error_message",
+      required: false,
+    },
+    {
+      description: `The area the problem is in: ${DEBUGGING_AREAS.join(", ")}.`,
+      enum: [...DEBUGGING_AREAS],
+      name: "area",
+      required: false,
+    },
+  ],
+  description:
+    "ERROR RECOVERY PROMPT: Use this immediately when encountering Aptos-related errors, stuck in debugging loops, or when about to try generic blockchain solutions. Redirects to MCP-first debugging approach.",
+  load: async (args: { area?: string; error_message?: string }) =>
+    buildDebuggingHelperText(args),
+  name: "aptos_debugging_helper_prompt",
+};
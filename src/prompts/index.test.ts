@@ -0,0 +1,81 @@
+import { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import { InMemoryTransport } from "@modelcontextprotocol/sdk/inMemory.js";
+import { FastMCP } from "fastmcp";
+import { afterEach, describe, expect, it } from "vitest";
+
+import { buildDebuggingHelperText, detectDebuggingAreas } from "./debugging.js";
+import { registerPrompts } from "./index.js";
+
+describe("registerPrompts", () => {
+  let client: Client | undefined;
+
+  afterEach(async () => {
+    await client?.close();
+    client = undefined;
+  });
+
+  const connect = async () => {
+    const server = new FastMCP({ name: "test", version: "0.0.0" });
+    registerPrompts(server);
+
+    const [clientTransport, serverTransport] =
+      InMemoryTransport.createLinkedPair();
+    client = new Client({ name: "prompts-test", version: "1.0.0" });
+    await Promise.all([
+      server.connect(serverTransport),
+      client.connect(clientTransport),
+    ]);
+    return client;
+  };
+
+  it("lists the guidance prompts with their arguments", async () => {
+    const { prompts } = await (await connect()).listPrompts();
+
+    expect(prompts.map((prompt) => prompt.name).sort()).toEqual([
+      "aptos_debugging_helper_prompt",
+      "aptos_development_reminder_prompt",
+      "build_dapp_on_aptos_guidance_prompt",
+    ]);
+    expect(
+      prompts
+        .find((prompt) => prompt.name === "aptos_debugging_helper_prompt")
+        ?.arguments?.map((argument) => argument.name),
+    ).toEqual(["error_message", "area"]);
+  });
+
+  it("renders the debugging prompt for the requested area", async () => {
+    const { messages } = await (await connect()).getPrompt({
+      arguments: { area: "gas_station", error_message: "403 Forbidden" },
+      name: "aptos_debugging_helper_prompt",
+    });
+
+    expect(messages[0].content).toMatchObject({ type: "text" });
+    const text = (messages[0].content as { text: string }).text;
+    expect(text).toContain("403 Forbidden");
+    expect(text).toContain(
+      "aptos://how_to/how_to_config_a_gas_station_in_a_dapp",
+    );
+    expect(text).not.toContain("write_a_move_smart_contract");
+  });
+});
+
+describe("buildDebuggingHelperText", () => {
+  it("infers the area from the error message", () => {
+    expect(detectDebuggingAreas("Too many requests (429)")).toEqual([
+      "rate_limit",
+    ]);
+
+    const text = buildDebuggingHelperText({
+      error_message: "Too many requests (429)",
+    });
+    expect(text).toContain("how_to_handle_rate_limit_in_a_dapp");
+    expect(text).not.toContain("deploy_smart_contract");
+  });
+
+  it("lists guides for every area when nothing matches", () => {
+    const text = buildDebuggingHelperText({});
+
+    expect(text).toContain("aptos://move/deploy_smart_contract");
+    expect(text).toContain("aptos://how_to/how_to_add_wallet_connection");
+  });
+});
@@ -0,0 +1,13 @@
+import type { FastMCP } from "fastmcp";
+
+import { aptosDebuggingHelperPrompt } from "./debugging.js";
+import {
+  aptosDevelopmentReminderPrompt,
+  buildDappOnAptosGuidancePrompt,
+} from "./guidance.js";
+
+export function registerPrompts(server: FastMCP): void {
+  server.addPrompt(buildDappOnAptosGuidancePrompt);
+  server.addPrompt(aptosDevelopmentReminderPrompt);
+  server.addPrompt(aptosDebuggingHelperPrompt);
+}
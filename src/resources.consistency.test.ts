@@ -0,0 +1,14 @@
+import { describe, expect, it } from "vitest";
+
+import { registerServer } from "./app.js";
+import {
+  checkResourceConsistency,
+  formatConsistencyIssues,
+} from "./guides/consistency.js";
+
+describe("bundled guides and prompts", () => {
+  it("only reference registered tools, existing guides and valid links", async () => {
+    const issues = await checkResourceConsistency(registerServer);
+    expect(issues, formatConsistencyIssues(issues)).toEqual([]);
+  });
+});
@@ -0,0 +1,466 @@
+import type {
+  ApiKey,
+  Application,
+  CreateApiKeyFrontendArgs,
+  Organization,
+  Procedures,
+  Project,
+} from "@aptos-labs/api-gateway-admin-api-client";
+
+import { NETWORKS } from "../profiles.js";
+import {
+  childrenOf,
+  deleteApplicationCascade,
+  deleteProjectCascade,
+  newId,
+  newKeySecret,
+  now,
+  SandboxError,
+  type SandboxState,
+  toRecursiveOrgData,
+} from "./state.js";
+
+type AdminProcedure = Procedures["mutations"] | Procedures["queries"];
+
+type Procedure<P extends AdminProcedure> = {
+  // The input is the request's JSON, so required fields may be missing
+  handler: (
+    state: SandboxState,
+    headers: Headers,
+    input: Partial<P["input"]>,
+  ) => P["result"];
+  kind: P extends Procedures["queries"] ? "query" : "mutation";
+};
+
+type SandboxProcedures = {
+  [P in AdminProcedure as P["key"]]?: Procedure<P>;
+};
+
+const SERVICE_TYPES = ["All", "Api", "Gs", "Tmp", "Nci", "AiChatbot"];
+
+const requireString = (
+  input: Record<string, unknown>,
+  field: string,
+): string => {
+  const value = input[field];
+  if (typeof value !== "string" || !value.trim()) {
+    throw new SandboxError(400, `Missing required field "${field}"`);
+  }
+  return value.trim();
+};
+
+const requireOrganization = (
+  state: SandboxState,
+  headers: Headers,
+): Organization => {
+  const id = headers.get("x-jwt-organization-id");
+  if (!id) {
+    throw new SandboxError(400, "Missing x-jwt-organization-id header");
+  }
+  const organization = state.organizations.get(id);
+  if (!organization) {
+    throw new SandboxError(404, `Organization ${id} not found`);
+  }
+  return organization;
+};
+
+const requireProject = (state: SandboxState, headers: Headers): Project => {
+  const organization = requireOrganization(state, headers);
+  const id = headers.get("x-jwt-project-id");
+  if (!id) {
+    throw new SandboxError(400, "Missing x-jwt-project-id header");
+  }
+  const project = state.projects.get(id);
+  if (!project || project.organizationId !== organization.id) {
+    throw new SandboxError(
+      404,
+      `Project ${id} not found in organization ${organization.id}`,
+    );
+  }
+  return project;
+};
+
+/**
+ * The application named by the x-jwt-* headers, checked against its project
+ * and organization. Shared with the gas station routes.
+ */
+export const requireApplication = (
+  state: SandboxState,
+  headers: Headers,
+): Application => {
+  const project = requireProject(state, headers);
+  const id = headers.get("x-jwt-application-id");
+  if (!id) {
+    throw new SandboxError(400, "Missing x-jwt-application-id header");
+  }
+  const application = state.applications.get(id);
+  if (!application || application.projectId !== project.id) {
+    throw new SandboxError(
+      404,
+      `Application ${id} not found in project ${project.id}`,
+    );
+  }
+  return application;
+};
+
+const requireApiKey = (
+  state: SandboxState,
+  application: Application,
+  name: string,
+): ApiKey => {
+  const apiKey = childrenOf(
+    state.apiKeys,
+    (key) => key.applicationId === application.id && key.name === name,
+  )[0];
+  if (!apiKey) {
+    throw new SandboxError(
+      404,
+      `API key "${name}" not found in application ${application.id}`,
+    );
+  }
+  return apiKey;
+};
+
+const assertUniqueName = <T extends { id: string; name: string }>(
+  siblings: T[],
+  name: string,
+  kind: string,
+  exceptId?: string,
+) => {
+  if (
+    siblings.some((entity) => entity.name === name && entity.id !== exceptId)
+  ) {
+    throw new SandboxError(409, `${kind} named "${name}" already exists`);
+  }
+};
+
+const applyFrontendArgs = (
+  apiKey: ApiKey,
+  frontendArgs: CreateApiKeyFrontendArgs | null | undefined,
+) => {
+  apiKey.webAppUrls = frontendArgs?.web_app_urls ?? [];
+  apiKey.extensionIds = frontendArgs?.extension_ids ?? [];
+  apiKey.httpRateLimitPerIp = frontendArgs?.http_rate_limit_per_ip ?? null;
+};
+
+const keysOf = (state: SandboxState, application: Application) =>
+  childrenOf(state.apiKeys, (key) => key.applicationId === application.id);
+
+/**
+ * The admin API procedures the sandbox implements, by rspc key. Entities are
+ * scoped by the same x-jwt-* headers the real API reads.
+ */
+export const PROCEDURES: SandboxProcedures = {
+  createApiKeyV2: {
+    handler: (state, headers, input) => {
+      const application = requireApplication(state, headers);
+      const name = requireString(input, "name");
+      assertUniqueName(keysOf(state, application), name, "An API key");
+      const apiKey: ApiKey = {
+        applicationId: application.id,
+        createdAt: now(),
+        extensionIds: [],
+        httpRateLimitPerIp: null,
+        id: newId(),
+        keySecret: newKeySecret(),
+        name,
+        webAppUrls: [],
+      };
+      applyFrontendArgs(apiKey, input.frontend_args);
+      state.apiKeys.set(apiKey.id, apiKey);
+      return apiKey;
+    },
+    kind: "mutation",
+  },
+  createApplicationV2: {
+    handler: (state, headers, input) => {
+      const project = requireProject(state, headers);
+      const name = requireString(input, "name");
+      const network = requireString(input, "network");
+      const serviceType = requireString(input, "service_type");
+      if (!(NETWORKS as readonly string[]).includes(network)) {
+        throw new SandboxError(
+          400,
+          `Unknown network "${network}". Expected one of: ${NETWORKS.join(", ")}`,
+        );
+      }
+      if (!SERVICE_TYPES.includes(serviceType)) {
+        throw new SandboxError(
+          400,
+          `Unknown service type "${serviceType}". Expected one of: ${SERVICE_TYPES.join(", ")}`,
+        );
+      }
+      assertUniqueName(
+        childrenOf(state.applications, (app) => app.projectId === project.id),
+        name,
+        "An application",
+      );
+      const application: Application = {
+        allowedNetworks: [network],
+        createdAt: now(),
+        description: input.description ?? null,
+        id: newId(),
+        name,
+        projectId: project.id,
+        serviceType,
+        trafficTier: "free",
+      };
+      state.applications.set(application.id, application);
+      return application;
+    },
+    kind: "mutation",
+  },
+  createOrganization: {
+    handler: (state, _headers, input) => {
+      const organization: Organization = {
+        createdAt: now(),
+        dailyBudgetCents: null,
+        id: newId(),
+        monthlyBudgetCents: null,
+        name: requireString(input, "name"),
+        stripeCustomerId: null,
+        stripeSubscriptionId: null,
+        usageBlockedReason: null,
+      };
+      state.organizations.set(organization.id, organization);
+      return organization;
+    },
+    kind: "mutation",
+  },
+  createProject: {
+    handler: (state, headers, input) => {
+      const organization = requireOrganization(state, headers);
+      const name = requireString(input, "project_name");
+      assertUniqueName(
+        childrenOf(
+          state.projects,
+          (project) => project.organizationId === organization.id,
+        ),
+        name,
+        "A project",
+      );
+      const project: Project = {
+        createdAt: now(),
+        description: input.description ?? "",
+        id: newId(),
+        name,
+        organizationId: organization.id,
+      };
+      state.projects.set(project.id, project);
+      return project;
+    },
+    kind: "mutation",
+  },
+  deleteApiKeyV2: {
+    handler: (state, headers, input) => {
+      const application = requireApplication(state, headers);
+      const apiKey = requireApiKey(
+        state,
+        application,
+        requireString(input, "name"),
+      );
+      state.apiKeys.delete(apiKey.id);
+      return apiKey;
+    },
+    kind: "mutation",
+  },
+  deleteApplicationV2: {
+    handler: (state, headers) => {
+      const application = requireApplication(state, headers);
+      deleteApplicationCascade(state, application.id);
+      return application;
+    },
+    kind: "mutation",
+  },
+  deleteOrganization: {
+    handler: (state, headers) => {
+      const organization = requireOrganization(state, headers);
+      for (const project of childrenOf(
+        state.projects,
+        (project) => project.organizationId === organization.id,
+      )) {
+        deleteProjectCascade(state, project.id);
+      }
+      state.organizations.delete(organization.id);
+      return null;
+    },
+    kind: "mutation",
+  },
+  deleteProject: {
+    handler: (state, headers) => {
+      deleteProjectCascade(state, requireProject(state, headers).id);
+      return null;
+    },
+    kind: "mutation",
+  },
+  editApiKey: {
+    handler: (state, headers, input) => {
+      const application = requireApplication(state, headers);
+      const apiKey = requireApiKey(
+        state,
+        application,
+        requireString(input, "current_api_key_name"),
+      );
+      const newName = requireString(input, "new_api_key_name");
+      assertUniqueName(
+        keysOf(state, application),
+        newName,
+        "An API key",
+        apiKey.id,
+      );
+      apiKey.name = newName;
+      if (input.frontend_args !== undefined) {
+        applyFrontendArgs(apiKey, input.frontend_args);
+      }
+      return apiKey;
+    },
+    kind: "mutation",
+  },
+  getApiKeysV2: {
+    handler: (state, headers) =>
+      keysOf(state, requireApplication(state, headers)),
+    kind: "query",
+  },
+  getOrganizationProjects: {
+    handler: (state, headers) => {
+      const organization = requireOrganization(state, headers);
+      return childrenOf(
+        state.projects,
+        (project) => project.organizationId === organization.id,
+      );
+    },
+    kind: "query",
+  },
+  getOrganizations: {
+    handler: (state) =>
+      [...state.organizations.values()].map(({ createdAt, id, name }) => ({
+        createdAt,
+        id,
+        name,
+      })),
+    kind: "query",
+  },
+  getOrganizationsRecursively: {
+    handler: (state) => toRecursiveOrgData(state),
+    kind: "query",
+  },
+  getProjectApplications: {
+    handler: (state, headers) => {
+      const project = requireProject(state, headers);
+      return childrenOf(
+        state.applications,
+        (application) => application.projectId === project.id,
+      ).map(({ trafficTier: _trafficTier, ...application }) => application);
+    },
+    kind: "query",
+  },
+  setApplicationNameV2: {
+    handler: (state, headers, input) => {
+      const application = requireApplication(state, headers);
+      const name = requireString(input, "new_application_name");
+      assertUniqueName(
+        childrenOf(
+          state.applications,
+          (app) => app.projectId === application.projectId,
+        ),
+        name,
+        "An application",
+        application.id,
+      );
+      application.name = name;
+      return application;
+    },
+    kind: "mutation",
+  },
+  updateOrganization: {
+    handler: (state, headers, input) => {
+      const organization = requireOrganization(state, headers);
+      organization.name = requireString(input, "name");
+      return organization;
+    },
+    kind: "mutation",
+  },
+  updateProject: {
+    handler: (state, headers, input) => {
+      const project = requireProject(state, headers);
+      const name = requireString(input, "project_name");
+      assertUniqueName(
+        childrenOf(
+          state.projects,
+          (sibling) => sibling.organizationId === project.organizationId,
+        ),
+        name,
+        "A project",
+        project.id,
+      );
+      project.name = name;
+      project.description = input.description ?? project.description;
+      return project;
+    },
+    kind: "mutation",
+  },
+  version: {
+    handler: () => "sandbox",
+    kind: "query",
+  },
+};
+
+const rspcResponse = (status: number, result: unknown) =>
+  Response.json({ result }, { status });
+
+const rspcError = (error: SandboxError) =>
+  rspcResponse(error.status, {
+    data: { code: error.status, message: error.message },
+    type: "error",
+  });
+
+/**
+ * Answer one rspc request: queries are GET with the input as JSON in the
+ * `input` search parameter, mutations are POST with a JSON body.
+ */
+export async function handleAdminRequest(
+  state: SandboxState,
+  request: Request,
+  key: string,
+): Promise<Response> {
+  try {
+    const procedure = PROCEDURES[key as AdminProcedure["key"]];
+    if (!procedure) {
+      throw new SandboxError(
+        404,
+        `Procedure "${key}" is not supported by the sandbox`,
+      );
+    }
+    const method = procedure.kind === "query" ? "GET" : "POST";
+    if (request.method !== method) {
+      throw new SandboxError(
+        405,
+        `${key} is a ${procedure.kind}, send it as ${method}`,
+      );
+    }
+
+    let input: unknown;
+    try {
+      const query = new URL(request.url).searchParams.get("input");
+      input =
+        procedure.kind === "query"
+          ? query && JSON.parse(query)
+          : await request.json();
+    } catch {
+      throw new SandboxError(400, "Input is not valid JSON");
+    }
+
+    const handler = procedure.handler as (
+      state: SandboxState,
+      headers: Headers,
+      input: unknown,
+    ) => unknown;
+    const data = handler(state, request.headers, input ?? {});
+    return rspcResponse(200, { data, type: "response" });
+  } catch (error) {
+    if (error instanceof SandboxError) {
+      return rspcError(error);
+    }
+    throw error;
+  }
+}
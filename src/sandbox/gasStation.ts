@@ -0,0 +1,185 @@
+import type { Network } from "../profiles.js";
+import { requireApplication } from "./adminApi.js";
+import {
+  type GasStationRule,
+  type GasStationRuleId,
+  now,
+  SandboxError,
+  type SandboxGasStation,
+  type SandboxState,
+} from "./state.js";
+
+const ADDRESS_PATTERN = /^0x[0-9a-fA-F]{1,64}$/;
+const IDENTIFIER_PATTERN = /^[A-Za-z_][A-Za-z0-9_]*$/;
+
+type RuleBody = {
+  config?: unknown;
+  id?: Partial<Record<keyof GasStationRuleId, unknown>>;
+};
+
+const readBody = async (request: Request): Promise<RuleBody> => {
+  try {
+    return (await request.json()) as RuleBody;
+  } catch {
+    throw new SandboxError(400, "Body is not valid JSON");
+  }
+};
+
+const parseRuleId = (body: RuleBody): GasStationRuleId => {
+  const { functionModule, functionName, functionPackage } = body.id ?? {};
+  if (
+    typeof functionPackage !== "string" ||
+    !ADDRESS_PATTERN.test(functionPackage)
+  ) {
+    throw new SandboxError(
+      400,
+      `Invalid function package "${functionPackage}", expected an account address`,
+    );
+  }
+  if (
+    typeof functionModule !== "string" ||
+    !IDENTIFIER_PATTERN.test(functionModule)
+  ) {
+    throw new SandboxError(400, `Invalid function module "${functionModule}"`);
+  }
+  if (
+    typeof functionName !== "string" ||
+    !IDENTIFIER_PATTERN.test(functionName)
+  ) {
+    throw new SandboxError(400, `Invalid function name "${functionName}"`);
+  }
+  return { functionModule, functionName, functionPackage };
+};
+
+const parseRuleConfig = (body: RuleBody): Record<string, unknown> => {
+  if (typeof body.config !== "object" || body.config === null) {
+    throw new SandboxError(400, 'Missing rule "config"');
+  }
+  return body.config as Record<string, unknown>;
+};
+
+const sameRule = (a: GasStationRuleId, b: GasStationRuleId) =>
+  a.functionPackage.toLowerCase() === b.functionPackage.toLowerCase() &&
+  a.functionModule === b.functionModule &&
+  a.functionName === b.functionName;
+
+const formatRuleId = (id: GasStationRuleId) =>
+  `${id.functionPackage}::${id.functionModule}::${id.functionName}`;
+
+const requireGasStation = (
+  state: SandboxState,
+  headers: Headers,
+  network: Network,
+): SandboxGasStation => {
+  const application = requireApplication(state, headers);
+  const gasStation = state.gasStations.get(application.id);
+  if (!gasStation || gasStation.network !== network) {
+    throw new SandboxError(
+      404,
+      `Application ${application.id} has no gas station on ${network}`,
+    );
+  }
+  return gasStation;
+};
+
+const findRule = (gasStation: SandboxGasStation, id: GasStationRuleId) => {
+  const index = gasStation.rules.findIndex((rule) => sameRule(rule.id, id));
+  if (index === -1) {
+    throw new SandboxError(404, `No rule for ${formatRuleId(id)}`);
+  }
+  return index;
+};
+
+/**
+ * Answer a gas station admin request for `/admin/application` and
+ * `/admin/rule` on one network.
+ */
+export async function handleGasStationRequest(
+  state: SandboxState,
+  request: Request,
+  network: Network,
+  resource: string,
+): Promise<Response> {
+  const route = `${request.method} ${resource}`;
+  try {
+    switch (route) {
+      case "POST application": {
+        const application = requireApplication(state, request.headers);
+        if (application.serviceType !== "Gs") {
+          throw new SandboxError(
+            400,
+            `Application ${application.id} is a ${application.serviceType} application, not a gas station (Gs)`,
+          );
+        }
+        if (!application.allowedNetworks.includes(network)) {
+          throw new SandboxError(
+            400,
+            `Application ${application.id} is not on ${network}`,
+          );
+        }
+        if (state.gasStations.has(application.id)) {
+          throw new SandboxError(
+            409,
+            `Application ${application.id} already has a gas station`,
+          );
+        }
+        const gasStation: SandboxGasStation = {
+          applicationId: application.id,
+          createdAt: now(),
+          network,
+          rules: [],
+        };
+        state.gasStations.set(application.id, gasStation);
+        return Response.json(gasStation);
+      }
+      case "GET rule":
+        return Response.json(
+          requireGasStation(state, request.headers, network).rules,
+        );
+      case "POST rule": {
+        const gasStation = requireGasStation(state, request.headers, network);
+        const body = await readBody(request);
+        const rule: GasStationRule = {
+          config: parseRuleConfig(body),
+          id: parseRuleId(body),
+        };
+        if (
+          gasStation.rules.some((existing) => sameRule(existing.id, rule.id))
+        ) {
+          throw new SandboxError(
+            409,
+            `A rule for ${formatRuleId(rule.id)} already exists`,
+          );
+        }
+        gasStation.rules.push(rule);
+        return Response.json(rule);
+      }
+      case "PUT rule": {
+        const gasStation = requireGasStation(state, request.headers, network);
+        const body = await readBody(request);
+        const index = findRule(gasStation, parseRuleId(body));
+        gasStation.rules[index].config = parseRuleConfig(body);
+        return Response.json(gasStation.rules[index]);
+      }
+      case "DELETE rule": {
+        const gasStation = requireGasStation(state, request.headers, network);
+        const index = findRule(
+          gasStation,
+          parseRuleId(await readBody(request)),
+        );
+        const [rule] = gasStation.rules.splice(index, 1);
+        return Response.json(rule);
+      }
+      default:
+        throw new SandboxError(
+          404,
+          `No route for ${request.method} /admin/${resource}`,
+        );
+    }
+  } catch (error) {
+    if (error instanceof SandboxError) {
+      return new Response(error.message, { status: error.status });
+    }
+    throw error;
+  }
+}
@@ -0,0 +1,272 @@
+import { describe, expect, it } from "vitest";
+
+import { localEndpoints } from "../profiles.js";
+import { fromGeomiResponse, GeomiConflictError } from "../services/errors.js";
+import { createSandbox, type Sandbox, startSandbox } from "./index.js";
+
+const BASE_URL = "http://sandbox.test";
+const { adminUrl, gasStationUrls } = localEndpoints(BASE_URL);
+
+const authHeaders = (headers: Record<string, string> = {}) => ({
+  Authorization: "Bearer test-key",
+  ...headers,
+});
+
+// The requests @rspc/client's FetchTransport sends
+const query = (
+  sandbox: Sandbox,
+  key: string,
+  headers?: Record<string, string>,
+) => sandbox.fetch(`${adminUrl}/${key}`, { headers: authHeaders(headers) });
+
+const mutation = async (
+  sandbox: Sandbox,
+  key: string,
+  input: unknown,
+  headers?: Record<string, string>,
+) =>
+  sandbox.fetch(`${adminUrl}/${key}`, {
+    body: JSON.stringify(input),
+    headers: authHeaders({ "Content-Type": "application/json", ...headers }),
+    method: "POST",
+  });
+
+const data = async (response: Response) => {
+  const { result } = await response.json();
+  expect(result.type).toBe("response");
+  return result.data;
+};
+
+const provisionGasStationApp = async (sandbox: Sandbox) => {
+  const organization = await data(
+    await mutation(sandbox, "createOrganization", { name: "Acme" }),
+  );
+  const project = await data(
+    await mutation(
+      sandbox,
+      "createProject",
+      { description: "", project_name: "dapp" },
+      { "x-jwt-organization-id": organization.id },
+    ),
+  );
+  const application = await data(
+    await mutation(
+      sandbox,
+      "createApplicationV2",
+      {
+        description: null,
+        name: "sponsor",
+        network: "testnet",
+        service_type: "Gs",
+      },
+      {
+        "x-jwt-organization-id": organization.id,
+        "x-jwt-project-id": project.id,
+      },
+    ),
+  );
+  return {
+    "x-jwt-application-id": application.id,
+    "x-jwt-organization-id": organization.id,
+    "x-jwt-project-id": project.id,
+  };
+};
+
+describe("sandbox admin API", () => {
+  it("provisions organizations, projects, applications and API keys", async () => {
+    const sandbox = createSandbox();
+    const scope = await provisionGasStationApp(sandbox);
+
+    const apiKey = await data(
+      await mutation(
+        sandbox,
+        "createApiKeyV2",
+        {
+          frontend_args: {
+            extension_ids: [],
+            http_rate_limit_per_ip: 100,
+            web_app_urls: ["http://localhost:5173"],
+          },
+          name: "web",
+        },
+        scope,
+      ),
+    );
+    expect(apiKey).toMatchObject({
+      applicationId: scope["x-jwt-application-id"],
+      httpRateLimitPerIp: 100,
+      name: "web",
+      webAppUrls: ["http://localhost:5173"],
+    });
+    expect(apiKey.keySecret).toMatch(/^aptoslabs_/);
+
+    const [org] = await data(
+      await query(sandbox, "getOrganizationsRecursively"),
+    );
+    expect(org.Organization.name).toBe("Acme");
+    expect(org.Organization.Project[0].Application[0]).toMatchObject({
+      allowedNetworks: ["testnet"],
+      apiKeys: [{ keySecret: apiKey.keySecret, name: "web" }],
+      name: "sponsor",
+      serviceType: "Gs",
+    });
+  });
+
+  it("answers with rspc errors the Geomi client understands", async () => {
+    const sandbox = createSandbox();
+    const scope = await provisionGasStationApp(sandbox);
+
+    const duplicate = await mutation(
+      sandbox,
+      "createApplicationV2",
+      {
+        description: null,
+        name: "sponsor",
+        network: "testnet",
+        service_type: "Api",
+      },
+      scope,
+    );
+    expect(duplicate.status).toBe(409);
+    expect(await duplicate.json()).toEqual({
+      result: {
+        data: {
+          code: 409,
+          message: 'An application named "sponsor" already exists',
+        },
+        type: "error",
+      },
+    });
+
+    const unknown = await mutation(
+      sandbox,
+      "createProject",
+      { description: "", project_name: "x" },
+      { "x-jwt-organization-id": "missing" },
+    );
+    expect(unknown.status).toBe(404);
+
+    const unauthorized = await sandbox.fetch(
+      `${adminUrl}/getOrganizationsRecursively`,
+    );
+    expect(unauthorized.status).toBe(401);
+  });
+
+  it("renames and deletes with cascades", async () => {
+    const sandbox = createSandbox();
+    const scope = await provisionGasStationApp(sandbox);
+    await mutation(
+      sandbox,
+      "createApiKeyV2",
+      { frontend_args: null, name: "old" },
+      scope,
+    );
+
+    const renamed = await data(
+      await mutation(
+        sandbox,
+        "editApiKey",
+        {
+          current_api_key_name: "old",
+          frontend_args: null,
+          new_api_key_name: "new",
+        },
+        scope,
+      ),
+    );
+    expect(renamed.name).toBe("new");
+
+    await data(await mutation(sandbox, "deleteProject", { _dummy: "" }, scope));
+    expect(sandbox.state.projects.size).toBe(0);
+    expect(sandbox.state.applications.size).toBe(0);
+    expect(sandbox.state.apiKeys.size).toBe(0);
+  });
+});
+
+describe("sandbox gas station API", () => {
+  const rule = {
+    config: { gasUnitPriceMax: "350" },
+    id: {
+      functionModule: "counter",
+      functionName: "increment",
+      functionPackage: "0x1",
+    },
+  };
+
+  it("creates a gas station and manages its rules", async () => {
+    const sandbox = createSandbox();
+    const scope = await provisionGasStationApp(sandbox);
+    const gasStationUrl = gasStationUrls.testnet;
+    const send = (method: string, path: string, body?: unknown) =>
+      sandbox.fetch(`${gasStationUrl}/admin/${path}`, {
+        body: body === undefined ? undefined : JSON.stringify(body),
+        headers: authHeaders(scope),
+        method,
+      });
+
+    expect((await send("POST", "application", {})).status).toBe(200);
+    expect((await send("POST", "rule", rule)).status).toBe(200);
+    expect(
+      await send("PUT", "rule", { ...rule, config: { skipSimulation: true } }),
+    ).toHaveProperty("status", 200);
+    expect(await (await send("GET", "rule")).json()).toEqual([
+      { ...rule, config: { skipSimulation: true } },
+    ]);
+
+    const conflict = await send("POST", "rule", rule);
+    expect(await fromGeomiResponse(conflict, "create rule")).toBeInstanceOf(
+      GeomiConflictError,
+    );
+
+    expect((await send("DELETE", "rule", { id: rule.id })).status).toBe(200);
+    expect(await (await send("GET", "rule")).json()).toEqual([]);
+  });
+
+  it("rejects gas stations on other networks and invalid rules", async () => {
+    const sandbox = createSandbox();
+    const scope = await provisionGasStationApp(sandbox);
+    const post = (
+      network: "mainnet" | "testnet",
+      path: string,
+      body: unknown,
+    ) =>
+      sandbox.fetch(`${gasStationUrls[network]}/admin/${path}`, {
+        body: JSON.stringify(body),
+        headers: authHeaders(scope),
+        method: "POST",
+      });
+
+    expect((await post("mainnet", "application", {})).status).toBe(400);
+    await post("testnet", "application", {});
+    const invalid = await post("testnet", "rule", {
+      ...rule,
+      id: { ...rule.id, functionPackage: "counter" },
+    });
+    expect(invalid.status).toBe(400);
+    expect(await invalid.text()).toContain("Invalid function package");
+  });
+});
+
+describe("startSandbox", () => {
+  it("serves the sandbox over HTTP", async () => {
+    const sandbox = await startSandbox({ botKey: "test-key" });
+    try {
+      const endpoints = localEndpoints(sandbox.url);
+      const response = await fetch(`${endpoints.adminUrl}/createOrganization`, {
+        body: JSON.stringify({ name: "Acme" }),
+        headers: authHeaders({ "Content-Type": "application/json" }),
+        method: "POST",
+      });
+
+      expect(await data(response)).toMatchObject({ name: "Acme" });
+      expect(sandbox.state.organizations.size).toBe(1);
+
+      const wrongKey = await fetch(`${endpoints.adminUrl}/version`, {
+        headers: { Authorization: "Bearer other" },
+      });
+      expect(wrongKey.status).toBe(401);
+    } finally {
+      await sandbox.close();
+    }
+  });
+});
@@ -0,0 +1,136 @@
+import { createServer } from "node:http";
+import type { AddressInfo } from "node:net";
+
+import { NETWORKS, type Network } from "../profiles.js";
+import { handleAdminRequest } from "./adminApi.js";
+import { handleGasStationRequest } from "./gasStation.js";
+import { createSandboxState, type SandboxState } from "./state.js";
+
+export type { SandboxState } from "./state.js";
+
+// Same layout as the `local` profile: /api/rspc and /<network>/gs/v1
+const ADMIN_ROUTE = /\/api\/rspc\/(\w+)$/;
+const GAS_STATION_ROUTE = new RegExp(
+  `/(${NETWORKS.join("|")})/gs/v1/admin/(\\w+)$`,
+);
+
+export type SandboxOptions = {
+  // Only accept this bot key. By default any bearer token is accepted.
+  botKey?: string;
+};
+
+export type Sandbox = {
+  // Drop-in replacement for the global fetch, e.g. for vi.stubGlobal
+  fetch: (
+    input: Request | string | URL,
+    init?: RequestInit,
+  ) => Promise<Response>;
+  state: SandboxState;
+};
+
+const isAuthorized = (headers: Headers, botKey?: string) => {
+  const token = headers.get("authorization")?.match(/^Bearer (.+)$/)?.[1];
+  if (!token || token === "undefined") {
+    return false;
+  }
+  return botKey === undefined || token === botKey;
+};
+
+/**
+ * An in-memory fake of the Geomi admin API and the gas station admin API.
+ * Nothing leaves the process, so agents and tests can provision freely.
+ */
+export function createSandbox({ botKey }: SandboxOptions = {}): Sandbox {
+  const state = createSandboxState();
+
+  const fetch = async (
+    input: Request | string | URL,
+    init?: RequestInit,
+  ): Promise<Response> => {
+    const request = new Request(input, init);
+    const { pathname } = new URL(request.url);
+    const admin = pathname.match(ADMIN_ROUTE);
+    const gasStation = pathname.match(GAS_STATION_ROUTE);
+    const authorized = isAuthorized(request.headers, botKey);
+
+    if (admin) {
+      return authorized
+        ? handleAdminRequest(state, request, admin[1])
+        : Response.json(
+            {
+              result: {
+                data: { code: 401, message: "Invalid bot key" },
+                type: "error",
+              },
+            },
+            { status: 401 },
+          );
+    }
+    if (gasStation) {
+      return authorized
+        ? handleGasStationRequest(
+            state,
+            request,
+            gasStation[1] as Network,
+            gasStation[2],
+          )
+        : new Response("Invalid bot key", { status: 401 });
+    }
+    return new Response(`Not found: ${pathname}`, { status: 404 });
+  };
+
+  return { fetch, state };
+}
+
+/**
+ * Serve a sandbox over HTTP on 127.0.0.1. Port 0 picks a free port.
+ * @returns the base URL to pass to `localEndpoints`
+ */
+export async function startSandbox({
+  port = 0,
+  ...options
+}: SandboxOptions & { port?: number } = {}): Promise<
+  Sandbox & { close: () => Promise<void>; url: string }
+> {
+  const sandbox = createSandbox(options);
+  let url = "";
+
+  const server = createServer(async (req, res) => {
+    try {
+      const chunks: Buffer[] = [];
+      for await (const chunk of req) {
+        chunks.push(chunk);
+      }
+      const method = req.method ?? "GET";
+      const response = await sandbox.fetch(new URL(req.url ?? "/", url), {
+        body: ["GET", "HEAD"].includes(method)
+          ? undefined
+          : Buffer.concat(chunks),
+        headers: Object.entries(req.headers).flatMap(([name, value]) =>
+          typeof value === "string" ? [[name, value]] : [],
+        ),
+        method,
+      });
+      res.writeHead(response.status, Object.fromEntries(response.headers));
+      res.end(Buffer.from(await response.arrayBuffer()));
+    } catch (error) {
+      res.writeHead(500, { "content-type": "text/plain" });
+      res.end(error instanceof Error ? error.message : String(error));
+    }
+  });
+
+  await new Promise<void>((resolve, reject) => {
+    server.once("error", reject);
+    server.listen(port, "127.0.0.1", resolve);
+  });
+  url = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+
+  return {
+    ...sandbox,
+    close: () =>
+      new Promise((resolve, reject) =>
+        server.close((error) => (error ? reject(error) : resolve())),
+      ),
+    url,
+  };
+}
@@ -0,0 +1,144 @@
+import { randomBytes, randomUUID } from "node:crypto";
+
+import type {
+  ApiKey,
+  Application,
+  Organization,
+  Project,
+  RecursiveOrgData,
+} from "@aptos-labs/api-gateway-admin-api-client";
+
+import type { Network } from "../profiles.js";
+
+export type GasStationRuleId = {
+  functionModule: string;
+  functionName: string;
+  functionPackage: string;
+};
+
+export type GasStationRule = {
+  config: Record<string, unknown>;
+  id: GasStationRuleId;
+};
+
+export type SandboxGasStation = {
+  applicationId: string;
+  createdAt: string;
+  network: Network;
+  rules: GasStationRule[];
+};
+
+/**
+ * Everything the sandbox knows about, keyed by id. Entities point to their
+ * parent like the admin API does (`organizationId`, `projectId`,
+ * `applicationId`), and gas stations are keyed by their application id.
+ */
+export type SandboxState = {
+  apiKeys: Map<string, ApiKey>;
+  applications: Map<string, Application>;
+  gasStations: Map<string, SandboxGasStation>;
+  organizations: Map<string, Organization>;
+  projects: Map<string, Project>;
+};
+
+/**
+ * An error the sandbox answers with, using the HTTP status the real APIs use.
+ */
+export class SandboxError extends Error {
+  constructor(
+    readonly status: number,
+    message: string,
+  ) {
+    super(message);
+    this.name = "SandboxError";
+  }
+}
+
+export const createSandboxState = (): SandboxState => ({
+  apiKeys: new Map(),
+  applications: new Map(),
+  gasStations: new Map(),
+  organizations: new Map(),
+  projects: new Map(),
+});
+
+export const newId = () => randomUUID();
+
+export const now = () => new Date().toISOString();
+
+// Shaped like real keys, e.g. aptoslabs_Abc123_XyZ...
+export const newKeySecret = () =>
+  `aptoslabs_${randomBytes(8).toString("base64url")}_${randomBytes(24).toString("base64url")}`;
+
+export const childrenOf = <T>(
+  entities: Map<string, T>,
+  matches: (entity: T) => boolean,
+): T[] => [...entities.values()].filter(matches);
+
+/**
+ * Delete an application with its API keys and gas station.
+ */
+export function deleteApplicationCascade(
+  state: SandboxState,
+  applicationId: string,
+) {
+  for (const apiKey of childrenOf(
+    state.apiKeys,
+    (key) => key.applicationId === applicationId,
+  )) {
+    state.apiKeys.delete(apiKey.id);
+  }
+  state.gasStations.delete(applicationId);
+  state.applications.delete(applicationId);
+}
+
+/**
+ * Delete a project with everything below it.
+ */
+export function deleteProjectCascade(state: SandboxState, projectId: string) {
+  for (const application of childrenOf(
+    state.applications,
+    (app) => app.projectId === projectId,
+  )) {
+    deleteApplicationCascade(state, application.id);
+  }
+  state.projects.delete(projectId);
+}
+
+/**
+ * The nested view returned by getOrganizationsRecursively.
+ */
+export const toRecursiveOrgData = (state: SandboxState): RecursiveOrgData[] =>
+  [...state.organizations.values()].map((organization) => ({
+    Organization: {
+      id: organization.id,
+      name: organization.name,
+      Project: childrenOf(
+        state.projects,
+        (project) => project.organizationId === organization.id,
+      ).map((project) => ({
+        id: project.id,
+        name: project.name,
+        Application: childrenOf(
+          state.applications,
+          (application) => application.projectId === project.id,
+        ).map((application) => ({
+          id: application.id,
+          name: application.name,
+          allowedNetworks: application.allowedNetworks,
+          apiKeys: childrenOf(
+            state.apiKeys,
+            (apiKey) => apiKey.applicationId === application.id,
+          ).map((apiKey) => ({
+            name: apiKey.name,
+            keySecret: apiKey.keySecret,
+            httpRateLimitPerIp: apiKey.httpRateLimitPerIp,
+            createdAt: apiKey.createdAt,
+          })),
+          createdAt: application.createdAt,
+          serviceType: application.serviceType,
+        })),
+      })),
+    },
+    role: "owner",
+  }));
@@ -0,0 +1,51 @@
+import { mkdtempSync, rmSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+
+import { config } from "../config.js";
+import { localEndpoints } from "../profiles.js";
+import { createSandbox, type Sandbox, type SandboxOptions } from "./index.js";
+
+// The base URL the clients use while a test sandbox is installed
+export const TEST_SANDBOX_URL = "http://sandbox.test";
+
+export type TestSandbox = Sandbox & {
+  // Put back the config and the global fetch as they were
+  restore: () => void;
+};
+
+/**
+ * Point the Geomi and gas station clients at a fresh sandbox, with its own
+ * bot key and run journal directory. Call it in beforeEach and `restore` in
+ * afterEach. `wrapFetch` lets a test watch or fail requests before they
+ * reach the sandbox.
+ */
+export function installTestSandbox({
+  botKey = "bot-key",
+  wrapFetch = (fetch) => fetch,
+}: SandboxOptions & {
+  wrapFetch?: (fetch: Sandbox["fetch"]) => Sandbox["fetch"];
+} = {}): TestSandbox {
+  const sandbox = createSandbox({ botKey });
+  const saved = {
+    botKey: config.geomi.botKey,
+    fetch: globalThis.fetch,
+    journalDir: config.journal.dir,
+    profile: { ...config.profile },
+  };
+  config.geomi.botKey = botKey;
+  config.journal.dir = mkdtempSync(join(tmpdir(), "aptos-mcp-journal-"));
+  Object.assign(config.profile, localEndpoints(TEST_SANDBOX_URL));
+  globalThis.fetch = wrapFetch(sandbox.fetch) as typeof fetch;
+
+  return {
+    ...sandbox,
+    restore: () => {
+      rmSync(config.journal.dir, { force: true, recursive: true });
+      config.geomi.botKey = saved.botKey;
+      config.journal.dir = saved.journalDir;
+      Object.assign(config.profile, saved.profile);
+      globalThis.fetch = saved.fetch;
+    },
+  };
+}
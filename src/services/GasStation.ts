@@ -1,25 +1,161 @@
 import type { Context } from "fastmcp";
 import { config } from "../config.js";
+import type { Network } from "../profiles.js";
+import {
+  fromGeomiResponse,
+  GeomiAuthError,
+  GeomiNotFoundError,
+  GeomiValidationError,
+  toGeomiError,
+} from "./errors.js";
+import { fetchWithFixtures } from "./fixtures.js";
+import { mapConcurrently } from "./http.js";
+
+/**
+ * The gas station API of the active profile for a network.
+ */
+export function getGasStationEndpoint(network: Network): string {
+  const endpoint = config.profile.gasStationUrls[network];
+  if (!endpoint) {
+    throw new GeomiValidationError(
+      `The ${config.profile.name} profile has no gas station for ${network}. Available networks: ${Object.keys(config.profile.gasStationUrls).join(", ")}`,
+    );
+  }
+  return endpoint;
+}
+
+export type GasStationRuleId = {
+  functionPackage: string;
+  functionModule: string;
+  functionName: string;
+};
+
+// What a rule sponsors for its function. Octas and gas units are u64 strings.
+export type GasStationRuleConfig = {
+  gasUnitPriceMax: string;
+  gasUnitPriceMin: string;
+  maxGasAmountMax: string;
+  maxGasAmountMin: string;
+  skipSimulation: boolean;
+  txExpiryDurationSecs: number;
+  windowDurationSecs: number | null;
+  windowGasLimit: number | null;
+};
+
+export type GasStationRule = {
+  id: GasStationRuleId;
+  config: GasStationRuleConfig;
+};
+
+export const DEFAULT_GAS_STATION_RULE_CONFIG: GasStationRuleConfig = {
+  gasUnitPriceMax: "350",
+  gasUnitPriceMin: "100",
+  maxGasAmountMax: "250000",
+  maxGasAmountMin: "3",
+  skipSimulation: false,
+  txExpiryDurationSecs: 120,
+  windowDurationSecs: null,
+  windowGasLimit: null,
+};
+
+/**
+ * The id of the rule for one `address::module::function`.
+ */
+export function toGasStationRuleId(contractFunction: string): GasStationRuleId {
+  const [moduleAddress, moduleName, functionName] =
+    contractFunction.split("::");
+  if (!moduleAddress || !moduleName || !functionName) {
+    throw new GeomiValidationError(
+      `Invalid contract function: ${contractFunction}`,
+    );
+  }
+  return {
+    functionPackage: moduleAddress,
+    functionModule: moduleName,
+    functionName: functionName,
+  };
+}
+
+/**
+ * The `address::module::function` a rule sponsors.
+ */
+export const formatGasStationRuleId = (id: GasStationRuleId) =>
+  `${id.functionPackage}::${id.functionModule}::${id.functionName}`;
+
+/**
+ * Whether two ids are of the same rule. Addresses are compared ignoring case.
+ */
+export const isSameGasStationRule = (
+  a: GasStationRuleId,
+  b: GasStationRuleId,
+) =>
+  a.functionPackage.toLowerCase() === b.functionPackage.toLowerCase() &&
+  a.functionModule === b.functionModule &&
+  a.functionName === b.functionName;
+
+/**
+ * The /admin/rule body that sponsors one `address::module::function`.
+ */
+export function toGasStationRule(
+  contractFunction: string,
+  config: GasStationRuleConfig = DEFAULT_GAS_STATION_RULE_CONFIG,
+): GasStationRule {
+  return {
+    id: toGasStationRuleId(contractFunction),
+    config,
+  };
+}
+
+export type GasStationRuleResult =
+  | { function: string; rule: GasStationRule; status: "created" }
+  | {
+      error: string;
+      function: string;
+      httpStatus?: number;
+      status: "failed";
+    };
+
+/**
+ * The rules of `rules` that a gas station already has, as created results in
+ * the order of `rules`.
+ */
+export const findCreatedRules = (
+  existing: GasStationRule[],
+  rules: GasStationRule[],
+): GasStationRuleResult[] =>
+  rules.flatMap((rule) => {
+    const found = existing.find((candidate) =>
+      isSameGasStationRule(candidate.id, rule.id),
+    );
+    return found
+      ? [
+          {
+            function: formatGasStationRuleId(rule.id),
+            rule: found,
+            status: "created" as const,
+          },
+        ]
+      : [];
+  });
+
+// Rule requests sent to the gas station at the same time
+const MAX_CONCURRENT_RULE_REQUESTS = 4;
+
+type GasStationApplicationIds = {
+  organization_id: string;
+  project_id: string;
+  application_id: string;
+};
 
 export class GasStation {
   protected readonly headers: Record<string, string>;
   private readonly gasStationEndpoint: string;
 
-  constructor(_context: Context<any>, network: "testnet" | "mainnet") {
+  constructor(_context: Context<any>, network: Network) {
     if (!config.geomi.botKey) {
-      throw new Error(
-        `APTOS_BOT_KEY is not set. To generate a Bot Key: 
-        1. Go to [https://geomi.dev/](https://geomi.dev/)
-        2. Click on your name in the bottom left corner
-        3. Click on "Bot Keys"
-        4. Click on the "Create Bot Key" button
-        5. Copy the Bot Key and paste it into the MCP configuration file as an env arg: APTOS_BOT_KEY=<your-bot-key>`,
-      );
+      throw new GeomiAuthError("APTOS_BOT_KEY is not set.");
     }
-    this.gasStationEndpoint =
-      network === "testnet"
-        ? config.gas_station.testnetUrl
-        : config.gas_station.mainnetUrl;
+    this.gasStationEndpoint = getGasStationEndpoint(network);
     this.headers = {
       Authorization: `Bearer ${config.geomi.botKey}`,
       "x-is-aptos-bot": "true",
@@ -43,7 +179,7 @@ export class GasStation {
         "x-jwt-application-id": application_id,
       };
 
-      const gasStationResponse = await fetch(
+      const gasStationResponse = await fetchWithFixtures(
         `${this.gasStationEndpoint}/admin/application`,
         {
           method: "POST",
@@ -53,82 +189,185 @@ export class GasStation {
       );
 
       if (!gasStationResponse.ok) {
-        const errorText = await gasStationResponse.text();
-        throw new Error(
-          `Gas station API failed with status ${gasStationResponse.status}: ${errorText}`,
-        );
+        throw await fromGeomiResponse(gasStationResponse, "create gas station");
       }
 
       const gasStation = await gasStationResponse.json();
       return gasStation;
     } catch (error) {
-      throw new Error(`Failed to create gas station: ${JSON.stringify(error)}`);
+      throw toGeomiError(error, "create gas station");
     }
   }
 
+  /**
+   * Whether the application has a gas station. There is no request to read a
+   * gas station, so this reads its rules, which fails when there is none.
+   */
+  async hasGasStation(ids: GasStationApplicationIds): Promise<boolean> {
+    try {
+      await this.getGasStationRules(ids);
+      return true;
+    } catch (error) {
+      if (error instanceof GeomiNotFoundError) {
+        return false;
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Create a rule for each function. Every rule is checked on its own, so one
+   * rejected rule does not hide the others that were created. Rules found in
+   * `existing`, e.g. created before a run was interrupted, are not sent
+   * again and count as created.
+   * @returns the result of each rule, in the order of `rules`
+   */
   async createGasStationRules({
     organization_id,
     project_id,
     application_id,
-    functions,
+    rules,
+    existing = [],
   }: {
     organization_id: string;
     project_id: string;
     application_id: string;
-    functions: string[];
-  }) {
+    rules: GasStationRule[];
+    existing?: GasStationRule[];
+  }): Promise<GasStationRuleResult[]> {
+    const appHeaders = {
+      "x-jwt-organization-id": organization_id,
+      "x-jwt-project-id": project_id,
+      "x-jwt-application-id": application_id,
+    };
+
+    return mapConcurrently(
+      rules,
+      MAX_CONCURRENT_RULE_REQUESTS,
+      async (rule): Promise<GasStationRuleResult> => {
+        const [found] = findCreatedRules(existing, [rule]);
+        if (found) {
+          return found;
+        }
+        const contractFunction = formatGasStationRuleId(rule.id);
+        try {
+          const response = await fetchWithFixtures(
+            `${this.gasStationEndpoint}/admin/rule`,
+            {
+              method: "POST",
+              headers: this.createGasStationClientHeaders(appHeaders),
+              body: JSON.stringify(rule),
+            },
+          );
+          if (!response.ok) {
+            throw await fromGeomiResponse(
+              response,
+              `create gas station rule for ${contractFunction}`,
+            );
+          }
+          return {
+            function: contractFunction,
+            rule: (await response.json()) as GasStationRule,
+            status: "created",
+          };
+        } catch (error) {
+          const geomiError = toGeomiError(
+            error,
+            `create gas station rule for ${contractFunction}`,
+          );
+          return {
+            error: geomiError.message,
+            function: contractFunction,
+            httpStatus: geomiError.status,
+            status: "failed",
+          };
+        }
+      },
+    );
+  }
+
+  async getGasStationRules(
+    ids: GasStationApplicationIds,
+  ): Promise<GasStationRule[]> {
+    return (
+      (await this.requestRules<GasStationRule[]>(
+        "GET",
+        ids,
+        "get gas station rules",
+      )) ?? []
+    );
+  }
+
+  async updateGasStationRule({
+    rule,
+    ...ids
+  }: GasStationApplicationIds & {
+    rule: GasStationRule;
+  }): Promise<GasStationRule> {
+    // Without a body, the rule is as it was sent
+    return (
+      (await this.requestRules<GasStationRule>(
+        "PUT",
+        ids,
+        "update gas station rule",
+        rule,
+      )) ?? rule
+    );
+  }
+
+  async deleteGasStationRule({
+    id,
+    ...ids
+  }: GasStationApplicationIds & {
+    id: GasStationRuleId;
+  }): Promise<GasStationRule | Pick<GasStationRule, "id">> {
+    return (
+      (await this.requestRules<GasStationRule>(
+        "DELETE",
+        ids,
+        "delete gas station rule",
+        {
+          id,
+        },
+      )) ?? { id }
+    );
+  }
+
+  /**
+   * Send a request to /admin/rule for an application and turn a failed
+   * response into a typed GeomiError.
+   * @returns undefined when the response has no body, e.g. a 204
+   */
+  protected async requestRules<T>(
+    method: "DELETE" | "GET" | "PUT",
+    { organization_id, project_id, application_id }: GasStationApplicationIds,
+    operation: string,
+    body?: unknown,
+  ): Promise<T | undefined> {
     try {
-      // Create the gas station
       const appHeaders = {
         "x-jwt-organization-id": organization_id,
         "x-jwt-project-id": project_id,
         "x-jwt-application-id": application_id,
       };
-      // Create the gas station rules
-      const gasStationRulesResponse = await Promise.all(
-        functions.map(async (contractFunction) => {
-          const [moduleAddress, moduleName, functionName] =
-            contractFunction.split("::");
-          if (!moduleAddress || !moduleName || !functionName) {
-            throw new Error(`Invalid contract function: ${contractFunction}`);
-          }
 
-          return fetch(`${this.gasStationEndpoint}/admin/rule`, {
-            method: "POST",
-            headers: this.createGasStationClientHeaders(appHeaders),
-            body: JSON.stringify({
-              id: {
-                functionPackage: moduleAddress,
-                functionModule: moduleName,
-                functionName: functionName,
-              },
-              // TODO: support costum user values
-              config: {
-                gasUnitPriceMax: "350",
-                gasUnitPriceMin: "100",
-                maxGasAmountMax: "250_000",
-                maxGasAmountMin: "3",
-                skipSimulation: false,
-                txExpiryDurationSecs: 120,
-                windowDurationSecs: null,
-                windowGasLimit: null,
-              },
-            }),
-          });
-        }),
+      const response = await fetchWithFixtures(
+        `${this.gasStationEndpoint}/admin/rule`,
+        {
+          method,
+          headers: this.createGasStationClientHeaders(appHeaders),
+          body: body === undefined ? undefined : JSON.stringify(body),
+        },
       );
 
-      const gasStationRules = await Promise.all(
-        gasStationRulesResponse.map(async (rule) => {
-          return await rule.json();
-        }),
-      );
+      if (!response.ok) {
+        throw await fromGeomiResponse(response, operation);
+      }
 
-      return gasStationRules;
+      const text = await response.text();
+      return text.trim() ? (JSON.parse(text) as T) : undefined;
     } catch (error) {
-      throw new Error(
-        `Failed to create gas station rules: ${JSON.stringify(error)}`,
-      );
+      throw toGeomiError(error, operation);
     }
   }
 
@@ -10,6 +10,10 @@ import {
 } from "@aptos-labs/api-gateway-admin-api-client";
 import type { Context } from "fastmcp";
 import { config } from "../config.js";
+import { GeomiAuthError, toGeomiError } from "./errors.js";
+import { fetchWithFixtures } from "./fixtures.js";
+
+type AdminApiClient = ReturnType<typeof createAdminApiClient>;
 
 export class Geomi {
   protected readonly headers: Record<string, string>;
@@ -17,16 +21,9 @@ export class Geomi {
 
   constructor(_context: Context<any>) {
     if (!config.geomi.botKey) {
-      throw new Error(
-        `APTOS_BOT_KEY is not set. To generate a Bot Key: 
-        1. Go to [https://geomi.dev/](https://geomi.dev/)
-        2. Click on your name in the bottom left corner
-        3. Click on "Bot Keys"
-        4. Click on the "Create Bot Key" button
-        5. Copy the Bot Key and paste it into the MCP configuration file as an env arg: APTOS_BOT_KEY=<your-bot-key>`,
-      );
+      throw new GeomiAuthError("APTOS_BOT_KEY is not set.");
     }
-    this.adminUrl = config.geomi.adminUrl;
+    this.adminUrl = config.profile.adminUrl;
     this.headers = {
       Authorization: `Bearer ${config.geomi.botKey}`,
       "x-is-aptos-bot": "true",
@@ -50,23 +47,24 @@ export class Geomi {
     organization_id: string;
     project_id: string;
   }): Promise<ApiKey> {
-    try {
-      const adminApiClient = this.createApiClient({
+    return this.request(
+      "create api key",
+      {
         "x-jwt-application-id": application_id,
         "x-jwt-organization-id": organization_id,
         "x-jwt-project-id": project_id,
-      });
-      const apiKey = await adminApiClient.mutation([
-        "createApiKeyV2",
-        {
-          frontend_args,
-          name,
-        },
-      ]);
-      return apiKey;
-    } catch (error) {
-      throw new Error(`Failed to create api key: ${JSON.stringify(error)}`);
-    }
+      },
+      async (adminApiClient) => {
+        const apiKey = await adminApiClient.mutation([
+          "createApiKeyV2",
+          {
+            frontend_args,
+            name,
+          },
+        ]);
+        return apiKey;
+      },
+    );
   }
 
   /**
@@ -83,19 +81,20 @@ export class Geomi {
     organization_id: string;
     project_id: string;
   }): Promise<Application> {
-    try {
-      const adminApiClient = this.createApiClient({
+    return this.request(
+      "create application",
+      {
         "x-jwt-organization-id": organization_id,
         "x-jwt-project-id": project_id,
-      });
-      const application = await adminApiClient.mutation([
-        "createApplicationV2",
-        args,
-      ]);
-      return application;
-    } catch (error) {
-      throw new Error(`Failed to create application: ${JSON.stringify(error)}`);
-    }
+      },
+      async (adminApiClient) => {
+        const application = await adminApiClient.mutation([
+          "createApplicationV2",
+          args,
+        ]);
+        return application;
+      },
+    );
   }
 
   /**
@@ -103,18 +102,13 @@ export class Geomi {
    * @returns Organization
    */
   async createOrganization({ name }: { name: string }): Promise<Organization> {
-    try {
-      const adminApiClient = this.createApiClient();
+    return this.request("create organization", {}, async (adminApiClient) => {
       const organization = await adminApiClient.mutation([
         "createOrganization",
         { name },
       ]);
       return organization;
-    } catch (error) {
-      throw new Error(
-        `Failed to create organization: ${JSON.stringify(error)}`,
-      );
-    }
+    });
   }
 
   /**
@@ -130,21 +124,22 @@ export class Geomi {
     organization_id: string;
     project_name: string;
   }): Promise<Project> {
-    try {
-      const adminApiClient = this.createApiClient({
+    return this.request(
+      "create project",
+      {
         "x-jwt-organization-id": organization_id,
-      });
-      const project = await adminApiClient.mutation([
-        "createProject",
-        {
-          description,
-          project_name,
-        },
-      ]);
-      return project;
-    } catch (error) {
-      throw new Error(`Failed to create project: ${JSON.stringify(error)}`);
-    }
+      },
+      async (adminApiClient) => {
+        const project = await adminApiClient.mutation([
+          "createProject",
+          {
+            description,
+            project_name,
+          },
+        ]);
+        return project;
+      },
+    );
   }
 
   /**
@@ -152,15 +147,12 @@ export class Geomi {
    * @returns RecursiveOrgData[]
    */
   async getApplications(): Promise<RecursiveOrgData[]> {
-    try {
-      const adminApiClient = this.createApiClient();
+    return this.request("get organizations", {}, async (adminApiClient) => {
       const organizations = await adminApiClient.query([
         "getOrganizationsRecursively",
       ]);
       return organizations;
-    } catch (error) {
-      throw new Error(`Failed to get organizations: ${JSON.stringify(error)}`);
-    }
+    });
   }
 
   async updateApiKey({
@@ -178,24 +170,25 @@ export class Geomi {
     organization_id: string;
     project_id: string;
   }): Promise<ApiKey> {
-    try {
-      const adminApiClient = this.createApiClient({
+    return this.request(
+      "update api key",
+      {
         "x-jwt-application-id": application_id,
         "x-jwt-organization-id": organization_id,
         "x-jwt-project-id": project_id,
-      });
-      const apiKey = await adminApiClient.mutation([
-        "editApiKey",
-        {
-          current_api_key_name: current_api_key_name,
-          frontend_args: frontend_args,
-          new_api_key_name: new_api_key_name,
-        },
-      ]);
-      return apiKey;
-    } catch (error) {
-      throw new Error(`Failed to update api key: ${JSON.stringify(error)}`);
-    }
+      },
+      async (adminApiClient) => {
+        const apiKey = await adminApiClient.mutation([
+          "editApiKey",
+          {
+            current_api_key_name: current_api_key_name,
+            frontend_args: frontend_args,
+            new_api_key_name: new_api_key_name,
+          },
+        ]);
+        return apiKey;
+      },
+    );
   }
 
   async deleteApiKey({
@@ -209,22 +202,23 @@ export class Geomi {
     organization_id: string;
     project_id: string;
   }): Promise<ApiKey> {
-    try {
-      const adminApiClient = this.createApiClient({
+    return this.request(
+      "delete api key",
+      {
         "x-jwt-application-id": application_id,
         "x-jwt-organization-id": organization_id,
         "x-jwt-project-id": project_id,
-      });
-      const apiKey = await adminApiClient.mutation([
-        "deleteApiKeyV2",
-        {
-          name: api_key_name,
-        },
-      ]);
-      return apiKey;
-    } catch (error) {
-      throw new Error(`Failed to delete api key: ${JSON.stringify(error)}`);
-    }
+      },
+      async (adminApiClient) => {
+        const apiKey = await adminApiClient.mutation([
+          "deleteApiKeyV2",
+          {
+            name: api_key_name,
+          },
+        ]);
+        return apiKey;
+      },
+    );
   }
 
   async deleteApplication({
@@ -236,22 +230,23 @@ export class Geomi {
     project_id: string;
     application_id: string;
   }): Promise<Application> {
-    try {
-      const adminApiClient = this.createApiClient({
+    return this.request(
+      "delete application",
+      {
         "x-jwt-organization-id": organization_id,
         "x-jwt-project-id": project_id,
         "x-jwt-application-id": application_id,
-      });
-      const application = await adminApiClient.mutation([
-        "deleteApplicationV2",
-        {
-          _dummy: "",
-        },
-      ]);
-      return application;
-    } catch (error) {
-      throw new Error(`Failed to delete application: ${JSON.stringify(error)}`);
-    }
+      },
+      async (adminApiClient) => {
+        const application = await adminApiClient.mutation([
+          "deleteApplicationV2",
+          {
+            _dummy: "",
+          },
+        ]);
+        return application;
+      },
+    );
   }
 
   async updateProject({
@@ -265,22 +260,23 @@ export class Geomi {
     project_id: string;
     project_name: string;
   }): Promise<Project> {
-    try {
-      const adminApiClient = this.createApiClient({
+    return this.request(
+      "update project",
+      {
         "x-jwt-organization-id": organization_id,
         "x-jwt-project-id": project_id,
-      });
-      const project = await adminApiClient.mutation([
-        "updateProject",
-        {
-          description,
-          project_name,
-        },
-      ]);
-      return project;
-    } catch (error) {
-      throw new Error(`Failed to update project: ${JSON.stringify(error)}`);
-    }
+      },
+      async (adminApiClient) => {
+        const project = await adminApiClient.mutation([
+          "updateProject",
+          {
+            description,
+            project_name,
+          },
+        ]);
+        return project;
+      },
+    );
   }
 
   async updateOrganization({
@@ -290,22 +286,21 @@ export class Geomi {
     name: string;
     organization_id: string;
   }): Promise<Organization> {
-    try {
-      const adminApiClient = this.createApiClient({
+    return this.request(
+      "update organization",
+      {
         "x-jwt-organization-id": organization_id,
-      });
-      const organization = await adminApiClient.mutation([
-        "updateOrganization",
-        {
-          name,
-        },
-      ]);
-      return organization;
-    } catch (error) {
-      throw new Error(
-        `Failed to update organization: ${JSON.stringify(error)}`,
-      );
-    }
+      },
+      async (adminApiClient) => {
+        const organization = await adminApiClient.mutation([
+          "updateOrganization",
+          {
+            name,
+          },
+        ]);
+        return organization;
+      },
+    );
   }
 
   async deleteProject({
@@ -315,21 +310,22 @@ export class Geomi {
     organization_id: string;
     project_id: string;
   }): Promise<string> {
-    try {
-      const adminApiClient = this.createApiClient({
+    return this.request(
+      "delete project",
+      {
         "x-jwt-organization-id": organization_id,
         "x-jwt-project-id": project_id,
-      });
-      await adminApiClient.mutation([
-        "deleteProject",
-        {
-          _dummy: "",
-        },
-      ]);
-      return "Project deleted successfully";
-    } catch (error) {
-      throw new Error(`Failed to delete project: ${JSON.stringify(error)}`);
-    }
+      },
+      async (adminApiClient) => {
+        await adminApiClient.mutation([
+          "deleteProject",
+          {
+            _dummy: "",
+          },
+        ]);
+        return "Project deleted successfully";
+      },
+    );
   }
 
   async updateApplicationName({
@@ -343,35 +339,61 @@ export class Geomi {
     project_id: string;
     new_application_name: string;
   }): Promise<string> {
-    try {
-      const adminApiClient = this.createApiClient({
+    return this.request(
+      "update application name",
+      {
         "x-jwt-organization-id": organization_id,
         "x-jwt-project-id": project_id,
         "x-jwt-application-id": application_id,
-      });
-      await adminApiClient.mutation([
-        "setApplicationNameV2",
-        {
-          new_application_name: new_application_name,
-        },
-      ]);
-      return "Application name updated successfully";
+      },
+      async (adminApiClient) => {
+        await adminApiClient.mutation([
+          "setApplicationNameV2",
+          {
+            new_application_name: new_application_name,
+          },
+        ]);
+        return "Application name updated successfully";
+      },
+    );
+  }
+
+  /**
+   * Run a request against the admin API and turn any failure into a typed
+   * GeomiError that keeps the HTTP status and rspc error code.
+   */
+  protected async request<T>(
+    operation: string,
+    additionalHeaders: Record<string, string>,
+    send: (adminApiClient: AdminApiClient) => Promise<T>,
+  ): Promise<T> {
+    let lastResponse: Response | undefined;
+    const adminApiClient = this.createApiClient(
+      additionalHeaders,
+      (response) => {
+        lastResponse = response;
+      },
+    );
+    try {
+      return await send(adminApiClient);
     } catch (error) {
-      throw new Error(
-        `Failed to update application name: ${JSON.stringify(error)}`,
-      );
+      throw toGeomiError(error, operation, lastResponse);
     }
   }
 
-  protected createApiClient(additionalHeaders: Record<string, string> = {}) {
+  protected createApiClient(
+    additionalHeaders: Record<string, string> = {},
+    onResponse?: (response: Response) => void,
+  ): AdminApiClient {
     return createAdminApiClient({
       apiUrl: this.adminUrl,
-      customFetch: this.createCustomFetch(additionalHeaders),
+      customFetch: this.createCustomFetch(additionalHeaders, onResponse),
     });
   }
 
   private createCustomFetch = (
     additionalHeaders: Record<string, string> = {},
+    onResponse?: (response: Response) => void,
   ) => {
     return async (
       input: Request | string | URL,
@@ -379,19 +401,19 @@ export class Geomi {
     ): Promise<Response> => {
       const headers = new Headers(init?.headers);
 
-      const bearerToken = process.env.APTOS_BOT_KEY;
-
-      headers.set("Authorization", `Bearer ${bearerToken}`);
+      headers.set("Authorization", `Bearer ${config.geomi.botKey}`);
       headers.set("x-is-aptos-bot", "true");
 
       Object.entries(additionalHeaders).forEach(([key, value]) => {
         headers.set(key, value);
       });
 
-      return fetch(input, {
+      const response = await fetchWithFixtures(input, {
         ...init,
         headers,
       });
+      onResponse?.(response);
+      return response;
     };
   };
 }
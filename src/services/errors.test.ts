@@ -0,0 +1,97 @@
+import { describe, expect, it } from "vitest";
+
+import {
+  fromGeomiResponse,
+  GeomiAuthError,
+  GeomiConflictError,
+  GeomiError,
+  GeomiNetworkError,
+  GeomiNotFoundError,
+  GeomiRateLimitError,
+  GeomiServerError,
+  GeomiValidationError,
+  toGeomiError,
+} from "./errors.js";
+
+describe("toGeomiError", () => {
+  it("keeps the message, status and rspc code of admin API errors", () => {
+    const error = toGeomiError(
+      { code: 409, message: "Project name already taken" },
+      "create project",
+    );
+
+    expect(error).toBeInstanceOf(GeomiConflictError);
+    expect(error).toBeInstanceOf(GeomiValidationError);
+    expect(error.status).toBe(409);
+    expect(error.code).toBe(409);
+    expect(error.message).toBe(
+      "Failed to create project: Project name already taken (status 409)",
+    );
+  });
+
+  it("prefers the status of the failed response", () => {
+    const error = toGeomiError(
+      { code: "Unauthorized", message: "invalid token" },
+      "get organizations",
+      new Response("", { status: 401 }),
+    );
+
+    expect(error).toBeInstanceOf(GeomiAuthError);
+    expect(error.message).toBe(
+      "Failed to get organizations: invalid token (status 401, code Unauthorized)",
+    );
+    expect(error.hint).toContain("APTOS_BOT_KEY");
+    expect(error.hint).toContain('Click on "Bot Keys"');
+  });
+
+  it("maps statuses to the matching error class", () => {
+    const classify = (status: number) =>
+      toGeomiError(new Error("failed"), "x", new Response("", { status }));
+
+    expect(classify(403)).toBeInstanceOf(GeomiAuthError);
+    expect(classify(403).hint).toContain("get_geomi_applications");
+    expect(classify(404)).toBeInstanceOf(GeomiNotFoundError);
+    expect(classify(400)).toBeInstanceOf(GeomiValidationError);
+    expect(classify(429)).toBeInstanceOf(GeomiRateLimitError);
+    expect(classify(502)).toBeInstanceOf(GeomiServerError);
+  });
+
+  it("reports failed requests with their cause as network errors", () => {
+    const error = toGeomiError(
+      new TypeError("fetch failed", {
+        cause: new Error("connect ECONNREFUSED 127.0.0.1:443"),
+      }),
+      "create api key",
+    );
+
+    expect(error).toBeInstanceOf(GeomiNetworkError);
+    expect(error.status).toBeUndefined();
+    expect(error.message).toBe(
+      "Failed to create api key: fetch failed: connect ECONNREFUSED 127.0.0.1:443",
+    );
+  });
+
+  it("passes GeomiErrors through unchanged", () => {
+    const error = new GeomiError("Failed");
+    expect(toGeomiError(error, "x")).toBe(error);
+  });
+});
+
+describe("fromGeomiResponse", () => {
+  it("reads the body and Retry-After of a failed response", async () => {
+    const error = await fromGeomiResponse(
+      new Response("slow down", {
+        headers: { "Retry-After": "30" },
+        status: 429,
+      }),
+      "create gas station",
+    );
+
+    expect(error).toBeInstanceOf(GeomiRateLimitError);
+    expect(error.message).toBe(
+      "Failed to create gas station: slow down (status 429)",
+    );
+    expect((error as GeomiRateLimitError).retryAfter).toBe(30);
+    expect(error.hint).toContain("Wait 30 seconds");
+  });
+});
@@ -0,0 +1,238 @@
+import { parseRetryAfter } from "./http.js";
+
+export const BOT_KEY_SETUP_STEPS = `To generate a Bot Key:
+1. Go to [https://geomi.dev/](https://geomi.dev/)
+2. Click on your name in the bottom left corner
+3. Click on "Bot Keys"
+4. Click on the "Create Bot Key" button
+5. Copy the Bot Key and paste it into the MCP configuration file as an env arg: APTOS_BOT_KEY=<your-bot-key>`;
+
+type GeomiErrorDetails = {
+  // The rspc error code, when the admin API returned one
+  code?: number | string;
+  // HTTP status of the failed response. Undefined when no response arrived.
+  status?: number;
+};
+
+/**
+ * A failed call to the Geomi admin API or the gas station API.
+ */
+export class GeomiError extends Error {
+  readonly code?: number | string;
+  readonly status?: number;
+
+  constructor(message: string, { code, status }: GeomiErrorDetails = {}) {
+    super(message);
+    this.name = new.target.name;
+    this.code = code;
+    this.status = status;
+  }
+
+  /**
+   * What the user can do about the error.
+   */
+  get hint(): string {
+    return "Try again. If the problem persists, check https://geomi.dev for service status.";
+  }
+}
+
+/**
+ * The bot key is missing, invalid (401) or lacks access to the entity (403).
+ */
+export class GeomiAuthError extends GeomiError {
+  get hint(): string {
+    if (this.status === 403) {
+      return "The bot key does not have access to this organization, project or application. Use get_geomi_applications to list the ones it can access.";
+    }
+    return `Check that APTOS_BOT_KEY is set to a valid Geomi Bot Key. ${BOT_KEY_SETUP_STEPS}`;
+  }
+}
+
+export class GeomiNotFoundError extends GeomiError {
+  get hint(): string {
+    return "Check the organization, project and application ids with get_geomi_applications.";
+  }
+}
+
+/**
+ * The request was rejected as invalid (400, 422).
+ */
+export class GeomiValidationError extends GeomiError {
+  get hint(): string {
+    return "Check the arguments against the tool description and try again.";
+  }
+}
+
+/**
+ * An entity with the same name already exists (409).
+ */
+export class GeomiConflictError extends GeomiValidationError {
+  get hint(): string {
+    return "An entity with this name already exists. Choose a different name, or use get_geomi_applications to find and reuse the existing one.";
+  }
+}
+
+export class GeomiRateLimitError extends GeomiError {
+  // Seconds to wait, from the Retry-After header
+  readonly retryAfter?: number;
+
+  constructor(
+    message: string,
+    details: GeomiErrorDetails & { retryAfter?: number } = {},
+  ) {
+    super(message, details);
+    this.retryAfter = details.retryAfter;
+  }
+
+  get hint(): string {
+    return this.retryAfter !== undefined
+      ? `Geomi is rate limiting requests. Wait ${this.retryAfter} seconds and try again.`
+      : "Geomi is rate limiting requests. Wait a minute and try again.";
+  }
+}
+
+/**
+ * No response arrived, e.g. DNS failure, refused connection or timeout.
+ */
+export class GeomiNetworkError extends GeomiError {
+  get hint(): string {
+    return "Could not reach Geomi. Check your network connection and proxy settings, then try again.";
+  }
+}
+
+export class GeomiServerError extends GeomiError {
+  get hint(): string {
+    return "Geomi had an internal error. Try again in a few minutes; if it keeps failing, check https://geomi.dev for service status.";
+  }
+}
+
+/**
+ * A multi-step run failed, and undoing the steps it had finished failed too.
+ */
+export class GeomiRollbackError extends GeomiError {
+  // The steps that could not be undone, with why
+  readonly failures: { error: string; step: string }[];
+  // The journal of the run, to clean it up later
+  readonly runId: string;
+
+  constructor(
+    message: string,
+    {
+      failures,
+      runId,
+    }: { failures: { error: string; step: string }[]; runId: string },
+  ) {
+    super(message);
+    this.failures = failures;
+    this.runId = runId;
+  }
+
+  get hint(): string {
+    return `What these steps created is still there. Once the cause is fixed, call cleanup_geomi_provisioning_run with run_id "${this.runId}" to retry undoing them, or remove them with the delete tools.`;
+  }
+}
+
+// rspc errors carry an HTTP like numeric code, e.g. { code: 409, message }
+const isRspcError = (
+  error: unknown,
+): error is { code: number | string; message: string } =>
+  typeof error === "object" &&
+  error !== null &&
+  "code" in error &&
+  (typeof error.code === "number" || typeof error.code === "string") &&
+  "message" in error &&
+  typeof error.message === "string";
+
+// fetch() rejects with a TypeError when the request never got a response
+const isNetworkFailure = (error: unknown) =>
+  error instanceof TypeError ||
+  (error instanceof Error &&
+    ["AbortError", "TimeoutError"].includes(error.name));
+
+/**
+ * Build the error subclass that matches an HTTP status.
+ */
+export function createGeomiError(
+  message: string,
+  details: GeomiErrorDetails & { retryAfter?: number },
+): GeomiError {
+  const { status } = details;
+  if (status === 401 || status === 403) {
+    return new GeomiAuthError(message, details);
+  }
+  if (status === 404) {
+    return new GeomiNotFoundError(message, details);
+  }
+  if (status === 409) {
+    return new GeomiConflictError(message, details);
+  }
+  if (status === 400 || status === 422) {
+    return new GeomiValidationError(message, details);
+  }
+  if (status === 429) {
+    return new GeomiRateLimitError(message, details);
+  }
+  if (status !== undefined && status >= 500) {
+    return new GeomiServerError(message, details);
+  }
+  return new GeomiError(message, details);
+}
+
+/**
+ * Turn whatever a Geomi call threw into a typed GeomiError.
+ * @param operation what was attempted, e.g. "create api key"
+ * @param response the last HTTP response, if one arrived
+ */
+export function toGeomiError(
+  error: unknown,
+  operation: string,
+  response?: Response,
+): GeomiError {
+  if (error instanceof GeomiError) {
+    return error;
+  }
+
+  const code = isRspcError(error) ? error.code : undefined;
+  const status =
+    response && !response.ok
+      ? response.status
+      : typeof code === "number" && code >= 400
+        ? code
+        : undefined;
+  let detail =
+    error instanceof Error || isRspcError(error)
+      ? error.message || String(error)
+      : String(error);
+  // e.g. "fetch failed" is only useful with its cause "connect ECONNREFUSED"
+  if (error instanceof Error && error.cause instanceof Error) {
+    detail += `: ${error.cause.message}`;
+  }
+  const statusText =
+    status === undefined
+      ? ""
+      : ` (status ${status}${code !== undefined && code !== status ? `, code ${code}` : ""})`;
+  const message = `Failed to ${operation}: ${detail}${statusText}`;
+
+  if (status === undefined && isNetworkFailure(error)) {
+    return new GeomiNetworkError(message);
+  }
+  return createGeomiError(message, {
+    code,
+    retryAfter: parseRetryAfter(response),
+    status,
+  });
+}
+
+/**
+ * Build a GeomiError from a failed response of the gas station API.
+ */
+export async function fromGeomiResponse(
+  response: Response,
+  operation: string,
+): Promise<GeomiError> {
+  const body = await response.text().catch(() => "");
+  return createGeomiError(
+    `Failed to ${operation}: ${body || response.statusText} (status ${response.status})`,
+    { retryAfter: parseRetryAfter(response), status: response.status },
+  );
+}
@@ -0,0 +1,127 @@
+import { mkdtempSync, readFileSync, rmSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+
+import { config } from "../config.js";
+import {
+  type Fixture,
+  FixtureReplayer,
+  fetchWithFixtures,
+  REDACTED,
+  redactSecrets,
+  resetFixtures,
+} from "./fixtures.js";
+
+const adminUrl = config.profile.adminUrl;
+
+describe("redactSecrets", () => {
+  it("replaces secret fields at any depth", () => {
+    expect(
+      redactSecrets({
+        Organization: {
+          Project: [{ apiKeys: [{ keySecret: "aptoslabs_abc", name: "web" }] }],
+        },
+        token: null,
+      }),
+    ).toEqual({
+      Organization: {
+        Project: [{ apiKeys: [{ keySecret: REDACTED, name: "web" }] }],
+      },
+      token: null,
+    });
+  });
+});
+
+describe("fetchWithFixtures", () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), "aptos-mcp-fixtures-"));
+    resetFixtures();
+  });
+
+  afterEach(() => {
+    config.fixtures.record = undefined;
+    config.fixtures.replay = undefined;
+    resetFixtures();
+    vi.unstubAllGlobals();
+    rmSync(dir, { force: true, recursive: true });
+  });
+
+  it("records exchanges relative to the profile endpoints without secrets", async () => {
+    vi.stubGlobal(
+      "fetch",
+      vi.fn().mockResolvedValue(
+        Response.json({
+          result: {
+            data: { keySecret: "aptoslabs_abc", name: "web" },
+            type: "response",
+          },
+        }),
+      ),
+    );
+    config.fixtures.record = join(dir, "fixture.json");
+
+    const response = await fetchWithFixtures(`${adminUrl}/createApiKeyV2`, {
+      body: JSON.stringify({ frontend_args: null, name: "web" }),
+      headers: {
+        Authorization: "Bearer bot-key",
+        "Content-Type": "application/json",
+        "x-jwt-application-id": "app-1",
+      },
+      method: "POST",
+    });
+
+    // The caller still gets the real response
+    expect((await response.json()).result.data.keySecret).toBe("aptoslabs_abc");
+    const fixture = readFileSync(config.fixtures.record, "utf-8");
+    expect(fixture).not.toContain("bot-key");
+    expect(fixture).not.toContain("aptoslabs_abc");
+    expect(JSON.parse(fixture).exchanges[0].request).toEqual({
+      body: { frontend_args: null, name: "web" },
+      headers: {
+        authorization: REDACTED,
+        "content-type": "application/json",
+        "x-jwt-application-id": "app-1",
+      },
+      method: "POST",
+      path: "/createApiKeyV2",
+      service: "admin",
+    });
+  });
+
+  it("replays matching exchanges without sending anything", async () => {
+    const fetchMock = vi.fn();
+    vi.stubGlobal("fetch", fetchMock);
+    const fixture: Fixture = {
+      exchanges: [
+        {
+          request: {
+            headers: {},
+            method: "POST",
+            network: "testnet",
+            path: "/admin/application",
+            service: "gas_station",
+          },
+          response: { body: "Not allowed", headers: {}, status: 403 },
+        },
+      ],
+    };
+    const replayer = new FixtureReplayer(fixture);
+    const gasStationUrl = config.profile.gasStationUrls.testnet;
+
+    const response = await replayer.respond(
+      new Request(`${gasStationUrl}/admin/application`, { method: "POST" }),
+    );
+
+    expect(response.status).toBe(403);
+    expect(await response.text()).toBe("Not allowed");
+    expect(replayer.remaining).toEqual([]);
+    await expect(
+      replayer.respond(new Request(`${adminUrl}/version`)),
+    ).rejects.toThrow("No recorded response for GET admin /version");
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,253 @@
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from "node:fs";
+import { dirname } from "node:path";
+
+import { config } from "../config.js";
+import { fetchWithRetry } from "./http.js";
+
+export const REDACTED = "<redacted>";
+
+// JSON fields and headers whose values never end up in a fixture
+const SECRET_NAME_PATTERN = /authorization|password|secret|token/i;
+// Headers worth keeping; everything else is noise like date or server
+const RECORDED_HEADER_PATTERN =
+  /^(?:authorization|content-type|retry-after|x-is-aptos-bot|x-jwt-.*)$/;
+
+export type RecordedRequest = {
+  body?: unknown;
+  headers: Record<string, string>;
+  method: string;
+  // Set for gas station requests
+  network?: string;
+  // Relative to the endpoint of the service, e.g. `/createProject`
+  path: string;
+  service: "admin" | "gas_station" | "other";
+};
+
+export type RecordedExchange = {
+  request: RecordedRequest;
+  response: {
+    body: unknown;
+    headers: Record<string, string>;
+    status: number;
+  };
+};
+
+export type Fixture = {
+  exchanges: RecordedExchange[];
+};
+
+/**
+ * Replace the values of secret looking fields, e.g. `keySecret`, at any depth.
+ */
+export function redactSecrets(value: unknown): unknown {
+  if (Array.isArray(value)) {
+    return value.map(redactSecrets);
+  }
+  if (typeof value === "object" && value !== null) {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, child]) => [
+        key,
+        SECRET_NAME_PATTERN.test(key) && child !== null
+          ? REDACTED
+          : redactSecrets(child),
+      ]),
+    );
+  }
+  return value;
+}
+
+const recordHeaders = (headers: Headers): Record<string, string> =>
+  Object.fromEntries(
+    [...headers]
+      .filter(([name]) => RECORDED_HEADER_PATTERN.test(name))
+      .map(([name, value]) => [
+        name,
+        SECRET_NAME_PATTERN.test(name) ? REDACTED : value,
+      ]),
+  );
+
+const parseBody = (text: string): unknown => {
+  if (!text) {
+    return undefined;
+  }
+  try {
+    return redactSecrets(JSON.parse(text));
+  } catch {
+    return text;
+  }
+};
+
+// Where the request goes, independent of the profile it was recorded with
+const locate = (
+  url: string,
+): Pick<RecordedRequest, "network" | "path" | "service"> => {
+  const { adminUrl, gasStationUrls } = config.profile;
+  if (url.startsWith(adminUrl)) {
+    return { path: url.slice(adminUrl.length), service: "admin" };
+  }
+  for (const [network, gasStationUrl] of Object.entries(gasStationUrls)) {
+    if (gasStationUrl && url.startsWith(gasStationUrl)) {
+      return {
+        network,
+        path: url.slice(gasStationUrl.length),
+        service: "gas_station",
+      };
+    }
+  }
+  const { pathname, search } = new URL(url);
+  return { path: pathname + search, service: "other" };
+};
+
+const recordRequest = async (request: Request): Promise<RecordedRequest> => ({
+  body: parseBody(await request.clone().text()),
+  headers: recordHeaders(request.headers),
+  method: request.method,
+  ...locate(request.url),
+});
+
+const describeRequest = (request: RecordedRequest) =>
+  `${request.method} ${request.service}${request.network ? ` (${request.network})` : ""} ${request.path}`;
+
+const sameRequest = (a: RecordedRequest, b: RecordedRequest) =>
+  a.method === b.method &&
+  a.service === b.service &&
+  a.network === b.network &&
+  a.path === b.path &&
+  JSON.stringify(a.body) === JSON.stringify(b.body);
+
+/**
+ * Serves the responses of a fixture. A request gets the first unused exchange
+ * with the same method, endpoint and body. `requests` keeps what was asked
+ * for, in order, so tests can check the whole sequence.
+ */
+export class FixtureReplayer {
+  readonly requests: RecordedRequest[] = [];
+  private readonly used = new Set<number>();
+
+  constructor(readonly fixture: Fixture) {}
+
+  /**
+   * Recorded exchanges that were never requested.
+   */
+  get remaining(): RecordedExchange[] {
+    return this.fixture.exchanges.filter((_, index) => !this.used.has(index));
+  }
+
+  async respond(request: Request): Promise<Response> {
+    const recorded = await recordRequest(request);
+    this.requests.push(recorded);
+    const index = this.fixture.exchanges.findIndex(
+      (exchange, i) =>
+        !this.used.has(i) && sameRequest(exchange.request, recorded),
+    );
+    if (index === -1) {
+      const next = this.remaining[0];
+      throw new Error(
+        `No recorded response for ${describeRequest(recorded)}${next ? `; next recorded request is ${describeRequest(next.request)}` : ""}`,
+      );
+    }
+    this.used.add(index);
+
+    const { body, headers, status } = this.fixture.exchanges[index].response;
+    return new Response(
+      body === undefined
+        ? null
+        : typeof body === "string"
+          ? body
+          : JSON.stringify(body),
+      { headers, status },
+    );
+  }
+}
+
+/**
+ * Appends every exchange to a fixture file, with secrets redacted. The file is
+ * rewritten after each exchange so an interrupted run still leaves a fixture.
+ */
+export class FixtureRecorder {
+  readonly fixture: Fixture = { exchanges: [] };
+
+  constructor(readonly path: string) {}
+
+  async record(request: Request, response: Response) {
+    const text = await response.clone().text();
+    this.fixture.exchanges.push({
+      request: await recordRequest(request),
+      response: {
+        body: parseBody(text),
+        headers: recordHeaders(response.headers),
+        status: response.status,
+      },
+    });
+    mkdirSync(dirname(this.path), { recursive: true });
+    writeFileSync(this.path, `${JSON.stringify(this.fixture, null, 2)}\n`);
+  }
+}
+
+export const loadFixture = (path: string): Fixture =>
+  JSON.parse(readFileSync(path, "utf-8"));
+
+let active:
+  | { path: string; recorder: FixtureRecorder }
+  | { path: string; replayer: FixtureReplayer }
+  | undefined;
+
+/**
+ * The replayer for `config.fixtures.replay`, loaded on first use.
+ */
+export function getFixtureReplayer(): FixtureReplayer | undefined {
+  const path = config.fixtures.replay;
+  if (!path) {
+    return undefined;
+  }
+  if (!active || active.path !== path || !("replayer" in active)) {
+    if (!existsSync(path)) {
+      throw new Error(`Fixture file ${path} does not exist`);
+    }
+    active = { path, replayer: new FixtureReplayer(loadFixture(path)) };
+  }
+  return active.replayer;
+}
+
+const getFixtureRecorder = (): FixtureRecorder | undefined => {
+  const path = config.fixtures.record;
+  if (!path) {
+    return undefined;
+  }
+  if (!active || active.path !== path || !("recorder" in active)) {
+    active = { path, recorder: new FixtureRecorder(path) };
+  }
+  return active.recorder;
+};
+
+/**
+ * Forget the active recorder or replayer, e.g. between tests.
+ */
+export function resetFixtures() {
+  active = undefined;
+}
+
+/**
+ * fetchWithRetry() for Geomi and gas station requests. With
+ * `config.fixtures.replay` set, responses come from the fixture file and
+ * nothing is sent. With `config.fixtures.record` set, the final response of
+ * every request is saved to the fixture file.
+ */
+export async function fetchWithFixtures(
+  input: Request | string | URL,
+  init: RequestInit = {},
+): Promise<Response> {
+  const replayer = getFixtureReplayer();
+  if (replayer) {
+    return replayer.respond(new Request(input, init));
+  }
+
+  const recorder = getFixtureRecorder();
+  // Keep a copy, the body of the original is consumed when sent
+  const request = recorder ? new Request(input, init) : undefined;
+  const response = await fetchWithRetry(input, init);
+  if (recorder && request) {
+    await recorder.record(request, response);
+  }
+  return response;
+}
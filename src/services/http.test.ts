@@ -0,0 +1,150 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+
+import { config } from "../config.js";
+import { fetchWithRetry, mapConcurrently, parseRetryAfter } from "./http.js";
+
+const defaults = { ...config.http };
+
+const respond = (...responses: (Response | Error)[]) => {
+  const fetchMock = vi.fn();
+  for (const response of responses) {
+    if (response instanceof Error) {
+      fetchMock.mockRejectedValueOnce(response);
+    } else {
+      fetchMock.mockResolvedValueOnce(response);
+    }
+  }
+  vi.stubGlobal("fetch", fetchMock);
+  return fetchMock;
+};
+
+describe("fetchWithRetry", () => {
+  beforeEach(() => {
+    Object.assign(config.http, {
+      maxRetries: 2,
+      maxRetryDelayMs: 1_000,
+      retryBaseDelayMs: 1,
+      timeoutMs: 1_000,
+    });
+  });
+
+  afterEach(() => {
+    Object.assign(config.http, defaults);
+    vi.unstubAllGlobals();
+  });
+
+  it("retries idempotent requests on 5xx and network errors", async () => {
+    const fetchMock = respond(
+      new Response("", { status: 503 }),
+      new TypeError("fetch failed"),
+      new Response("ok"),
+    );
+
+    const response = await fetchWithRetry("https://example.com/rspc");
+
+    expect(await response.text()).toBe("ok");
+    expect(fetchMock).toHaveBeenCalledTimes(3);
+  });
+
+  it("does not repeat a POST that failed on the server", async () => {
+    const fetchMock = respond(new Response("", { status: 500 }));
+
+    const response = await fetchWithRetry("https://example.com/admin/rule", {
+      method: "POST",
+    });
+
+    expect(response.status).toBe(500);
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+
+  it("retries any request on 429 after the Retry-After delay", async () => {
+    const fetchMock = respond(
+      new Response("", { headers: { "Retry-After": "0" }, status: 429 }),
+      new Response("created"),
+    );
+
+    const response = await fetchWithRetry("https://example.com/admin/rule", {
+      method: "POST",
+    });
+
+    expect(await response.text()).toBe("created");
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+  });
+
+  it("returns the 429 when Retry-After asks to wait too long", async () => {
+    const fetchMock = respond(
+      new Response("", { headers: { "Retry-After": "120" }, status: 429 }),
+    );
+
+    const response = await fetchWithRetry("https://example.com/rspc");
+
+    expect(response.status).toBe(429);
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+
+  it("gives up after the configured number of retries", async () => {
+    const fetchMock = respond(
+      new TypeError("fetch failed"),
+      new TypeError("fetch failed"),
+      new TypeError("fetch failed"),
+    );
+
+    await expect(fetchWithRetry("https://example.com/rspc")).rejects.toThrow(
+      "fetch failed",
+    );
+    expect(fetchMock).toHaveBeenCalledTimes(3);
+  });
+
+  it("aborts attempts that exceed the timeout", async () => {
+    vi.stubGlobal(
+      "fetch",
+      vi.fn(
+        (_input: string, init: RequestInit) =>
+          new Promise((_resolve, reject) => {
+            init.signal?.addEventListener("abort", () =>
+              reject(init.signal?.reason),
+            );
+          }),
+      ),
+    );
+
+    await expect(
+      fetchWithRetry(
+        "https://example.com/rspc",
+        {},
+        { maxRetries: 0, timeoutMs: 10 },
+      ),
+    ).rejects.toMatchObject({ name: "TimeoutError" });
+  });
+});
+
+describe("parseRetryAfter", () => {
+  it("reads seconds and HTTP dates", () => {
+    const retryAfter = (value: string) =>
+      parseRetryAfter(new Response("", { headers: { "Retry-After": value } }));
+
+    expect(retryAfter("5")).toBe(5);
+    expect(
+      retryAfter(new Date(Date.now() + 10_000).toUTCString()),
+    ).toBeGreaterThan(8);
+    expect(retryAfter("soon")).toBeUndefined();
+    expect(parseRetryAfter(new Response(""))).toBeUndefined();
+  });
+});
+
+describe("mapConcurrently", () => {
+  it("runs at most the limit at once and keeps the order", async () => {
+    let running = 0;
+    let peak = 0;
+    const results = await mapConcurrently([30, 10, 20, 0, 5], 2, async (ms) => {
+      running++;
+      peak = Math.max(peak, running);
+      await new Promise((resolve) => setTimeout(resolve, ms));
+      running--;
+      return ms * 2;
+    });
+
+    expect(results).toEqual([60, 20, 40, 0, 10]);
+    expect(peak).toBe(2);
+  });
+});
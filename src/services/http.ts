@@ -0,0 +1,127 @@
+import { config } from "../config.js";
+
+export type HttpSettings = {
+  // Retries after the first attempt
+  maxRetries: number;
+  // Upper bound for a single wait, including Retry-After
+  maxRetryDelayMs: number;
+  // First backoff step, doubled on every retry
+  retryBaseDelayMs: number;
+  // Per attempt
+  timeoutMs: number;
+};
+
+// Responses worth retrying for requests that are safe to repeat
+const RETRYABLE_STATUSES = new Set([408, 429, 500, 502, 503, 504]);
+const IDEMPOTENT_METHODS = new Set(["GET", "HEAD", "OPTIONS"]);
+
+/**
+ * Seconds to wait according to a Retry-After header (seconds or HTTP date).
+ */
+export const parseRetryAfter = (response?: Response): number | undefined => {
+  const header = response?.headers.get("retry-after");
+  if (!header) {
+    return undefined;
+  }
+  const seconds = Number(header);
+  if (Number.isFinite(seconds)) {
+    return Math.max(0, seconds);
+  }
+  const date = Date.parse(header);
+  return Number.isNaN(date)
+    ? undefined
+    : Math.max(0, Math.ceil((date - Date.now()) / 1000));
+};
+
+// Exponential backoff with full jitter
+const backoffDelay = (attempt: number, settings: HttpSettings) =>
+  Math.random() *
+  Math.min(settings.maxRetryDelayMs, settings.retryBaseDelayMs * 2 ** attempt);
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+const requestMethod = (input: Request | string | URL, init?: RequestInit) =>
+  (
+    init?.method ?? (input instanceof Request ? input.method : "GET")
+  ).toUpperCase();
+
+/**
+ * fetch() with a timeout per attempt and retries with exponential backoff.
+ *
+ * Requests are only repeated when that is safe: idempotent requests (GET,
+ * HEAD, OPTIONS unless `idempotent` says otherwise) are retried on network
+ * errors, timeouts, 408, 429 and 5xx. Any request is retried on 429, as the
+ * server did not process it. A Retry-After header sets the wait, and when it
+ * asks for longer than `maxRetryDelayMs` the response is returned as is.
+ */
+export async function fetchWithRetry(
+  input: Request | string | URL,
+  init: RequestInit = {},
+  {
+    idempotent = IDEMPOTENT_METHODS.has(requestMethod(input, init)),
+    ...overrides
+  }: Partial<HttpSettings> & { idempotent?: boolean } = {},
+): Promise<Response> {
+  const settings: HttpSettings = { ...config.http, ...overrides };
+
+  for (let attempt = 0; ; attempt++) {
+    const timeout = AbortSignal.timeout(settings.timeoutMs);
+    const signal = init.signal
+      ? AbortSignal.any([init.signal, timeout])
+      : timeout;
+    const canRetry = attempt < settings.maxRetries;
+
+    let response: Response;
+    try {
+      response = await fetch(input, { ...init, signal });
+    } catch (error) {
+      // Never retry once the caller aborted
+      if (!canRetry || !idempotent || init.signal?.aborted) {
+        throw error;
+      }
+      await sleep(backoffDelay(attempt, settings));
+      continue;
+    }
+
+    const retryable =
+      response.status === 429 ||
+      (idempotent && RETRYABLE_STATUSES.has(response.status));
+    if (!canRetry || !retryable) {
+      return response;
+    }
+
+    const retryAfter = parseRetryAfter(response);
+    const delay =
+      retryAfter === undefined
+        ? backoffDelay(attempt, settings)
+        : retryAfter * 1000;
+    if (delay > settings.maxRetryDelayMs) {
+      return response;
+    }
+    await response.body?.cancel();
+    await sleep(delay);
+  }
+}
+
+/**
+ * Map items with an async function, running at most `limit` calls at once.
+ * Results keep the order of the items.
+ */
+export async function mapConcurrently<T, R>(
+  items: T[],
+  limit: number,
+  map: (item: T, index: number) => Promise<R>,
+): Promise<R[]> {
+  const results = new Array<R>(items.length);
+  let next = 0;
+  const worker = async () => {
+    while (next < items.length) {
+      const index = next++;
+      results[index] = await map(items[index], index);
+    }
+  };
+  await Promise.all(
+    Array.from({ length: Math.min(limit, items.length) }, worker),
+  );
+  return results;
+}
@@ -0,0 +1,231 @@
+import { mkdtempSync, readdirSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+
+import { config } from "../config.js";
+import { GeomiRollbackError } from "./errors.js";
+import {
+  cleanupSaga,
+  listJournals,
+  resumeSaga,
+  runSaga,
+  type Saga,
+} from "./saga.js";
+
+type State = { first: string; second: string };
+
+const context = {} as never;
+
+// Two steps that record what ran, the second one failing while `fail` is set
+const createSaga = (
+  fail: { compensate?: boolean; second?: boolean },
+  recoverSecond?: { finished: boolean; second: string },
+) => {
+  const calls: string[] = [];
+  const saga: Saga<{ name: string }, State, string> = {
+    name: "test",
+    result: ({ state }) => `${state.first} ${state.second}`,
+    steps: [
+      {
+        compensate: async ({ state }) => {
+          calls.push(`undo ${state.first}`);
+          if (fail.compensate) {
+            throw new Error("delete failed");
+          }
+        },
+        name: "first",
+        run: async ({ input }) => {
+          calls.push("first");
+          return { first: input.name };
+        },
+      },
+      {
+        compensate: null,
+        name: "second",
+        ...(recoverSecond && {
+          recover: async () => {
+            calls.push("recover second");
+            return {
+              finished: recoverSecond.finished,
+              state: { second: recoverSecond.second },
+            };
+          },
+        }),
+        run: async ({ state }) => {
+          calls.push("second");
+          if (fail.second) {
+            throw new Error("second failed");
+          }
+          return { second: `${state.second ?? ""}done` };
+        },
+      },
+    ],
+  };
+  return { calls, saga };
+};
+
+describe("runSaga", () => {
+  const dir = config.journal.dir;
+
+  beforeEach(() => {
+    config.journal.dir = mkdtempSync(join(tmpdir(), "aptos-mcp-journal-"));
+  });
+
+  afterEach(() => {
+    rmSync(config.journal.dir, { force: true, recursive: true });
+    config.journal.dir = dir;
+  });
+
+  it("runs the steps and removes the journal when they finish", async () => {
+    const { calls, saga } = createSaga({});
+
+    await expect(runSaga(saga, { name: "app" }, context)).resolves.toBe(
+      "app done",
+    );
+    expect(calls).toEqual(["first", "second"]);
+    expect(readdirSync(config.journal.dir)).toEqual([]);
+  });
+
+  it("undoes the finished steps and rethrows the error", async () => {
+    const { calls, saga } = createSaga({ second: true });
+
+    await expect(runSaga(saga, { name: "app" }, context)).rejects.toThrow(
+      "second failed",
+    );
+    expect(calls).toEqual(["first", "second", "undo app"]);
+    expect(listJournals()).toEqual({ runs: [], unreadable: [] });
+  });
+
+  it("keeps the journal of a failed rollback to clean it up later", async () => {
+    const fail = { compensate: true, second: true };
+    const { calls, saga } = createSaga(fail);
+
+    const error = await runSaga(saga, { name: "app" }, context).catch(
+      (error) => error,
+    );
+
+    expect(error).toBeInstanceOf(GeomiRollbackError);
+    expect(error.message).toBe(
+      "second failed\nUndoing these steps failed too:\n- first: delete failed",
+    );
+    const [journal] = listJournals().runs;
+    expect(journal).toMatchObject({
+      completed: ["first"],
+      failures: [{ error: "delete failed", step: "first" }],
+      id: error.runId,
+      status: "rollback_failed",
+    });
+    await expect(resumeSaga(saga, journal.id, context)).rejects.toThrow(
+      "cannot be resumed",
+    );
+
+    fail.compensate = false;
+    await expect(cleanupSaga(saga, journal.id, context)).resolves.toEqual({
+      undone: ["first"],
+    });
+    expect(calls.at(-1)).toBe("undo app");
+    expect(listJournals()).toEqual({ runs: [], unreadable: [] });
+  });
+
+  // The process stopped while the second step ran
+  const writeInterruptedJournal = (
+    id: string,
+    profile: string = config.profile.name,
+  ) =>
+    writeFileSync(
+      join(config.journal.dir, `${id}.json`),
+      JSON.stringify({
+        compensated: [],
+        completed: ["first"],
+        failures: [],
+        id,
+        input: { name: "app" },
+        profile,
+        saga: "test",
+        startedAt: "2026-01-01T00:00:00.000Z",
+        state: { first: "app" },
+        status: "running",
+        step: "second",
+        updatedAt: "2026-01-01T00:00:00.000Z",
+      }),
+    );
+
+  it("resumes an interrupted run and reports the step it ran again", async () => {
+    const { calls, saga } = createSaga({});
+    const id = "7d0c5d0e-3f0b-4d5e-9a51-5f6d1e2c3b4a";
+    writeInterruptedJournal(id);
+
+    await expect(resumeSaga(saga, id, context)).resolves.toEqual({
+      interruptedStep: { name: "second", outcome: "retried" },
+      result: "app done",
+    });
+    expect(calls).toEqual(["second"]);
+    expect(listJournals()).toEqual({ runs: [], unreadable: [] });
+    await expect(resumeSaga(saga, id, context)).rejects.toThrow(
+      `No unfinished run ${id}`,
+    );
+  });
+
+  it("recovers what the interrupted step created instead of running it again", async () => {
+    const { calls, saga } = createSaga({}, { finished: true, second: "found" });
+    const id = "7d0c5d0e-3f0b-4d5e-9a51-5f6d1e2c3b4a";
+    writeInterruptedJournal(id);
+
+    await expect(resumeSaga(saga, id, context)).resolves.toEqual({
+      interruptedStep: { name: "second", outcome: "recovered" },
+      result: "app found",
+    });
+    expect(calls).toEqual(["recover second"]);
+  });
+
+  it("runs the interrupted step again with what it recovered when it had not finished", async () => {
+    const { calls, saga } = createSaga(
+      {},
+      { finished: false, second: "half " },
+    );
+    const id = "7d0c5d0e-3f0b-4d5e-9a51-5f6d1e2c3b4a";
+    writeInterruptedJournal(id);
+
+    await expect(resumeSaga(saga, id, context)).resolves.toEqual({
+      interruptedStep: { name: "second", outcome: "continued" },
+      result: "app half done",
+    });
+    expect(calls).toEqual(["recover second", "second"]);
+  });
+
+  it("lists the readable journals and reports the others", () => {
+    const id = "7d0c5d0e-3f0b-4d5e-9a51-5f6d1e2c3b4a";
+    const partial = "0b7c2a4e-8d6f-4e1a-b3c5-9f8e7d6c5b4a";
+    writeInterruptedJournal(id);
+    writeFileSync(join(config.journal.dir, `${partial}.json`), '{"compen');
+
+    const listing = listJournals();
+
+    expect(listing.runs.map((run) => run.id)).toEqual([id]);
+    expect(listing.unreadable).toEqual([
+      {
+        error: expect.stringContaining(
+          `The journal of run ${partial} is unreadable`,
+        ),
+        file: join(config.journal.dir, `${partial}.json`),
+      },
+    ]);
+  });
+
+  it("leaves the runs of another profile alone", async () => {
+    const { calls, saga } = createSaga({});
+    const id = "7d0c5d0e-3f0b-4d5e-9a51-5f6d1e2c3b4a";
+    writeInterruptedJournal(id, "elsewhere");
+
+    expect(listJournals()).toEqual({ runs: [], unreadable: [] });
+    await expect(resumeSaga(saga, id, context)).rejects.toThrow(
+      `Run ${id} was started under the elsewhere profile, not ${config.profile.name}. Set APTOS_MCP_PROFILE=elsewhere`,
+    );
+    await expect(cleanupSaga(saga, id, context)).rejects.toThrow(
+      "elsewhere profile",
+    );
+    expect(calls).toEqual([]);
+  });
+});
@@ -0,0 +1,458 @@
+import { randomUUID } from "node:crypto";
+import {
+  existsSync,
+  mkdirSync,
+  readdirSync,
+  readFileSync,
+  rmSync,
+  writeFileSync,
+} from "node:fs";
+import { join } from "node:path";
+
+import type { Context, FastMCPSessionAuth } from "fastmcp";
+
+import { config } from "../config.js";
+import {
+  GeomiNotFoundError,
+  GeomiRollbackError,
+  GeomiValidationError,
+} from "./errors.js";
+
+// The MCP context of the tool call that started, resumed or cleans up a run
+export type SagaContext = Context<FastMCPSessionAuth>;
+
+export type SagaRun<I, S> = {
+  context: SagaContext;
+  input: I;
+  // What the steps that finished returned, merged
+  state: Partial<S>;
+};
+
+export type SagaStep<I, S> = {
+  // Undo the step. Null when there is nothing to undo, e.g. an API key that
+  // is deleted with its application.
+  compensate: ((run: SagaRun<I, S>) => Promise<void>) | null;
+  name: string;
+  // Find what the step did before the run was interrupted, without changing
+  // anything, so resuming does not do it twice. Undefined when it found
+  // nothing.
+  recover?: (run: SagaRun<I, S>) => Promise<SagaRecovery<S> | undefined>;
+  // What the step returns is merged into the state. The state is written to
+  // the journal, so it must be JSON and never hold secrets.
+  run: (run: SagaRun<I, S>) => Promise<Partial<S>>;
+};
+
+/**
+ * What an interrupted step had done, as its recover function found it.
+ */
+export type SagaRecovery<S> = {
+  // Whether the step had finished. Otherwise it runs again with the state
+  // found, and only does what is left, e.g. the rules it did not create yet.
+  finished: boolean;
+  state: Partial<S>;
+};
+
+/**
+ * A multi-step provisioning flow, e.g. creating an application, then its API
+ * key, then its gas station. Steps run in order; when one fails, the steps
+ * that finished are compensated in reverse order.
+ */
+export type Saga<I, S, R> = {
+  name: string;
+  // What the run returns once every step finished
+  result: (run: Omit<SagaRun<I, S>, "context">) => R;
+  // A function when the steps depend on the input, e.g. one per network
+  steps: SagaStep<I, S>[] | ((input: I) => SagaStep<I, S>[]);
+};
+
+export type SagaStatus = "rollback_failed" | "rolling_back" | "running";
+
+/**
+ * The progress of a run, written after every step. Runs that finish, or are
+ * fully rolled back, remove their journal.
+ */
+export type SagaJournal = {
+  // Steps whose compensation ran
+  compensated: string[];
+  // Steps that finished, in the order they ran
+  completed: string[];
+  // Why the run failed
+  error?: string;
+  failures: { error: string; step: string }[];
+  id: string;
+  input: unknown;
+  // The profile the run was started under, whose endpoints it created its
+  // entities at
+  profile: string;
+  saga: string;
+  startedAt: string;
+  state: Record<string, unknown>;
+  status: SagaStatus;
+  // The step that was running when the journal was written. After an
+  // interruption it may or may not have taken effect.
+  step?: string;
+  updatedAt: string;
+};
+
+/**
+ * What resuming a run returns: the result of the run, and what became of the
+ * step that was running when it was interrupted.
+ */
+export type SagaResumption<R> = {
+  interruptedStep?: {
+    name: string;
+    // Recovered when the step had finished, continued when it ran again for
+    // what it had not done, and retried when it ran again without knowing
+    // what it had done, so it may have created something twice
+    outcome: "continued" | "recovered" | "retried";
+  };
+  result: R;
+};
+
+/**
+ * What cleaning up a run undid.
+ */
+export type SagaCleanup = {
+  // Steps undone by this call
+  undone: string[];
+  // The step that was running when the run stopped, when it cannot tell
+  // what it created, so that could not be undone
+  unrecoveredStep?: string;
+};
+
+/**
+ * The journals of the unfinished runs, and the files in the journal
+ * directory that could not be read, e.g. because a write was cut short.
+ */
+export type SagaJournalListing = {
+  runs: SagaJournal[];
+  unreadable: { error: string; file: string }[];
+};
+
+const RUN_ID_PATTERN = /^[0-9a-f-]{36}$/;
+
+// Runs of this process, which must not be resumed or cleaned up meanwhile
+const activeRuns = new Set<string>();
+
+const stepsOf = <I, S, R>(saga: Saga<I, S, R>, input: I) =>
+  typeof saga.steps === "function" ? saga.steps(input) : saga.steps;
+
+const journalPath = (id: string) => join(config.journal.dir, `${id}.json`);
+
+const errorMessage = (error: unknown) =>
+  error instanceof Error ? error.message : String(error);
+
+function writeJournal(journal: SagaJournal): void {
+  journal.updatedAt = new Date().toISOString();
+  mkdirSync(config.journal.dir, { recursive: true });
+  writeFileSync(
+    journalPath(journal.id),
+    `${JSON.stringify(journal, null, 2)}\n`,
+    { mode: 0o600 },
+  );
+}
+
+function removeJournal(id: string): void {
+  rmSync(journalPath(id), { force: true });
+}
+
+/**
+ * Read the journal of a run that has not finished.
+ */
+export function readJournal(id: string): SagaJournal {
+  if (!RUN_ID_PATTERN.test(id) || !existsSync(journalPath(id))) {
+    throw new GeomiNotFoundError(
+      `No unfinished run ${id}. Use get_geomi_provisioning_runs to list them.`,
+    );
+  }
+  let journal: Partial<SagaJournal>;
+  try {
+    journal = JSON.parse(readFileSync(journalPath(id), "utf-8"));
+  } catch (error) {
+    throw new GeomiValidationError(
+      `The journal of run ${id} is unreadable: ${errorMessage(error)}`,
+    );
+  }
+  if (
+    typeof journal?.saga !== "string" ||
+    typeof journal.startedAt !== "string" ||
+    !Array.isArray(journal.completed) ||
+    !Array.isArray(journal.compensated)
+  ) {
+    throw new GeomiValidationError(
+      `The journal of run ${id} is unreadable: it is not a run journal`,
+    );
+  }
+  if (typeof journal.profile !== "string") {
+    throw new GeomiValidationError(
+      `The journal of run ${id} is unreadable: it does not record the profile the run was started under`,
+    );
+  }
+  return journal as SagaJournal;
+}
+
+/**
+ * The journals of the runs of the active profile that have not finished,
+ * oldest first. A journal that cannot be read is reported rather than failing
+ * the whole listing.
+ */
+export function listJournals(): SagaJournalListing {
+  const listing: SagaJournalListing = { runs: [], unreadable: [] };
+  if (!existsSync(config.journal.dir)) {
+    return listing;
+  }
+  for (const file of readdirSync(config.journal.dir)) {
+    const id = file.replace(/\.json$/, "");
+    if (!RUN_ID_PATTERN.test(id)) {
+      continue;
+    }
+    try {
+      const journal = readJournal(id);
+      if (journal.profile === config.profile.name) {
+        listing.runs.push(journal);
+      }
+    } catch (error) {
+      listing.unreadable.push({
+        error: errorMessage(error),
+        file: journalPath(id),
+      });
+    }
+  }
+  listing.runs.sort((a, b) => a.startedAt.localeCompare(b.startedAt));
+  return listing;
+}
+
+/**
+ * Undo the finished steps that are not undone yet, in reverse order. A failed
+ * compensation does not stop the others. Removes the journal once every step
+ * is undone.
+ */
+async function compensate<I, S, R>(
+  saga: Saga<I, S, R>,
+  journal: SagaJournal,
+  context: SagaContext,
+): Promise<void> {
+  journal.status = "rolling_back";
+  journal.failures = [];
+  writeJournal(journal);
+  const run = {
+    context,
+    input: journal.input as I,
+    state: journal.state as Partial<S>,
+  };
+  for (const step of [...stepsOf(saga, run.input)].reverse()) {
+    if (
+      !journal.completed.includes(step.name) ||
+      journal.compensated.includes(step.name)
+    ) {
+      continue;
+    }
+    try {
+      await step.compensate?.(run);
+      journal.compensated.push(step.name);
+    } catch (error) {
+      journal.failures.push({ error: errorMessage(error), step: step.name });
+    }
+    writeJournal(journal);
+  }
+  if (journal.failures.length === 0) {
+    removeJournal(journal.id);
+    return;
+  }
+  journal.status = "rollback_failed";
+  writeJournal(journal);
+}
+
+const rollbackError = (message: string, journal: SagaJournal) =>
+  new GeomiRollbackError(
+    `${message}\nUndoing these steps failed too:\n${journal.failures.map((failure) => `- ${failure.step}: ${failure.error}`).join("\n")}`,
+    { failures: journal.failures, runId: journal.id },
+  );
+
+async function execute<I, S, R>(
+  saga: Saga<I, S, R>,
+  journal: SagaJournal,
+  context: SagaContext,
+): Promise<R> {
+  activeRuns.add(journal.id);
+  const run = {
+    context,
+    input: journal.input as I,
+    state: journal.state as Partial<S>,
+  };
+  try {
+    for (const step of stepsOf(saga, run.input)) {
+      if (journal.completed.includes(step.name)) {
+        continue;
+      }
+      journal.step = step.name;
+      writeJournal(journal);
+      try {
+        Object.assign(journal.state, await step.run(run));
+      } catch (error) {
+        journal.error = errorMessage(error);
+        journal.step = undefined;
+        await compensate(saga, journal, context);
+        if (journal.failures.length > 0) {
+          throw rollbackError(journal.error, journal);
+        }
+        throw error;
+      }
+      journal.completed.push(step.name);
+      journal.step = undefined;
+      writeJournal(journal);
+    }
+    removeJournal(journal.id);
+    return saga.result(run);
+  } finally {
+    activeRuns.delete(journal.id);
+  }
+}
+
+const claimJournal = (id: string, saga: { name: string }) => {
+  const journal = readJournal(id);
+  if (activeRuns.has(id)) {
+    throw new GeomiValidationError(`Run ${id} is still running.`);
+  }
+  // Its entities are at the endpoints of that profile
+  if (journal.profile !== config.profile.name) {
+    throw new GeomiValidationError(
+      `Run ${id} was started under the ${journal.profile} profile, not ${config.profile.name}. Set APTOS_MCP_PROFILE=${journal.profile} to resume or clean it up.`,
+    );
+  }
+  if (journal.saga !== saga.name) {
+    throw new GeomiValidationError(
+      `Run ${id} is a ${journal.saga} run, not ${saga.name}.`,
+    );
+  }
+  return journal;
+};
+
+/**
+ * Run every step of a saga, journaling its progress. When a step fails, the
+ * finished steps are undone and the error is rethrown, or a
+ * GeomiRollbackError naming the steps that could not be undone.
+ */
+export async function runSaga<I, S, R>(
+  saga: Saga<I, S, R>,
+  input: I,
+  context: SagaContext,
+): Promise<R> {
+  const now = new Date().toISOString();
+  return execute(
+    saga,
+    {
+      compensated: [],
+      completed: [],
+      failures: [],
+      id: randomUUID(),
+      input,
+      profile: config.profile.name,
+      saga: saga.name,
+      startedAt: now,
+      state: {},
+      status: "running",
+      updatedAt: now,
+    },
+    context,
+  );
+}
+
+/**
+ * Continue an interrupted run from the first step that did not finish. The
+ * step that was running when the run stopped first tries to recover what it
+ * did, and runs again for the rest; without a recover function it runs again
+ * from scratch. A run that failed can only be cleaned up.
+ */
+export async function resumeSaga<I, S, R>(
+  saga: Saga<I, S, R>,
+  id: string,
+  context: SagaContext,
+): Promise<SagaResumption<R>> {
+  const journal = claimJournal(id, saga);
+  if (journal.status !== "running") {
+    throw new GeomiValidationError(
+      `Run ${id} failed and was partly rolled back, so it cannot be resumed. Clean it up with cleanup_geomi_provisioning_run instead.`,
+    );
+  }
+  const run = {
+    context,
+    input: journal.input as I,
+    state: journal.state as Partial<S>,
+  };
+  const interrupted = stepsOf(saga, run.input).find(
+    (step) => step.name === journal.step,
+  );
+  let recovery: SagaRecovery<S> | undefined;
+  activeRuns.add(id);
+  try {
+    recovery = await interrupted?.recover?.(run);
+  } finally {
+    activeRuns.delete(id);
+  }
+  if (interrupted && recovery) {
+    Object.assign(journal.state, recovery.state);
+    if (recovery.finished) {
+      journal.completed.push(interrupted.name);
+      journal.step = undefined;
+    }
+    writeJournal(journal);
+  }
+  const result = await execute(saga, journal, context);
+  const outcome = recovery?.finished
+    ? "recovered"
+    : interrupted?.recover
+      ? "continued"
+      : "retried";
+  return {
+    ...(interrupted && {
+      interruptedStep: { name: interrupted.name, outcome },
+    }),
+    result,
+  };
+}
+
+/**
+ * Undo what an interrupted or failed run created. The step that was running
+ * when the run stopped first tries to recover what it did, so that is undone
+ * too.
+ */
+export async function cleanupSaga<I, S, R>(
+  saga: Saga<I, S, R>,
+  id: string,
+  context: SagaContext,
+): Promise<SagaCleanup> {
+  const journal = claimJournal(id, saga);
+  const compensated = journal.compensated.length;
+  const interrupted = stepsOf(saga, journal.input as I).find(
+    (step) => step.name === journal.step,
+  );
+  activeRuns.add(id);
+  try {
+    const recovery = await interrupted?.recover?.({
+      context,
+      input: journal.input as I,
+      state: journal.state as Partial<S>,
+    });
+    if (interrupted && recovery) {
+      // Finished or not, what the step did is undone with the other steps
+      Object.assign(journal.state, recovery.state);
+      journal.completed.push(interrupted.name);
+      journal.step = undefined;
+      writeJournal(journal);
+    }
+    await compensate(saga, journal, context);
+  } finally {
+    activeRuns.delete(id);
+  }
+  if (journal.failures.length > 0) {
+    throw rollbackError(`Failed to clean up run ${id}.`, journal);
+  }
+  return {
+    undone: journal.compensated.slice(compensated),
+    // Steps without a compensation create nothing that needs undoing
+    ...(journal.step &&
+      !interrupted?.recover &&
+      interrupted?.compensate && { unrecoveredStep: journal.step }),
+  };
+}
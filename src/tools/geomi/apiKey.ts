@@ -1,21 +1,55 @@
+import {
+  chmodSync,
+  copyFileSync,
+  existsSync,
+  readFileSync,
+  writeFileSync,
+} from "node:fs";
+import { isAbsolute, join } from "node:path";
+
+import { GeomiValidationError } from "../../services/errors.js";
 import { Geomi } from "../../services/Geomi.js";
 import { recordTelemetry } from "../../utils/telemetry.js";
 import {
   CreateApiKeyToolScheme,
   DeleteApiKeyToolScheme,
+  ExportApiKeyToolScheme,
   toApiFrontendArgs,
   UpdateApiKeyToolScheme,
+  WriteApiKeyToEnvToolScheme,
 } from "../types/organization.js";
+import { confirmDeletion, describeDeletion } from "./confirmation.js";
+import { resolveEntities } from "./entities.js";
+import {
+  detectFramework,
+  ENV_PREFIXES,
+  isEnvVarName,
+  isGitIgnored,
+  setEnvEntry,
+} from "./envFile.js";
+import { toToolError } from "./errors.js";
+import {
+  planCreateApiKey,
+  planDeleteApiKey,
+  planUpdateApiKey,
+} from "./plan.js";
+import {
+  fingerprintSecret,
+  maskSecret,
+  redactApiKeySecrets,
+} from "./secrets.js";
 
 /**
  * Tool to create an API Key for your Geomi Organization.
  */
 export const createApiKeyTool = {
   description: `Create a new API Key for your Geomi Organization. Geomi is the essential toolkit for Aptos developers. Api Keys are secret keys so it is important to keep them safe and secure. 
-    This tool can be used to create an Api Key (aka full node api key) for an Api resource application to interact with the Aptos blockchain.`,
+    This tool can be used to create an Api Key (aka full node api key) for an Api resource application to interact with the Aptos blockchain.
+    The secret is redacted to a preview and a fingerprint. Use export_geomi_api_key to write it to a local file or env var.`,
   execute: async (
     args: {
       application_id: string;
+      dry_run?: boolean;
       frontend_args?: Parameters<typeof toApiFrontendArgs>[0];
       name: string;
       organization_id: string;
@@ -26,6 +60,14 @@ export const createApiKeyTool = {
     try {
       await recordTelemetry({ action: "create_api_key" }, context);
       const geomi = new Geomi(context);
+      if (args.dry_run) {
+        return JSON.stringify(
+          planCreateApiKey(await geomi.getApplications(), {
+            ...args,
+            frontend_args: toApiFrontendArgs(args.frontend_args),
+          }),
+        );
+      }
       const apiKey = await geomi.createApiKey({
         application_id: args.application_id,
         frontend_args: toApiFrontendArgs(args.frontend_args),
@@ -33,9 +75,9 @@ export const createApiKeyTool = {
         organization_id: args.organization_id,
         project_id: args.project_id,
       });
-      return JSON.stringify(apiKey);
+      return JSON.stringify(redactApiKeySecrets(apiKey));
     } catch (error) {
-      return `❌ Failed to create api key: ${error}`;
+      return toToolError("create api key", error);
     }
   },
   name: "create_geomi_api_key",
@@ -52,6 +94,7 @@ export const updateApiKeyTool = {
     args: {
       application_id: string;
       current_api_key_name: string;
+      dry_run?: boolean;
       frontend_args?: Parameters<typeof toApiFrontendArgs>[0];
       new_api_key_name?: string;
       organization_id: string;
@@ -62,6 +105,14 @@ export const updateApiKeyTool = {
     try {
       await recordTelemetry({ action: "update_api_key" }, context);
       const geomi = new Geomi(context);
+      if (args.dry_run) {
+        return JSON.stringify(
+          planUpdateApiKey(await geomi.getApplications(), {
+            ...args,
+            frontend_args: toApiFrontendArgs(args.frontend_args),
+          }),
+        );
+      }
       context.log.info(
         `Updating api key: ${JSON.stringify(args.frontend_args)}`,
       );
@@ -73,9 +124,9 @@ export const updateApiKeyTool = {
         organization_id: args.organization_id,
         project_id: args.project_id,
       });
-      return JSON.stringify(apiKey);
+      return JSON.stringify(redactApiKeySecrets(apiKey));
     } catch (error) {
-      return `❌ Failed to update api key: ${error}`;
+      return toToolError("update api key", error);
     }
   },
   name: "update_geomi_api_key",
@@ -86,12 +137,15 @@ export const updateApiKeyTool = {
  * Tool to delete an API Key for your Geomi Organization.
  */
 export const deleteApiKeyTool = {
+  annotations: { destructiveHint: true },
   description:
-    "Delete an API Key for your Geomi Organization. Geomi is the essential toolkit for Aptos developers.",
+    "Delete an API Key for your Geomi Organization. Geomi is the essential toolkit for Aptos developers. The user is asked to confirm first.",
   execute: async (
     args: {
       api_key_name: string;
       application_id: string;
+      confirm_token?: string;
+      dry_run?: boolean;
       organization_id: string;
       project_id: string;
     },
@@ -100,17 +154,231 @@ export const deleteApiKeyTool = {
     try {
       await recordTelemetry({ action: "delete_api_key" }, context);
       const geomi = new Geomi(context);
+      if (args.dry_run) {
+        return JSON.stringify(
+          planDeleteApiKey(await geomi.getApplications(), args),
+        );
+      }
+      const unconfirmed = await confirmDeletion(
+        "delete_geomi_api_key",
+        args,
+        context,
+        async () =>
+          describeDeletion(await geomi.getApplications(), {
+            apiKeyName: args.api_key_name,
+            applicationId: args.application_id,
+            organizationId: args.organization_id,
+            projectId: args.project_id,
+          }),
+      );
+      if (unconfirmed) {
+        return unconfirmed;
+      }
       const apiKey = await geomi.deleteApiKey({
         application_id: args.application_id,
         api_key_name: args.api_key_name,
         organization_id: args.organization_id,
         project_id: args.project_id,
       });
-      return JSON.stringify(apiKey);
+      return JSON.stringify(redactApiKeySecrets(apiKey));
     } catch (error) {
-      return `❌ Failed to delete api key: ${error}`;
+      return toToolError("delete api key", error);
     }
   },
   name: "delete_geomi_api_key",
   parameters: DeleteApiKeyToolScheme,
 };
+
+type ApiKeyReference = {
+  api_key_name: string;
+  application_id: string;
+  organization_id: string;
+  project_id: string;
+};
+
+// The key with its secret, which only the tools writing it to a file use
+const findApiKey = async (context: any, args: ApiKeyReference) => {
+  const geomi = new Geomi(context);
+  const { apiKey, application } = resolveEntities(
+    await geomi.getApplications(),
+    {
+      apiKeyName: args.api_key_name,
+      applicationId: args.application_id,
+      organizationId: args.organization_id,
+      projectId: args.project_id,
+    },
+  );
+  if (!apiKey || !application) {
+    throw new Error(`API key "${args.api_key_name}" not found`);
+  }
+  return { apiKey, application };
+};
+
+const assertEnvVarName = (name: string) => {
+  if (!isEnvVarName(name)) {
+    throw new GeomiValidationError(
+      `${name} is not a valid env var name. Use letters, digits and underscores, not starting with a digit.`,
+    );
+  }
+};
+
+/**
+ * Tool to write an API Key secret to a local file, the only way the tools
+ * reveal a secret.
+ */
+export const exportApiKeyTool = {
+  description: `Write the secret of a Geomi API Key to a local file, or set it as an env var in a dotenv file such as .env. Geomi is the essential toolkit for Aptos developers.
+    The other Geomi tools only return a redacted preview and a fingerprint of key secrets, so they do not end up in the conversation. This tool does not return the secret either: it goes straight to the file, which only the user can read. Without env_var, an existing file is only replaced when overwrite is true.`,
+  execute: async (
+    args: {
+      api_key_name: string;
+      application_id: string;
+      env_var?: string;
+      file: string;
+      organization_id: string;
+      overwrite?: boolean;
+      project_id: string;
+    },
+    context: any,
+  ) => {
+    try {
+      await recordTelemetry({ action: "export_api_key" }, context);
+      if (!isAbsolute(args.file)) {
+        throw new GeomiValidationError(
+          `The file must be an absolute path, got ${args.file}`,
+        );
+      }
+      if (args.env_var !== undefined) {
+        assertEnvVarName(args.env_var);
+      } else if (existsSync(args.file) && !args.overwrite) {
+        throw new GeomiValidationError(
+          `${args.file} already exists. Pass env_var to set the key as an entry of it, overwrite to replace it, or another file.`,
+        );
+      }
+      const { apiKey } = await findApiKey(context, args);
+
+      let content = `${apiKey.keySecret}\n`;
+      if (args.env_var) {
+        const existing = existsSync(args.file)
+          ? readFileSync(args.file, "utf8")
+          : "";
+        content = setEnvEntry(existing, args.env_var, apiKey.keySecret);
+      }
+      writeFileSync(args.file, content, { mode: 0o600 });
+      // The mode only applies to new files
+      chmodSync(args.file, 0o600);
+
+      const target = args.env_var
+        ? `${args.env_var} in ${args.file}`
+        : args.file;
+      return `Wrote API key "${apiKey.name}" (${maskSecret(apiKey.keySecret)}, ${fingerprintSecret(apiKey.keySecret)}) to ${target}. The secret is not shown here; read it from there.`;
+    } catch (error) {
+      return toToolError("export api key", error);
+    }
+  },
+  name: "export_geomi_api_key",
+  parameters: ExportApiKeyToolScheme,
+};
+
+// The env var an API key of each application type is read from by the guides
+const DEFAULT_ENV_VARS: Record<string, string> = {
+  Api: "APTOS_API_KEY",
+  Gs: "APTOS_GAS_STATION_API_KEY",
+};
+
+/**
+ * Tool to write an API Key secret into the env file of a dapp project, named
+ * the way its framework exposes env vars to the app.
+ */
+export const writeApiKeyToEnvTool = {
+  description: `Write a Geomi API Key into the .env or .env.local file of a dapp project. Geomi is the essential toolkit for Aptos developers.
+    The framework is detected from the package.json of the project, and the env var gets the prefix it needs to reach the app: VITE_ for Vite, NEXT_PUBLIC_ for Next.js and none for plain Node. Other entries of the env file are kept, the previous file is backed up next to it, and both are added to .gitignore when they are not ignored yet.
+    The secret is never returned, only written to the file.`,
+  execute: async (
+    args: ApiKeyReference & {
+      env_file?: ".env" | ".env.local";
+      env_var?: string;
+      project_dir: string;
+    },
+    context: any,
+  ) => {
+    try {
+      await recordTelemetry({ action: "write_api_key_to_env" }, context);
+      if (!isAbsolute(args.project_dir)) {
+        throw new GeomiValidationError(
+          `The project directory must be an absolute path, got ${args.project_dir}`,
+        );
+      }
+      const packageJsonPath = join(args.project_dir, "package.json");
+      if (!existsSync(packageJsonPath)) {
+        throw new GeomiValidationError(
+          `No package.json in ${args.project_dir}. Pass the root directory of the dapp project.`,
+        );
+      }
+      const framework = detectFramework(
+        JSON.parse(readFileSync(packageJsonPath, "utf8")),
+      );
+      const { apiKey, application } = await findApiKey(context, args);
+
+      const prefix = ENV_PREFIXES[framework];
+      const baseName =
+        args.env_var ??
+        DEFAULT_ENV_VARS[application.serviceType] ??
+        "APTOS_API_KEY";
+      const envVar = baseName.startsWith(prefix)
+        ? baseName
+        : `${prefix}${baseName}`;
+      assertEnvVarName(envVar);
+
+      // Vite and Next.js load .env.local and their templates ignore it
+      const envFile =
+        args.env_file ?? (framework === "node" ? ".env" : ".env.local");
+      const envPath = join(args.project_dir, envFile);
+      const backupFile = `${envFile}.bak`;
+      let existing = "";
+      if (existsSync(envPath)) {
+        existing = readFileSync(envPath, "utf8");
+        copyFileSync(envPath, join(args.project_dir, backupFile));
+        // The copy keeps the mode of the env file, which may be readable by
+        // others
+        chmodSync(join(args.project_dir, backupFile), 0o600);
+      }
+      writeFileSync(envPath, setEnvEntry(existing, envVar, apiKey.keySecret), {
+        mode: 0o600,
+      });
+      chmodSync(envPath, 0o600);
+
+      const gitignorePath = join(args.project_dir, ".gitignore");
+      const gitignore = existsSync(gitignorePath)
+        ? readFileSync(gitignorePath, "utf8")
+        : "";
+      const unignored = [envFile, backupFile].filter(
+        (file) => !isGitIgnored(gitignore, file),
+      );
+      if (unignored.length > 0) {
+        const separator =
+          gitignore === "" || gitignore.endsWith("\n") ? "" : "\n";
+        writeFileSync(
+          gitignorePath,
+          `${gitignore}${separator}${unignored.join("\n")}\n`,
+        );
+      }
+
+      return [
+        `Set ${envVar} in ${envPath} to API key "${apiKey.name}" (${maskSecret(apiKey.keySecret)}, ${fingerprintSecret(apiKey.keySecret)}) of application ${application.name}.`,
+        `- Framework: ${framework}`,
+        existing
+          ? `- The previous file, with any previous key, is now in ${join(args.project_dir, backupFile)}, replacing the last backup. Delete it once the new key works.`
+          : "- The env file is new, so there is no backup",
+        unignored.length > 0
+          ? `- Added ${unignored.join(" and ")} to .gitignore`
+          : "- The env file is already listed in .gitignore",
+        `Read the key from ${framework === "vite" ? `import.meta.env.${envVar}` : `process.env.${envVar}`} in the app. The secret is not shown here.`,
+      ].join("\n");
+    } catch (error) {
+      return toToolError("write api key to env file", error);
+    }
+  },
+  name: "write_geomi_api_key_to_env",
+  parameters: WriteApiKeyToEnvToolScheme,
+};
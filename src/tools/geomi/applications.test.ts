@@ -0,0 +1,100 @@
+import { join } from "node:path";
+
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+
+import { config } from "../../config.js";
+import { getFixtureReplayer, resetFixtures } from "../../services/fixtures.js";
+import { createGasStationApplicationTool } from "./applications.js";
+
+const FIXTURES_DIR = join(import.meta.dirname, "__fixtures__");
+
+const context = { log: { error: vi.fn(), info: vi.fn() } };
+
+const args = {
+  api_key_name: "sponsor-key",
+  name: "sponsor",
+  network: "testnet" as const,
+  organization_id: "org-1",
+  project_id: "project-1",
+};
+
+// "POST admin /createApplicationV2" style summary of the replayed requests
+const requestSequence = () =>
+  getFixtureReplayer()?.requests.map(
+    (request) => `${request.method} ${request.service} ${request.path}`,
+  );
+
+describe("create_gas_station_application", () => {
+  const botKey = config.geomi.botKey;
+
+  beforeEach(() => {
+    config.geomi.botKey = "bot-key";
+    // Telemetry is the only request allowed to reach fetch
+    vi.stubGlobal("fetch", vi.fn().mockRejectedValue(new Error("offline")));
+    resetFixtures();
+  });
+
+  afterEach(() => {
+    config.geomi.botKey = botKey;
+    config.fixtures.replay = undefined;
+    resetFixtures();
+    vi.unstubAllGlobals();
+  });
+
+  it("creates the application, API key, gas station and one rule per function", async () => {
+    config.fixtures.replay = join(
+      FIXTURES_DIR,
+      "create_gas_station_application.json",
+    );
+
+    const result = await createGasStationApplicationTool.execute(
+      {
+        ...args,
+        functions: ["0x1::counter::increment", "0x1::counter::reset"],
+      },
+      context,
+    );
+
+    expect(requestSequence()).toEqual([
+      "POST admin /createApplicationV2",
+      "POST admin /createApiKeyV2",
+      "POST gas_station /admin/application",
+      "POST gas_station /admin/rule",
+      "POST gas_station /admin/rule",
+    ]);
+    expect(getFixtureReplayer()?.remaining).toEqual([]);
+    const { application, gasStationRules } = JSON.parse(result as string);
+    expect(application.serviceType).toBe("Gs");
+    expect(gasStationRules).toHaveLength(2);
+    // Every call after the first is scoped to the new application
+    for (const request of getFixtureReplayer()?.requests.slice(1) ?? []) {
+      expect(request.headers["x-jwt-application-id"]).toBe(application.id);
+    }
+  });
+
+  it("deletes the application when a rule is rejected", async () => {
+    config.fixtures.replay = join(
+      FIXTURES_DIR,
+      "create_gas_station_application_rollback.json",
+    );
+
+    const result = await createGasStationApplicationTool.execute(
+      {
+        ...args,
+        functions: ["0x1::counter::increment", "0xzz::counter::reset"],
+      },
+      context,
+    );
+
+    expect(result).toMatchObject({ isError: true });
+    expect(requestSequence()).toEqual([
+      "POST admin /createApplicationV2",
+      "POST admin /createApiKeyV2",
+      "POST gas_station /admin/application",
+      "POST gas_station /admin/rule",
+      "POST gas_station /admin/rule",
+      "POST admin /deleteApplicationV2",
+    ]);
+    expect(getFixtureReplayer()?.remaining).toEqual([]);
+  });
+});
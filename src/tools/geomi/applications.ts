@@ -1,30 +1,57 @@
 import { z } from "zod";
-import { GasStation } from "../../services/GasStation.js";
+import type { Network } from "../../profiles.js";
+import { GeomiValidationError } from "../../services/errors.js";
+import {
+  findCreatedRules,
+  GasStation,
+  type GasStationRuleResult,
+} from "../../services/GasStation.js";
 import { Geomi } from "../../services/Geomi.js";
+import { runSaga, type Saga } from "../../services/saga.js";
 import { recordTelemetry } from "../../utils/telemetry.js";
 import {
   CreateApiResourceApplicationToolScheme,
   CreateGasStationApplicationToolScheme,
   DeleteApplicationToolScheme,
+  type GasStationRuleConfigInput,
   toApiFrontendArgs,
   UpdateApplicationNameToolScheme,
 } from "../types/organization.js";
+import { confirmDeletion, describeDeletion } from "./confirmation.js";
+import {
+  type ApiKeyNode,
+  type ApplicationNode,
+  findApplicationByName,
+  resolveEntities,
+} from "./entities.js";
+import { toToolError } from "./errors.js";
+import { describeFailedRules, retryFailedRules } from "./gasStation.js";
+import {
+  planCreateApiResourceApplication,
+  planCreateGasStationApplication,
+  planDeleteApplication,
+  planUpdateApplicationName,
+} from "./plan.js";
+import { type SponsoredFunction, toGasStationRules } from "./ruleConfig.js";
+import { redactApiKeySecrets } from "./secrets.js";
 
 /**
  * Tool to get all applications for your Geomi Organization.
  */
 export const getApplicationsTool = {
+  annotations: { readOnlyHint: true },
   description: `Get your Geomi Organizations with their projects and applications and the API Keys. Geomi is the essential toolkit for Aptos developers. Api Keys are secret keys so it is important to keep them safe and secure.
     To get the full node api keys, you need to get the Applications with a serviceType of "Api".
-    To get the gas station api keys, you need to get the Applications with a serviceType of "Gs".`,
+    To get the gas station api keys, you need to get the Applications with a serviceType of "Gs".
+    Key secrets are redacted to a preview and a fingerprint. Use export_geomi_api_key to write a key to a local file or env var.`,
   execute: async (_args: Record<string, never>, context: any) => {
     try {
       await recordTelemetry({ action: "get_applications" }, context);
       const geomi = new Geomi(context);
       const organizations = await geomi.getApplications();
-      return JSON.stringify(organizations);
+      return JSON.stringify(redactApiKeySecrets(organizations));
     } catch (error) {
-      return `❌ Failed to get organizations: ${error}`;
+      return toToolError("get organizations", error);
     }
   },
   name: "get_geomi_applications",
@@ -40,6 +67,7 @@ export const createApiResourceApplicationTool = {
   execute: async (
     args: {
       description?: string;
+      dry_run?: boolean;
       name: string;
       network: string;
       organization_id: string;
@@ -53,6 +81,11 @@ export const createApiResourceApplicationTool = {
         context,
       );
       const geomi = new Geomi(context);
+      if (args.dry_run) {
+        return JSON.stringify(
+          planCreateApiResourceApplication(await geomi.getApplications(), args),
+        );
+      }
       const application = await geomi.createApplication({
         args: {
           description: args.description ?? null,
@@ -65,98 +98,268 @@ export const createApiResourceApplicationTool = {
       });
       return JSON.stringify(application);
     } catch (error) {
-      return `❌ Failed to create application: ${error}`;
+      return toToolError("create application", error);
     }
   },
   name: "create_geomi_api_resource_application",
   parameters: CreateApiResourceApplicationToolScheme,
 };
 
+export type CreateGasStationApplicationArgs = {
+  api_key_name: string;
+  description?: string;
+  frontend_args?: Parameters<typeof toApiFrontendArgs>[0];
+  functions: SponsoredFunction[];
+  name: string;
+  network: Network;
+  on_rule_failure?: "keep" | "rollback";
+  organization_id: string;
+  project_id: string;
+  rule_config?: GasStationRuleConfigInput;
+};
+
+type CreateGasStationApplicationState = {
+  // As created, or as found again when an interrupted run is resumed
+  apiKey: ApiKeyNode;
+  application: Omit<ApplicationNode, "apiKeys">;
+  gasStation: Awaited<ReturnType<GasStation["createGasStation"]>>;
+  gasStationRules: GasStationRuleResult[];
+};
+
+// The Gas Station application of a run, as it is now
+const findGasStationApplication = async (
+  geomi: Geomi,
+  input: CreateGasStationApplicationArgs,
+) =>
+  findApplicationByName(
+    resolveEntities(await geomi.getApplications(), {
+      organizationId: input.organization_id,
+      projectId: input.project_id,
+    }).project,
+    input.name,
+    "Gs",
+  );
+
+/**
+ * Create a Gas Station application, its API key, the gas station and its
+ * rules. Deleting the application removes everything created after it.
+ */
+export const createGasStationApplicationSaga: Saga<
+  CreateGasStationApplicationArgs,
+  CreateGasStationApplicationState,
+  {
+    apiKey?: CreateGasStationApplicationState["apiKey"];
+    application?: CreateGasStationApplicationState["application"];
+    gasStation?: CreateGasStationApplicationState["gasStation"];
+    gasStationRules: GasStationRuleResult[];
+    retryFailedRules?: ReturnType<typeof retryFailedRules>;
+  }
+> = {
+  name: "create_gas_station_application",
+  result: ({ input, state }) => {
+    const gasStationRules = state.gasStationRules ?? [];
+    const allCreated = gasStationRules.every(
+      (result) => result.status === "created",
+    );
+    return {
+      application: state.application,
+      apiKey: state.apiKey,
+      gasStation: state.gasStation,
+      gasStationRules,
+      ...(!allCreated &&
+        state.application && {
+          retryFailedRules: retryFailedRules(gasStationRules, {
+            ...input,
+            application_id: state.application.id,
+          }),
+        }),
+    };
+  },
+  steps: [
+    {
+      compensate: async ({ context, input, state }) => {
+        if (state.application) {
+          await new Geomi(context).deleteApplication({
+            application_id: state.application.id,
+            organization_id: input.organization_id,
+            project_id: input.project_id,
+          });
+        }
+      },
+      name: "application",
+      recover: async ({ context, input }) => {
+        const found = await findGasStationApplication(
+          new Geomi(context),
+          input,
+        );
+        if (!found) {
+          return undefined;
+        }
+        // The keys hold their secrets
+        const { apiKeys: _apiKeys, ...application } = found;
+        return { finished: true, state: { application } };
+      },
+      run: async ({ context, input }) => ({
+        application: await new Geomi(context).createApplication({
+          args: {
+            description: input.description ?? null,
+            name: input.name,
+            network: input.network,
+            service_type: "Gs",
+          },
+          organization_id: input.organization_id,
+          project_id: input.project_id,
+        }),
+      }),
+    },
+    {
+      // Deleted with the application
+      compensate: null,
+      name: "api_key",
+      recover: async ({ context, input }) => {
+        const apiKey = (
+          await findGasStationApplication(new Geomi(context), input)
+        )?.apiKeys.find((key) => key.name === input.api_key_name);
+        return (
+          apiKey && {
+            finished: true,
+            state: { apiKey: redactApiKeySecrets(apiKey) },
+          }
+        );
+      },
+      run: async ({ context, input, state }) => ({
+        // The journal never holds the secret
+        apiKey: redactApiKeySecrets(
+          await new Geomi(context).createApiKey({
+            application_id: String(state.application?.id),
+            frontend_args: toApiFrontendArgs(input.frontend_args),
+            name: input.api_key_name,
+            organization_id: input.organization_id,
+            project_id: input.project_id,
+          }),
+        ),
+      }),
+    },
+    {
+      // Deleted with the application
+      compensate: null,
+      name: "gas_station",
+      recover: async ({ context, input, state }) => {
+        const applicationId = String(state.application?.id);
+        const found = await new GasStation(
+          context,
+          input.network,
+        ).hasGasStation({
+          application_id: applicationId,
+          organization_id: input.organization_id,
+          project_id: input.project_id,
+        });
+        // The gas station cannot be read back, only its application
+        return found
+          ? {
+              finished: true,
+              state: {
+                gasStation: {
+                  applicationId,
+                  network: input.network,
+                },
+              },
+            }
+          : undefined;
+      },
+      run: async ({ context, input, state }) => ({
+        gasStation: await new GasStation(
+          context,
+          input.network,
+        ).createGasStation({
+          application_id: String(state.application?.id),
+          organization_id: input.organization_id,
+          project_id: input.project_id,
+        }),
+      }),
+    },
+    {
+      // Deleted with the application
+      compensate: null,
+      name: "gas_station_rules",
+      // The rules that exist. The step runs again for the others.
+      recover: async ({ context, input, state }) => {
+        const rules = toGasStationRules(input.functions, input.rule_config);
+        const gasStationRules = findCreatedRules(
+          await new GasStation(context, input.network).getGasStationRules({
+            application_id: String(state.application?.id),
+            organization_id: input.organization_id,
+            project_id: input.project_id,
+          }),
+          rules,
+        );
+        return gasStationRules.length > 0
+          ? {
+              finished: gasStationRules.length === rules.length,
+              state: { gasStationRules },
+            }
+          : undefined;
+      },
+      run: async ({ context, input, state }) => {
+        const gasStationRules = await new GasStation(
+          context,
+          input.network,
+        ).createGasStationRules({
+          application_id: String(state.application?.id),
+          // Found again when the run was resumed
+          existing: (state.gasStationRules ?? []).flatMap((result) =>
+            result.status === "created" ? [result.rule] : [],
+          ),
+          organization_id: input.organization_id,
+          project_id: input.project_id,
+          rules: toGasStationRules(input.functions, input.rule_config),
+        });
+        if (
+          input.on_rule_failure !== "keep" &&
+          gasStationRules.some((result) => result.status === "failed")
+        ) {
+          throw new GeomiValidationError(
+            `${describeFailedRules(gasStationRules)}\nFix these rules, or pass on_rule_failure "keep" to keep the application with the rules that worked and retry the failed ones.`,
+          );
+        }
+        return { gasStationRules };
+      },
+    },
+  ],
+};
+
 /**
  * Tool to create a new Gas Station application for your Geomi Organization.
  */
 export const createGasStationApplicationTool = {
   description:
-    "Create a new Application for your Geomi Organization. Geomi is the essential toolkit for Aptos developers. This tool can be used to create a Gas Station application. Gas Station is a service that allows you to sponsor gas fees for your Aptos dApps users.",
+    "Create a new Application for your Geomi Organization. Geomi is the essential toolkit for Aptos developers. This tool can be used to create a Gas Station application. Gas Station is a service that allows you to sponsor gas fees for your Aptos dApps users. The secret of the new API key is redacted; use export_geomi_api_key to write it to a local file or env var. When a step fails, the application is deleted again; if that fails too, the run can be cleaned up with cleanup_geomi_provisioning_run.",
   execute: async (
-    args: {
-      api_key_name: string;
-      description?: string;
-      frontend_args?: Parameters<typeof toApiFrontendArgs>[0];
-      functions: string[];
-      name: string;
-      network: string;
-      organization_id: string;
-      project_id: string;
-    },
+    args: CreateGasStationApplicationArgs & { dry_run?: boolean },
     context: any,
   ) => {
-    const geomi = new Geomi(context);
-    let applicationId: string | null = null;
     try {
       await recordTelemetry(
         { action: "create_gas_station_application" },
         context,
       );
-      // Create the application
-      const application = await geomi.createApplication({
-        args: {
-          description: args.description ?? null,
-          name: args.name,
-          network: args.network,
-          service_type: "Gs",
-        },
-        organization_id: args.organization_id,
-        project_id: args.project_id,
-      });
-      // Store the application id so that it can be deleted if the processor creation fails.
-      applicationId = application.id;
-
-      // Create the API key for the Gs application
-      const apiKey = await geomi.createApiKey({
-        organization_id: args.organization_id,
-        project_id: args.project_id,
-        application_id: application.id,
-        frontend_args: toApiFrontendArgs(args.frontend_args),
-        name: args.api_key_name,
-      });
-
-      const gasStationService = new GasStation(
-        context,
-        args.network as "testnet" | "mainnet",
+      if (args.dry_run) {
+        const geomi = new Geomi(context);
+        return JSON.stringify(
+          planCreateGasStationApplication(await geomi.getApplications(), {
+            ...args,
+            frontend_args: toApiFrontendArgs(args.frontend_args),
+          }),
+        );
+      }
+      // Check the rules before anything is created
+      toGasStationRules(args.functions, args.rule_config);
+      const { dry_run: _, ...input } = args;
+      return JSON.stringify(
+        await runSaga(createGasStationApplicationSaga, input, context),
       );
-
-      // Create the gas station
-      const gasStation = await gasStationService.createGasStation({
-        application_id: application.id,
-        organization_id: args.organization_id,
-        project_id: args.project_id,
-      });
-
-      // Create the gas station rules
-      const gasStationRules = await gasStationService.createGasStationRules({
-        organization_id: args.organization_id,
-        project_id: args.project_id,
-        application_id: application.id,
-        functions: args.functions,
-      });
-
-      return JSON.stringify({
-        application: application,
-        apiKey: apiKey,
-        gasStation: gasStation,
-        gasStationRules: gasStationRules,
-      });
     } catch (error) {
-      // Delete the new application if the processor creation fails so that it's not orphaned.
-      if (applicationId) {
-        await geomi.deleteApplication({
-          application_id: applicationId,
-          organization_id: args.organization_id,
-          project_id: args.project_id,
-        });
-      }
-      return `❌ Failed to create Gas Station application: ${error}`;
+      return toToolError("create Gas Station application", error);
     }
   },
   name: "create_gas_station_application",
@@ -167,11 +370,14 @@ export const createGasStationApplicationTool = {
  * Tool to delete an Application for your Geomi Organization.
  */
 export const deleteApplicationTool = {
+  annotations: { destructiveHint: true },
   description:
-    "Delete an Application for your Geomi Organization. Geomi is the essential toolkit for Aptos developers.",
+    "Delete an Application for your Geomi Organization, with its API keys. Geomi is the essential toolkit for Aptos developers. The user is asked to confirm first.",
   execute: async (
     args: {
       application_id: string;
+      confirm_token?: string;
+      dry_run?: boolean;
       organization_id: string;
       project_id: string;
     },
@@ -180,6 +386,25 @@ export const deleteApplicationTool = {
     try {
       await recordTelemetry({ action: "delete_application" }, context);
       const geomi = new Geomi(context);
+      if (args.dry_run) {
+        return JSON.stringify(
+          planDeleteApplication(await geomi.getApplications(), args),
+        );
+      }
+      const unconfirmed = await confirmDeletion(
+        "delete_geomi_application",
+        args,
+        context,
+        async () =>
+          describeDeletion(await geomi.getApplications(), {
+            applicationId: args.application_id,
+            organizationId: args.organization_id,
+            projectId: args.project_id,
+          }),
+      );
+      if (unconfirmed) {
+        return unconfirmed;
+      }
       const application = await geomi.deleteApplication({
         application_id: args.application_id,
         organization_id: args.organization_id,
@@ -187,7 +412,7 @@ export const deleteApplicationTool = {
       });
       return JSON.stringify(application);
     } catch (error) {
-      return `❌ Failed to delete application: ${error}`;
+      return toToolError("delete application", error);
     }
   },
   name: "delete_geomi_application",
@@ -203,6 +428,7 @@ export const updateApplicationNameTool = {
   execute: async (
     args: {
       application_id: string;
+      dry_run?: boolean;
       new_name: string;
       organization_id: string;
       project_id: string;
@@ -212,6 +438,11 @@ export const updateApplicationNameTool = {
     try {
       await recordTelemetry({ action: "update_application_name" }, context);
       const geomi = new Geomi(context);
+      if (args.dry_run) {
+        return JSON.stringify(
+          planUpdateApplicationName(await geomi.getApplications(), args),
+        );
+      }
       const application = await geomi.updateApplicationName({
         application_id: args.application_id,
         organization_id: args.organization_id,
@@ -220,7 +451,7 @@ export const updateApplicationNameTool = {
       });
       return JSON.stringify(application);
     } catch (error) {
-      return `❌ Failed to update application name: ${error}`;
+      return toToolError("update application name", error);
     }
   },
   name: "update_geomi_application_name",
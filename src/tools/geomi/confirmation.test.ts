@@ -0,0 +1,208 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+
+import { config } from "../../config.js";
+import { GeomiNotFoundError } from "../../services/errors.js";
+import { confirmDeletion, describeDeletion } from "./confirmation.js";
+
+const organizations = [
+  {
+    Organization: {
+      id: "org-1",
+      name: "Acme",
+      Project: [
+        {
+          id: "project-1",
+          name: "dapp",
+          Application: [
+            {
+              allowedNetworks: ["mainnet"],
+              apiKeys: [
+                {
+                  createdAt: "2026-01-01T00:00:00.000Z",
+                  httpRateLimitPerIp: null,
+                  keySecret: "aptoslabs_secret",
+                  name: "web",
+                },
+              ],
+              createdAt: "2026-01-01T00:00:00.000Z",
+              id: "app-1",
+              name: "frontend",
+              serviceType: "Api",
+            },
+          ],
+        },
+      ],
+    },
+    role: "owner",
+  },
+];
+
+const args = {
+  api_key_name: "web",
+  application_id: "app-1",
+  organization_id: "org-1",
+  project_id: "project-1",
+};
+
+const describeKey = async () =>
+  describeDeletion(organizations, {
+    apiKeyName: "web",
+    applicationId: "app-1",
+    organizationId: "org-1",
+    projectId: "project-1",
+  });
+
+const unsupported = () => ({
+  elicit: vi
+    .fn()
+    .mockRejectedValue(new Error("Client does not support form elicitation.")),
+});
+
+describe("describeDeletion", () => {
+  it("shows the names and network of what is deleted", async () => {
+    const summary = await describeKey();
+
+    expect(summary).toContain('Delete API key "web"?');
+    expect(summary).toContain("- Organization: Acme (org-1)");
+    expect(summary).toContain("- Project: dapp (project-1)");
+    expect(summary).toContain("- Application: frontend (app-1, Api)");
+    expect(summary).toContain("- Network: mainnet");
+    expect(summary).not.toContain("aptoslabs_secret");
+  });
+
+  it("counts what a project deletion takes with it", () => {
+    expect(
+      describeDeletion(organizations, {
+        organizationId: "org-1",
+        projectId: "project-1",
+      }),
+    ).toContain("This also deletes 1 application and 1 API key.");
+  });
+
+  it("rejects ids that do not exist", () => {
+    expect(() =>
+      describeDeletion(organizations, {
+        applicationId: "app-2",
+        organizationId: "org-1",
+        projectId: "project-1",
+      }),
+    ).toThrow(GeomiNotFoundError);
+  });
+});
+
+describe("confirmDeletion", () => {
+  afterEach(() => {
+    config.geomi.confirm.delete_geomi_api_key = "elicit";
+  });
+
+  it("goes ahead once the user accepts the elicitation", async () => {
+    const context = {
+      elicit: vi
+        .fn()
+        .mockResolvedValue({ action: "accept", content: { confirm: true } }),
+    };
+
+    await expect(
+      confirmDeletion("delete_geomi_api_key", args, context, describeKey),
+    ).resolves.toBeUndefined();
+    expect(context.elicit.mock.calls[0][0].message).toContain(
+      'Delete API key "web"?',
+    );
+  });
+
+  it("stops when the user declines", async () => {
+    const context = {
+      elicit: vi.fn().mockResolvedValue({ action: "decline" }),
+    };
+
+    await expect(
+      confirmDeletion("delete_geomi_api_key", args, context, describeKey),
+    ).resolves.toContain("Nothing was deleted: the user did not confirm.");
+  });
+
+  it("falls back to a one-time confirm token without elicitation", async () => {
+    const first = await confirmDeletion(
+      "delete_geomi_api_key",
+      args,
+      unsupported(),
+      describeKey,
+    );
+    const token = String(first).match(/confirm_token "(\w+)"/)?.[1];
+    expect(token).toBeDefined();
+
+    // The token is bound to the arguments it was issued for
+    await expect(
+      confirmDeletion(
+        "delete_geomi_api_key",
+        { ...args, api_key_name: "other", confirm_token: token },
+        unsupported(),
+        describeKey,
+      ),
+    ).resolves.toMatchObject({ isError: true });
+
+    const second = await confirmDeletion(
+      "delete_geomi_api_key",
+      args,
+      unsupported(),
+      describeKey,
+    );
+    const secondToken = String(second).match(/confirm_token "(\w+)"/)?.[1];
+    await expect(
+      confirmDeletion(
+        "delete_geomi_api_key",
+        { ...args, confirm_token: secondToken },
+        unsupported(),
+        describeKey,
+      ),
+    ).resolves.toBeUndefined();
+    // ...and works only once
+    await expect(
+      confirmDeletion(
+        "delete_geomi_api_key",
+        { ...args, confirm_token: secondToken },
+        unsupported(),
+        describeKey,
+      ),
+    ).resolves.toMatchObject({ isError: true });
+  });
+
+  it("falls back to a confirm token when the context cannot elicit", async () => {
+    await expect(
+      confirmDeletion("delete_geomi_api_key", args, {} as never, describeKey),
+    ).resolves.toContain('confirm_token "');
+  });
+
+  it("ignores dry_run and omitted arguments when matching the token", async () => {
+    const first = await confirmDeletion(
+      "delete_geomi_api_key",
+      { ...args, dry_run: false, network: undefined },
+      unsupported(),
+      describeKey,
+    );
+    const token = String(first).match(/confirm_token "(\w+)"/)?.[1];
+
+    await expect(
+      confirmDeletion(
+        "delete_geomi_api_key",
+        { ...args, confirm_token: token },
+        unsupported(),
+        describeKey,
+      ),
+    ).resolves.toBeUndefined();
+  });
+
+  it("follows the configured mode of the tool", async () => {
+    const context = { elicit: vi.fn() };
+
+    config.geomi.confirm.delete_geomi_api_key = "token";
+    await expect(
+      confirmDeletion("delete_geomi_api_key", args, context, describeKey),
+    ).resolves.toContain("confirm_token");
+
+    config.geomi.confirm.delete_geomi_api_key = "none";
+    await expect(
+      confirmDeletion("delete_geomi_api_key", args, context, describeKey),
+    ).resolves.toBeUndefined();
+    expect(context.elicit).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,215 @@
+import { randomBytes } from "node:crypto";
+
+import type { RecursiveOrgData } from "@aptos-labs/api-gateway-admin-api-client";
+import type { ContentResult, Context, FastMCPSessionAuth } from "fastmcp";
+import { config } from "../../config.js";
+import type { ConfirmableTool } from "../../config-file.js";
+import {
+  type ApplicationNode,
+  type EntityIds,
+  resolveEntities,
+} from "./entities.js";
+
+// How long a confirm token from the two-step fallback stays valid
+export const CONFIRM_TOKEN_TTL_MS = 5 * 60 * 1000;
+
+type PendingConfirmation = {
+  expiresAt: number;
+  key: string;
+};
+
+const pendingConfirmations = new Map<string, PendingConfirmation>();
+
+const plural = (count: number, noun: string) =>
+  `${count} ${noun}${count === 1 ? "" : "s"}`;
+
+const entityLines = (
+  organization: { id: string; name: string },
+  project: { id: string; name: string },
+) => [
+  `- Organization: ${organization.name} (${organization.id})`,
+  `- Project: ${project.name} (${project.id})`,
+];
+
+const applicationLines = (application: ApplicationNode) => [
+  `- Application: ${application.name} (${application.id}, ${application.serviceType})`,
+  `- Network: ${application.allowedNetworks.join(", ")}`,
+];
+
+/**
+ * Resolve the ids of a deletion to names, so the user confirms what is about
+ * to be deleted rather than a list of ids. Fails when any id does not exist.
+ */
+export function describeDeletion(
+  organizations: RecursiveOrgData[],
+  ids: EntityIds & { projectId: string },
+): string {
+  const { apiKey, application, organization, project } = resolveEntities(
+    organizations,
+    ids,
+  );
+  if (!project) {
+    throw new Error("describeDeletion needs a project id");
+  }
+  const lines = entityLines(organization, project);
+
+  if (!application) {
+    const applications = project.Application;
+    const networks = [
+      ...new Set(applications.flatMap((app) => app.allowedNetworks)),
+    ];
+    const apiKeys = applications.flatMap((app) => app.apiKeys);
+    return [
+      `Delete project "${project.name}"?`,
+      ...lines,
+      `- Networks: ${networks.join(", ") || "none"}`,
+      `- Applications: ${applications.map((app) => `${app.name} (${app.serviceType})`).join(", ") || "none"}`,
+      `This also deletes ${plural(applications.length, "application")} and ${plural(apiKeys.length, "API key")}. It cannot be undone.`,
+    ].join("\n");
+  }
+
+  lines.push(...applicationLines(application));
+  if (!apiKey) {
+    return [
+      `Delete application "${application.name}"?`,
+      ...lines,
+      `This also deletes its ${plural(application.apiKeys.length, "API key")}. It cannot be undone.`,
+    ].join("\n");
+  }
+
+  return [
+    `Delete API key "${apiKey.name}"?`,
+    ...lines,
+    `- API key: ${apiKey.name} (created ${apiKey.createdAt})`,
+    "Apps using this key stop working. It cannot be undone.",
+  ].join("\n");
+}
+
+/**
+ * Like describeDeletion, for the rule of a Gas Station application that
+ * sponsors `contractFunction`.
+ */
+export function describeRuleDeletion(
+  organizations: RecursiveOrgData[],
+  ids: EntityIds & { applicationId: string; projectId: string },
+  contractFunction: string,
+): string {
+  const { application, organization, project } = resolveEntities(
+    organizations,
+    ids,
+  );
+  if (!project || !application) {
+    throw new Error("describeRuleDeletion needs a project and application id");
+  }
+  return [
+    `Delete the gas station rule of ${contractFunction}?`,
+    ...entityLines(organization, project),
+    ...applicationLines(application),
+    "The gas station stops paying the gas of this function for your users. It cannot be undone.",
+  ].join("\n");
+}
+
+// The same tool with the same arguments, whatever their order. dry_run and
+// omitted arguments do not change what is deleted.
+const confirmationKey = (tool: string, args: Record<string, unknown>) =>
+  `${tool}:${JSON.stringify(
+    Object.entries(args)
+      .filter(([name, value]) => name !== "dry_run" && value !== undefined)
+      .sort(([a], [b]) => a.localeCompare(b)),
+  )}`;
+
+const issueToken = (key: string): string => {
+  const now = Date.now();
+  for (const [token, pending] of pendingConfirmations) {
+    if (pending.expiresAt < now) {
+      pendingConfirmations.delete(token);
+    }
+  }
+  const token = randomBytes(6).toString("hex");
+  pendingConfirmations.set(token, {
+    expiresAt: now + CONFIRM_TOKEN_TTL_MS,
+    key,
+  });
+  return token;
+};
+
+// Tokens work once, and only for the call they were issued for
+const consumeToken = (token: string, key: string): boolean => {
+  const pending = pendingConfirmations.get(token);
+  pendingConfirmations.delete(token);
+  return pending?.key === key && pending.expiresAt >= Date.now();
+};
+
+// Clients without the elicitation capability, or that do not know the method
+const isElicitationUnsupported = (error: unknown) =>
+  error instanceof Error &&
+  (/does not support .*elicitation/i.test(error.message) ||
+    ("code" in error && error.code === -32601));
+
+/**
+ * Ask the user to confirm a deletion before it runs, as configured for the
+ * tool in `config.geomi.confirm`. Clients that support MCP elicitation show a
+ * confirmation form. Other clients get the summary and a one-time confirm
+ * token, which the agent passes back as `confirm_token` once the user agreed.
+ * @returns undefined when the deletion may go ahead, otherwise the result to
+ * return from the tool
+ */
+export async function confirmDeletion(
+  tool: ConfirmableTool,
+  { confirm_token: token, ...args }: Record<string, unknown>,
+  context: Pick<Context<FastMCPSessionAuth>, "elicit">,
+  describe: () => Promise<string>,
+): Promise<ContentResult | string | undefined> {
+  const mode = config.geomi.confirm[tool];
+  if (mode === "none") {
+    return undefined;
+  }
+
+  const key = confirmationKey(tool, args);
+  if (typeof token === "string" && token) {
+    if (consumeToken(token, key)) {
+      return undefined;
+    }
+    return {
+      content: [
+        {
+          text: `❌ The confirm token is invalid, expired or was issued for different arguments. Nothing was deleted. Call ${tool} again without confirm_token to get a new one.`,
+          type: "text",
+        },
+      ],
+      isError: true,
+    };
+  }
+
+  const summary = await describe();
+  // Without elicit on the context, e.g. under an older fastmcp, fall back to
+  // the token too
+  if (mode === "elicit" && typeof context.elicit === "function") {
+    try {
+      const result = await context.elicit({
+        message: summary,
+        requestedSchema: {
+          properties: {
+            confirm: {
+              description: "Check to delete. This cannot be undone.",
+              title: "Delete",
+              type: "boolean",
+            },
+          },
+          required: ["confirm"],
+          type: "object",
+        },
+      });
+      if (result.action === "accept" && result.content?.confirm === true) {
+        return undefined;
+      }
+      return `Nothing was deleted: the user did not confirm.\n\n${summary}`;
+    } catch (error) {
+      if (!isElicitationUnsupported(error)) {
+        throw error;
+      }
+    }
+  }
+
+  return `${summary}\n\nNothing was deleted yet. Show this to the user and ask them to confirm. If they do, call ${tool} again with the same arguments and confirm_token "${issueToken(key)}". The token works once and expires in ${CONFIRM_TOKEN_TTL_MS / 60_000} minutes.`;
+}
@@ -0,0 +1,423 @@
+import { readdirSync, writeFileSync } from "node:fs";
+import { join } from "node:path";
+
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+
+import { config } from "../../config.js";
+import {
+  installTestSandbox,
+  TEST_SANDBOX_URL,
+  type TestSandbox,
+} from "../../sandbox/testing.js";
+import { GasStation, toGasStationRule } from "../../services/GasStation.js";
+import { Geomi } from "../../services/Geomi.js";
+import { getApplicationsTool } from "./applications.js";
+import { provisionDappTool } from "./dapp.js";
+import { getGasStationRulesTool } from "./gasStation.js";
+import { createOrganizationTool } from "./organization.js";
+import { resumeProvisioningRunTool } from "./provisioning.js";
+
+const context = { log: { error: vi.fn(), info: vi.fn() } };
+
+type ApplicationIds = {
+  application_id: string;
+  organization_id: string;
+  project_id: string;
+};
+
+const parse = async (result: Promise<unknown>) =>
+  JSON.parse((await result) as string);
+
+describe("provision_geomi_dapp", () => {
+  let args: {
+    allowed_origins: string[];
+    functions: string[];
+    networks: ("mainnet" | "testnet")[];
+    organization_id: string;
+    project_name: string;
+  };
+  let failGasStations: boolean;
+  let sandbox: TestSandbox;
+  // The Geomi requests that change something, as "<method> <url>"
+  let writes: string[];
+
+  // Names of the applications of the project, and of their keys
+  const listApplications = async () => {
+    const [membership] = await parse(getApplicationsTool.execute({}, context));
+    return membership.Organization.Project.map(
+      (project: {
+        Application: { apiKeys: { name: string }[]; name: string }[];
+        name: string;
+      }) => ({
+        applications: project.Application.map(
+          (application) =>
+            `${application.name}: ${application.apiKeys.map((key) => key.name).join(", ")}`,
+        ),
+        name: project.name,
+      }),
+    );
+  };
+
+  beforeEach(async () => {
+    failGasStations = false;
+    writes = [];
+    sandbox = installTestSandbox({
+      wrapFetch: (fetch) => (input, init) => {
+        const method = init?.method ?? "GET";
+        if (method !== "GET" && String(input).startsWith(TEST_SANDBOX_URL)) {
+          writes.push(`${method} ${String(input).split("?")[0]}`);
+        }
+        return failGasStations && String(input).endsWith("/admin/application")
+          ? Promise.resolve(new Response("unavailable", { status: 400 }))
+          : fetch(input, init);
+      },
+    });
+    const organization = await parse(
+      createOrganizationTool.execute({ name: "acme" }, context),
+    );
+    args = {
+      allowed_origins: ["https://app.example.com"],
+      functions: ["0x1::counter::increment"],
+      networks: ["testnet", "mainnet"],
+      organization_id: organization.id,
+      project_name: "dapp",
+    };
+  });
+
+  afterEach(() => {
+    sandbox.restore();
+  });
+
+  it("creates the project, API keys and gas stations of every network", async () => {
+    const summary = await parse(provisionDappTool.execute(args, context));
+
+    expect(summary.project).toMatchObject({ created: true, name: "dapp" });
+    expect(summary.networks.testnet).toMatchObject({
+      apiApplication: { created: true, name: "api-testnet" },
+      apiKey: { created: true, name: "web" },
+      gasStation: {
+        application: { created: true, name: "gas-station-testnet" },
+        gasStationRules: [{ status: "created" }],
+      },
+    });
+    const secrets = JSON.stringify(summary).match(/"keySecret":"[^"]*"/g);
+    expect(secrets).toHaveLength(4);
+    for (const secret of secrets ?? []) {
+      expect(secret).toContain("…");
+    }
+    expect(await listApplications()).toEqual([
+      {
+        applications: [
+          "api-testnet: web",
+          "gas-station-testnet: web",
+          "api-mainnet: web",
+          "gas-station-mainnet: web",
+        ],
+        name: "dapp",
+      },
+    ]);
+  });
+
+  it("reuses what exists and only adds what is missing", async () => {
+    await provisionDappTool.execute(
+      { ...args, networks: ["testnet"] },
+      context,
+    );
+
+    const summary = await parse(
+      provisionDappTool.execute(
+        { ...args, functions: [...args.functions, "0x1::counter::reset"] },
+        context,
+      ),
+    );
+
+    expect(summary.project.created).toBe(false);
+    expect(summary.networks.testnet).toMatchObject({
+      apiApplication: { created: false },
+      apiKey: { created: false },
+      gasStation: {
+        application: { created: false },
+        existingRules: ["0x1::counter::increment"],
+        gasStationRules: [
+          { function: "0x1::counter::reset", status: "created" },
+        ],
+      },
+    });
+    expect(summary.networks.mainnet.apiApplication.created).toBe(true);
+    const station = {
+      application_id: summary.networks.testnet.gasStation.application.id,
+      network: "testnet",
+      organization_id: args.organization_id,
+      project_id: summary.project.id,
+    };
+    expect(
+      (await parse(getGasStationRulesTool.execute(station, context))).length,
+    ).toBe(2);
+  });
+
+  it("plans only the calls for what is missing on a dry run", async () => {
+    await provisionDappTool.execute(
+      { ...args, networks: ["testnet"] },
+      context,
+    );
+
+    const plan = await parse(
+      provisionDappTool.execute({ ...args, dry_run: true }, context),
+    );
+
+    expect(plan.affected.reused).toEqual([
+      "project dapp",
+      "application api-testnet",
+      "api key web of api-testnet",
+      "application gas-station-testnet",
+      "api key web of gas-station-testnet",
+      "gas station rule 0x1::counter::increment of gas-station-testnet",
+    ]);
+    expect(
+      plan.calls.map((call: { operation: string }) => call.operation),
+    ).toEqual([
+      "createApplicationV2",
+      "createApiKeyV2",
+      "createApplicationV2",
+      "createApiKeyV2",
+      "POST /admin/application",
+      "POST /admin/rule",
+    ]);
+  });
+
+  it("makes the calls the dry run plans, down to a missing key of a reused gas station", async () => {
+    const first = await parse(
+      provisionDappTool.execute({ ...args, networks: ["testnet"] }, context),
+    );
+    await new Geomi(context as never).deleteApiKey({
+      api_key_name: "web",
+      application_id: first.networks.testnet.gasStation.application.id,
+      organization_id: args.organization_id,
+      project_id: first.project.id,
+    });
+    const run = {
+      ...args,
+      functions: [...args.functions, "0x1::counter::reset"],
+    };
+
+    const plan = await parse(
+      provisionDappTool.execute({ ...run, dry_run: true }, context),
+    );
+    writes = [];
+    const summary = await parse(provisionDappTool.execute(run, context));
+
+    expect(writes).toEqual(
+      plan.calls.map(
+        (call: { method: string; url: string }) => `${call.method} ${call.url}`,
+      ),
+    );
+    expect(summary.networks.testnet.gasStation.apiKey).toMatchObject({
+      created: true,
+      name: "web",
+    });
+    expect(await listApplications()).toEqual([
+      {
+        applications: [
+          "api-testnet: web",
+          "gas-station-testnet: web",
+          "api-mainnet: web",
+          "gas-station-mainnet: web",
+        ],
+        name: "dapp",
+      },
+    ]);
+  });
+
+  // A testnet run that stopped while `step` ran. The project and the API
+  // application and key were done; `setUp` creates what the gas station
+  // steps had created, and returns what the journal holds of it.
+  const interruptRun = async (
+    step: string,
+    completed: string[],
+    setUp: (ids: ApplicationIds) => Promise<Record<string, unknown>>,
+  ) => {
+    const input = {
+      ...args,
+      functions: [...args.functions, "0x1::counter::reset"],
+      networks: ["testnet"],
+    };
+    const { networks, project } = await parse(
+      provisionDappTool.execute({ ...input, functions: [] }, context),
+    );
+    const application = await new Geomi(context as never).createApplication({
+      args: {
+        description: null,
+        name: "gas-station-testnet",
+        network: "testnet",
+        service_type: "Gs",
+      },
+      organization_id: args.organization_id,
+      project_id: project.id,
+    });
+    const gasStation = await setUp({
+      application_id: application.id,
+      organization_id: args.organization_id,
+      project_id: project.id,
+    });
+    const id = "7d0c5d0e-3f0b-4d5e-9a51-5f6d1e2c3b4a";
+    writeFileSync(
+      join(config.journal.dir, `${id}.json`),
+      JSON.stringify({
+        compensated: [],
+        completed: [
+          "existing",
+          "project",
+          "api_application:testnet",
+          "api_key:testnet",
+          ...completed,
+        ],
+        failures: [],
+        id,
+        input,
+        profile: config.profile.name,
+        saga: "provision_geomi_dapp",
+        startedAt: "2026-01-01T00:00:00.000Z",
+        state: {
+          existing: { applications: {}, rules: {} },
+          networks: {
+            testnet: {
+              ...networks.testnet,
+              gasStation: {
+                application: {
+                  created: true,
+                  id: application.id,
+                  name: "gas-station-testnet",
+                },
+                ...gasStation,
+              },
+            },
+          },
+          project,
+        },
+        status: "running",
+        step,
+        updatedAt: "2026-01-01T00:00:00.000Z",
+      }),
+    );
+    return id;
+  };
+
+  // Finishing the run leaves the dApp as a run without interruption would
+  const expectFinished = async (resumed: {
+    result: { networks: { testnet: { gasStation: unknown } } };
+    warning?: string;
+  }) => {
+    expect(resumed.warning).toBeUndefined();
+    expect(resumed.result.networks.testnet.gasStation).toMatchObject({
+      apiKey: { created: true, name: "web" },
+      application: { created: true, name: "gas-station-testnet" },
+      gasStationRules: [
+        { function: "0x1::counter::increment", status: "created" },
+        { function: "0x1::counter::reset", status: "created" },
+      ],
+    });
+    expect(resumed.result.networks.testnet.gasStation).not.toHaveProperty(
+      "retryFailedRules",
+    );
+    expect(readdirSync(config.journal.dir)).toEqual([]);
+    expect(await listApplications()).toEqual([
+      {
+        applications: ["api-testnet: web", "gas-station-testnet: web"],
+        name: "dapp",
+      },
+    ]);
+  };
+
+  const createKey = (ids: ApplicationIds) =>
+    new Geomi(context as never).createApiKey({
+      ...ids,
+      frontend_args: null,
+      name: "web",
+    });
+
+  it("resumes a run from its one journal, gas station steps included", async () => {
+    // The process stopped after the gas station application was created,
+    // before the journal recorded it
+    const id = await interruptRun("gas_station_application:testnet", [], () =>
+      Promise.resolve({}),
+    );
+
+    const resumed = await parse(
+      resumeProvisioningRunTool.execute({ run_id: id }, context),
+    );
+
+    expect(resumed.interruptedStep).toEqual({
+      name: "gas_station_application:testnet",
+      outcome: "recovered",
+    });
+    await expectFinished(resumed);
+  });
+
+  it("resumes a run whose gas station was created without creating it again", async () => {
+    const id = await interruptRun(
+      "gas_station:testnet",
+      ["gas_station_application:testnet", "gas_station_api_key:testnet"],
+      async (ids) => {
+        await createKey(ids);
+        await new GasStation(context as never, "testnet").createGasStation(ids);
+        return { apiKey: { created: true, keySecret: "…", name: "web" } };
+      },
+    );
+
+    const resumed = await parse(
+      resumeProvisioningRunTool.execute({ run_id: id }, context),
+    );
+
+    expect(resumed.interruptedStep).toEqual({
+      name: "gas_station:testnet",
+      outcome: "recovered",
+    });
+    await expectFinished(resumed);
+  });
+
+  it("resumes a run that created some rules by creating only the others", async () => {
+    const id = await interruptRun(
+      "gas_station_rules:testnet",
+      [
+        "gas_station_application:testnet",
+        "gas_station_api_key:testnet",
+        "gas_station:testnet",
+      ],
+      async (ids) => {
+        await createKey(ids);
+        const gasStation = new GasStation(context as never, "testnet");
+        await gasStation.createGasStation(ids);
+        await gasStation.createGasStationRules({
+          ...ids,
+          rules: [toGasStationRule("0x1::counter::reset")],
+        });
+        return { apiKey: { created: true, keySecret: "…", name: "web" } };
+      },
+    );
+
+    const resumed = await parse(
+      resumeProvisioningRunTool.execute({ run_id: id }, context),
+    );
+
+    expect(resumed.interruptedStep).toEqual({
+      name: "gas_station_rules:testnet",
+      outcome: "continued",
+    });
+    await expectFinished(resumed);
+  });
+
+  it("deletes what it created when a step fails, and keeps what it reused", async () => {
+    await provisionDappTool.execute(
+      { ...args, functions: [], networks: ["testnet"] },
+      context,
+    );
+    failGasStations = true;
+
+    const result = await provisionDappTool.execute(args, context);
+
+    expect(result).toMatchObject({ isError: true });
+    expect(await listApplications()).toEqual([
+      { applications: ["api-testnet: web"], name: "dapp" },
+    ]);
+  });
+});
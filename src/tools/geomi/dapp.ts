@@ -0,0 +1,612 @@
+import type { RecursiveOrgData } from "@aptos-labs/api-gateway-admin-api-client";
+
+import type { Network } from "../../profiles.js";
+import {
+  findCreatedRules,
+  formatGasStationRuleId,
+  GasStation,
+  type GasStationRule,
+  type GasStationRuleResult,
+  getGasStationEndpoint,
+  isSameGasStationRule,
+} from "../../services/GasStation.js";
+import { Geomi } from "../../services/Geomi.js";
+import {
+  runSaga,
+  type Saga,
+  type SagaContext,
+  type SagaStep,
+} from "../../services/saga.js";
+import { recordTelemetry } from "../../utils/telemetry.js";
+import {
+  type GasStationRuleConfigInput,
+  ProvisionDappToolScheme,
+  toApiFrontendArgs,
+} from "../types/organization.js";
+import {
+  DAPP_API_KEY_NAME,
+  dappApplicationName,
+  findApplicationByName,
+  type ProjectNode,
+  resolveEntities,
+} from "./entities.js";
+import { toToolError } from "./errors.js";
+import { retryFailedRules } from "./gasStation.js";
+import { planProvisionDapp } from "./plan.js";
+import { type SponsoredFunction, toGasStationRules } from "./ruleConfig.js";
+import { redactApiKeySecrets } from "./secrets.js";
+
+export type ProvisionDappArgs = {
+  allowed_origins?: string[];
+  functions?: SponsoredFunction[];
+  networks: Network[];
+  organization_id: string;
+  project_description?: string;
+  project_name: string;
+  rule_config?: GasStationRuleConfigInput;
+};
+
+// Whether the run created the entity, so only those are undone
+type ProvisionedEntity = { created: boolean; id: string; name: string };
+
+type ProvisionedApiKey = { created: boolean; keySecret: string; name: string };
+
+type ProvisionedGasStation = {
+  application?: ProvisionedEntity;
+  apiKey?: ProvisionedApiKey;
+  // Rules the gas station already had, which are left as they are
+  existingRules?: string[];
+  gasStationRules?: GasStationRuleResult[];
+  retryFailedRules?: ReturnType<typeof retryFailedRules>;
+};
+
+type ProvisionedNetwork = {
+  apiApplication?: ProvisionedEntity;
+  apiKey?: ProvisionedApiKey;
+  gasStation?: ProvisionedGasStation;
+};
+
+// The entities of the dApp that existed before the run. Steps reuse them,
+// and a resumed step knows that whatever else it finds, the run created.
+type ExistingEntities = {
+  // By application name, with their keys redacted
+  applications: Record<
+    string,
+    { apiKeys: { keySecret: string; name: string }[]; id: string }
+  >;
+  project?: { id: string; name: string };
+  // The rules of the gas stations, by network
+  rules: Partial<Record<Network, GasStationRule["id"][]>>;
+};
+
+type ProvisionDappState = {
+  existing: ExistingEntities;
+  networks: Partial<Record<Network, ProvisionedNetwork>>;
+  project: ProvisionedEntity;
+};
+
+type DappStep = SagaStep<ProvisionDappArgs, ProvisionDappState>;
+
+type ApplicationKind = "api" | "gas-station";
+
+const SERVICE_TYPES = { api: "Api", "gas-station": "Gs" } as const;
+
+// Web origins become the allow list of the API keys
+const frontendArgs = (
+  args: ProvisionDappArgs,
+): Parameters<typeof toApiFrontendArgs>[0] =>
+  args.allowed_origins?.length
+    ? {
+        enforce_origin: true,
+        extension_ids: [],
+        per_ip_limit_rules: [],
+        per_ip_stream_limit: null,
+        web_app_urls: args.allowed_origins,
+      }
+    : undefined;
+
+const findProject = (
+  organizations: RecursiveOrgData[],
+  args: ProvisionDappArgs,
+) =>
+  resolveEntities(organizations, {
+    organizationId: args.organization_id,
+  }).organization.Project.find((project) => project.name === args.project_name);
+
+// Read the project as it is now, so a resumed run sees what it created
+const getProject = async (geomi: Geomi, args: ProvisionDappArgs) =>
+  findProject(await geomi.getApplications(), args);
+
+const withNetwork = (
+  state: Partial<ProvisionDappState>,
+  network: Network,
+  update: ProvisionedNetwork,
+): Partial<ProvisionDappState> => ({
+  networks: {
+    ...state.networks,
+    [network]: { ...state.networks?.[network], ...update },
+  },
+});
+
+const withGasStation = (
+  state: Partial<ProvisionDappState>,
+  network: Network,
+  update: ProvisionedGasStation,
+) =>
+  withNetwork(state, network, {
+    gasStation: { ...state.networks?.[network]?.gasStation, ...update },
+  });
+
+// The application of a kind on a network and its key, as provisioned so far
+const provisionedApplication = (
+  state: Partial<ProvisionDappState>,
+  kind: ApplicationKind,
+  network: Network,
+) => {
+  const provisioned = state.networks?.[network];
+  return kind === "api"
+    ? { apiKey: provisioned?.apiKey, application: provisioned?.apiApplication }
+    : {
+        apiKey: provisioned?.gasStation?.apiKey,
+        application: provisioned?.gasStation?.application,
+      };
+};
+
+const ids = (args: ProvisionDappArgs, state: Partial<ProvisionDappState>) => ({
+  organization_id: args.organization_id,
+  project_id: String(state.project?.id),
+});
+
+// The rules of the gas stations that exist, by network
+const getExistingRules = async (
+  context: SagaContext,
+  project: ProjectNode | undefined,
+  args: ProvisionDappArgs,
+): Promise<Partial<Record<Network, GasStationRule[]>>> => {
+  const entries = await Promise.all(
+    args.networks.map(async (network) => {
+      const application = findApplicationByName(
+        project,
+        dappApplicationName("gas-station", network),
+        "Gs",
+      );
+      if (!project || !application || !args.functions?.length) {
+        return [network, []] as const;
+      }
+      const rules = await new GasStation(context, network).getGasStationRules({
+        application_id: application.id,
+        organization_id: args.organization_id,
+        project_id: project.id,
+      });
+      return [network, rules] as const;
+    }),
+  );
+  return Object.fromEntries(entries);
+};
+
+// Records what exists before anything is created. Also fails early when an
+// application name is taken by another service type.
+const existingStep: DappStep = {
+  compensate: null,
+  name: "existing",
+  run: async ({ context, input }) => {
+    const project = findProject(
+      await new Geomi(context).getApplications(),
+      input,
+    );
+    const kinds: ApplicationKind[] = input.functions?.length
+      ? ["api", "gas-station"]
+      : ["api"];
+    const applications: ExistingEntities["applications"] = {};
+    for (const network of input.networks) {
+      for (const kind of kinds) {
+        const name = dappApplicationName(kind, network);
+        const application = findApplicationByName(
+          project,
+          name,
+          SERVICE_TYPES[kind],
+        );
+        if (application) {
+          applications[name] = {
+            apiKeys: redactApiKeySecrets(
+              application.apiKeys.map(({ keySecret, name }) => ({
+                keySecret,
+                name,
+              })),
+            ),
+            id: application.id,
+          };
+        }
+      }
+    }
+    const rules = await getExistingRules(context, project, input);
+    return {
+      existing: {
+        applications,
+        project: project && { id: project.id, name: project.name },
+        rules: Object.fromEntries(
+          Object.entries(rules).map(([network, networkRules]) => [
+            network,
+            networkRules.map((rule) => rule.id),
+          ]),
+        ),
+      },
+    };
+  },
+};
+
+const projectStep: DappStep = {
+  compensate: async ({ context, input, state }) => {
+    if (state.project?.created) {
+      await new Geomi(context).deleteProject(ids(input, state));
+    }
+  },
+  name: "project",
+  recover: async ({ context, input, state }) => {
+    const existing = state.existing?.project;
+    if (existing) {
+      return {
+        finished: true,
+        state: { project: { created: false, ...existing } },
+      };
+    }
+    const project = await getProject(new Geomi(context), input);
+    return (
+      project && {
+        finished: true,
+        state: {
+          project: { created: true, id: project.id, name: project.name },
+        },
+      }
+    );
+  },
+  run: async ({ context, input, state }) => {
+    const existing = state.existing?.project;
+    if (existing) {
+      return { project: { created: false, ...existing } };
+    }
+    const project = await new Geomi(context).createProject({
+      description: input.project_description ?? "",
+      organization_id: input.organization_id,
+      project_name: input.project_name,
+    });
+    return { project: { created: true, id: project.id, name: project.name } };
+  },
+};
+
+const applicationStep = (kind: ApplicationKind, network: Network): DappStep => {
+  const name = dappApplicationName(kind, network);
+  const provisioned = (
+    state: Partial<ProvisionDappState>,
+    application: ProvisionedEntity,
+  ) =>
+    kind === "api"
+      ? withNetwork(state, network, { apiApplication: application })
+      : withGasStation(state, network, { application });
+  return {
+    compensate: async ({ context, input, state }) => {
+      const { application } = provisionedApplication(state, kind, network);
+      if (application?.created) {
+        await new Geomi(context).deleteApplication({
+          ...ids(input, state),
+          application_id: application.id,
+        });
+      }
+    },
+    name: `${kind === "api" ? "api" : "gas_station"}_application:${network}`,
+    recover: async ({ context, input, state }) => {
+      const existing = state.existing?.applications[name];
+      if (existing) {
+        return {
+          finished: true,
+          state: provisioned(state, {
+            created: false,
+            id: existing.id,
+            name,
+          }),
+        };
+      }
+      const application = findApplicationByName(
+        await getProject(new Geomi(context), input),
+        name,
+        SERVICE_TYPES[kind],
+      );
+      return (
+        application && {
+          finished: true,
+          state: provisioned(state, {
+            created: true,
+            id: application.id,
+            name,
+          }),
+        }
+      );
+    },
+    run: async ({ context, input, state }) => {
+      const existing = state.existing?.applications[name];
+      if (existing) {
+        return provisioned(state, { created: false, id: existing.id, name });
+      }
+      const application = await new Geomi(context).createApplication({
+        ...ids(input, state),
+        args: {
+          description: null,
+          name,
+          network,
+          service_type: SERVICE_TYPES[kind],
+        },
+      });
+      return provisioned(state, { created: true, id: application.id, name });
+    },
+  };
+};
+
+const apiKeyStep = (kind: ApplicationKind, network: Network): DappStep => {
+  const existingKey = (state: Partial<ProvisionDappState>) =>
+    state.existing?.applications[
+      dappApplicationName(kind, network)
+    ]?.apiKeys.find((apiKey) => apiKey.name === DAPP_API_KEY_NAME);
+  // The journal never holds the secret
+  const provisioned = (
+    state: Partial<ProvisionDappState>,
+    created: boolean,
+    { keySecret, name }: { keySecret: string; name: string },
+  ) => {
+    const apiKey = { created, ...redactApiKeySecrets({ keySecret, name }) };
+    return kind === "api"
+      ? withNetwork(state, network, { apiKey })
+      : withGasStation(state, network, { apiKey });
+  };
+  return {
+    compensate: async ({ context, input, state }) => {
+      const { apiKey, application } = provisionedApplication(
+        state,
+        kind,
+        network,
+      );
+      // Keys of a new application are deleted with it
+      if (apiKey?.created && application && !application.created) {
+        await new Geomi(context).deleteApiKey({
+          ...ids(input, state),
+          api_key_name: apiKey.name,
+          application_id: application.id,
+        });
+      }
+    },
+    name: `${kind === "api" ? "" : "gas_station_"}api_key:${network}`,
+    recover: async ({ context, input, state }) => {
+      const existing = existingKey(state);
+      if (existing) {
+        return { finished: true, state: provisioned(state, false, existing) };
+      }
+      const { application } = provisionedApplication(state, kind, network);
+      const apiKey = (
+        await getProject(new Geomi(context), input)
+      )?.Application.find(
+        (candidate) => candidate.id === application?.id,
+      )?.apiKeys.find((candidate) => candidate.name === DAPP_API_KEY_NAME);
+      return (
+        apiKey && { finished: true, state: provisioned(state, true, apiKey) }
+      );
+    },
+    run: async ({ context, input, state }) => {
+      const existing = existingKey(state);
+      if (existing) {
+        return provisioned(state, false, existing);
+      }
+      const { application } = provisionedApplication(state, kind, network);
+      const apiKey = await new Geomi(context).createApiKey({
+        ...ids(input, state),
+        application_id: String(application?.id),
+        frontend_args: toApiFrontendArgs(frontendArgs(input)),
+        name: DAPP_API_KEY_NAME,
+      });
+      return provisioned(state, true, apiKey);
+    },
+  };
+};
+
+const gasStationStep = (network: Network): DappStep => ({
+  // Deleted with its application
+  compensate: null,
+  name: `gas_station:${network}`,
+  recover: async ({ context, input, state }) => {
+    const application = state.networks?.[network]?.gasStation?.application;
+    const found =
+      !application?.created ||
+      (await new GasStation(context, network).hasGasStation({
+        ...ids(input, state),
+        application_id: application.id,
+      }));
+    return found ? { finished: true, state: {} } : undefined;
+  },
+  run: async ({ context, input, state }) => {
+    const application = state.networks?.[network]?.gasStation?.application;
+    // A reused Gas Station application has its gas station already
+    if (application?.created) {
+      await new GasStation(context, network).createGasStation({
+        ...ids(input, state),
+        application_id: application.id,
+      });
+    }
+    return {};
+  },
+});
+
+const gasStationRulesStep = (network: Network): DappStep => {
+  // Only the functions the gas station does not sponsor yet
+  const newRules = (
+    input: ProvisionDappArgs,
+    state: Partial<ProvisionDappState>,
+  ) => {
+    const existingRules = state.existing?.rules[network] ?? [];
+    const functions = input.functions ?? [];
+    const rules = toGasStationRules(functions, input.rule_config);
+    const isNew = (rule: GasStationRule) =>
+      !existingRules.some((id) => isSameGasStationRule(id, rule.id));
+    return {
+      applicationIds: {
+        ...ids(input, state),
+        application_id: String(
+          state.networks?.[network]?.gasStation?.application?.id,
+        ),
+      },
+      existingRules: existingRules.map(formatGasStationRuleId),
+      functions: functions.filter((_, index) => isNew(rules[index])),
+      rules: rules.filter(isNew),
+    };
+  };
+  return {
+    compensate: async ({ context, input, state }) => {
+      const gasStation = state.networks?.[network]?.gasStation;
+      // Rules of a new application are deleted with it
+      if (!gasStation?.application || gasStation.application.created) {
+        return;
+      }
+      const service = new GasStation(context, network);
+      for (const result of gasStation.gasStationRules ?? []) {
+        if (result.status === "created") {
+          await service.deleteGasStationRule({
+            ...ids(input, state),
+            application_id: gasStation.application.id,
+            id: result.rule.id,
+          });
+        }
+      }
+    },
+    name: `gas_station_rules:${network}`,
+    // The new rules that exist. The step runs again for the others.
+    recover: async ({ context, input, state }) => {
+      const { applicationIds, existingRules, rules } = newRules(input, state);
+      const gasStationRules = findCreatedRules(
+        await new GasStation(context, network).getGasStationRules(
+          applicationIds,
+        ),
+        rules,
+      );
+      return gasStationRules.length > 0
+        ? {
+            finished: gasStationRules.length === rules.length,
+            state: withGasStation(state, network, {
+              existingRules,
+              gasStationRules,
+            }),
+          }
+        : undefined;
+    },
+    run: async ({ context, input, state }) => {
+      const { applicationIds, existingRules, functions, rules } = newRules(
+        input,
+        state,
+      );
+      const gasStationRules = await new GasStation(
+        context,
+        network,
+      ).createGasStationRules({
+        ...applicationIds,
+        // Found again when the run was resumed
+        existing: (
+          state.networks?.[network]?.gasStation?.gasStationRules ?? []
+        ).flatMap((result) =>
+          result.status === "created" ? [result.rule] : [],
+        ),
+        rules,
+      });
+      return withGasStation(state, network, {
+        existingRules,
+        gasStationRules,
+        ...(gasStationRules.some((result) => result.status === "failed") && {
+          retryFailedRules: retryFailedRules(gasStationRules, {
+            ...applicationIds,
+            functions,
+            network,
+            rule_config: input.rule_config,
+          }),
+        }),
+      });
+    },
+  };
+};
+
+/**
+ * Set up a dApp: a project, a full node API application and key per network,
+ * and a gas station per network when functions are given. Whatever already
+ * exists under the same names is reused, and only what this run created is
+ * undone when a step fails.
+ */
+export const provisionDappSaga: Saga<
+  ProvisionDappArgs,
+  ProvisionDappState,
+  Omit<ProvisionDappState, "existing"> & { organization_id: string }
+> = {
+  name: "provision_geomi_dapp",
+  result: ({ input, state }) => {
+    // The project step always runs, so only a corrupt journal lacks it
+    if (!state.project) {
+      throw new Error("The run finished without a project.");
+    }
+    return {
+      networks: state.networks ?? {},
+      organization_id: input.organization_id,
+      project: state.project,
+    };
+  },
+  steps: (input) => [
+    existingStep,
+    projectStep,
+    ...input.networks.flatMap((network) => [
+      applicationStep("api", network),
+      apiKeyStep("api", network),
+      ...(input.functions?.length
+        ? [
+            applicationStep("gas-station", network),
+            apiKeyStep("gas-station", network),
+            gasStationStep(network),
+            gasStationRulesStep(network),
+          ]
+        : []),
+    ]),
+  ],
+};
+
+/**
+ * Tool to set up everything a new dApp needs on Geomi in one call.
+ */
+export const provisionDappTool = {
+  description: `Set up the Geomi infrastructure of a dApp in one call: a project, a full node API application and API key for each network, and, when functions are given, a Gas Station application sponsoring them on each network. Instead of calling create_geomi_project, create_geomi_api_resource_application, create_geomi_api_key and create_gas_station_application in turn. Applications are named api-<network> and gas-station-<network>, keys ${DAPP_API_KEY_NAME}. Safe to call again: a project, application or key that already exists with the same name is reused as it is, and existing gas stations only get the functions they do not sponsor yet. When a step fails, what this call created is deleted again. Returns one summary with the ids of everything and whether it was created; key secrets are redacted, use write_geomi_api_key_to_env to write them into the dApp. Geomi is the essential toolkit for Aptos developers.`,
+  execute: async (
+    args: ProvisionDappArgs & { dry_run?: boolean },
+    context: SagaContext,
+  ) => {
+    try {
+      await recordTelemetry({ action: "provision_dapp" }, context);
+      const { dry_run, ...input } = args;
+      // Each network once, in the order given
+      const run = { ...input, networks: [...new Set(input.networks)] };
+      if (run.functions?.length) {
+        // Check the gas stations and rules before anything is created
+        run.networks.forEach(getGasStationEndpoint);
+        toGasStationRules(run.functions, run.rule_config);
+      }
+      if (dry_run) {
+        const organizations = await new Geomi(context).getApplications();
+        return JSON.stringify(
+          planProvisionDapp(
+            organizations,
+            { ...run, frontend_args: toApiFrontendArgs(frontendArgs(run)) },
+            await getExistingRules(
+              context,
+              findProject(organizations, run),
+              run,
+            ),
+          ),
+        );
+      }
+      return JSON.stringify(await runSaga(provisionDappSaga, run, context));
+    } catch (error) {
+      return toToolError("provision dApp", error);
+    }
+  },
+  name: "provision_geomi_dapp",
+  parameters: ProvisionDappToolScheme,
+};
@@ -0,0 +1,109 @@
+import type { RecursiveOrgData } from "@aptos-labs/api-gateway-admin-api-client";
+
+import type { Network } from "../../profiles.js";
+import {
+  GeomiConflictError,
+  GeomiNotFoundError,
+} from "../../services/errors.js";
+
+export type OrganizationNode = RecursiveOrgData["Organization"];
+export type ProjectNode = OrganizationNode["Project"][number];
+export type ApplicationNode = ProjectNode["Application"][number];
+export type ApiKeyNode = ApplicationNode["apiKeys"][number];
+
+export type EntityIds = {
+  apiKeyName?: string;
+  applicationId?: string;
+  organizationId: string;
+  projectId?: string;
+};
+
+export type ResolvedEntities = {
+  apiKey?: ApiKeyNode;
+  application?: ApplicationNode;
+  organization: OrganizationNode;
+  project?: ProjectNode;
+};
+
+/**
+ * Look up the entities a tool call refers to in the getOrganizationsRecursively
+ * tree, down to the deepest id given. Fails when any of them does not exist,
+ * or belongs to a different parent than the one given.
+ */
+export function resolveEntities(
+  organizations: RecursiveOrgData[],
+  ids: EntityIds,
+): ResolvedEntities {
+  const organization = organizations.find(
+    (org) => org.Organization.id === ids.organizationId,
+  )?.Organization;
+  if (!organization) {
+    throw new GeomiNotFoundError(
+      `Organization ${ids.organizationId} not found`,
+    );
+  }
+  if (ids.projectId === undefined) {
+    return { organization };
+  }
+
+  const project = organization.Project.find(
+    (candidate) => candidate.id === ids.projectId,
+  );
+  if (!project) {
+    throw new GeomiNotFoundError(
+      `Project ${ids.projectId} not found in organization ${organization.name}`,
+    );
+  }
+  if (ids.applicationId === undefined) {
+    return { organization, project };
+  }
+
+  const application = project.Application.find(
+    (candidate) => candidate.id === ids.applicationId,
+  );
+  if (!application) {
+    throw new GeomiNotFoundError(
+      `Application ${ids.applicationId} not found in project ${project.name}`,
+    );
+  }
+  if (ids.apiKeyName === undefined) {
+    return { application, organization, project };
+  }
+
+  const apiKey = application.apiKeys.find((key) => key.name === ids.apiKeyName);
+  if (!apiKey) {
+    throw new GeomiNotFoundError(
+      `API key "${ids.apiKeyName}" not found in application ${application.name}`,
+    );
+  }
+  return { apiKey, application, organization, project };
+}
+
+// What provision_geomi_dapp names the applications and keys it creates, so a
+// second call finds and reuses them
+export const DAPP_API_KEY_NAME = "web";
+
+export const dappApplicationName = (
+  kind: "api" | "gas-station",
+  network: Network,
+) => `${kind}-${network}`;
+
+/**
+ * Find an application by name, to reuse it rather than create another one.
+ * Fails when the name is taken by an application of another service type.
+ */
+export function findApplicationByName(
+  project: ProjectNode | undefined,
+  name: string,
+  serviceType: "Api" | "Gs",
+): ApplicationNode | undefined {
+  const application = project?.Application.find(
+    (candidate) => candidate.name === name,
+  );
+  if (application && application.serviceType !== serviceType) {
+    throw new GeomiConflictError(
+      `Application ${name} in project ${project?.name} is a ${application.serviceType} application, not ${serviceType}. Rename it with update_geomi_application_name first.`,
+    );
+  }
+  return application;
+}
@@ -0,0 +1,228 @@
+import {
+  mkdtempSync,
+  readFileSync,
+  rmSync,
+  statSync,
+  writeFileSync,
+} from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+
+import { config } from "../../config.js";
+import { Geomi } from "../../services/Geomi.js";
+import { writeApiKeyToEnvTool } from "./apiKey.js";
+import { detectFramework, isGitIgnored, setEnvEntry } from "./envFile.js";
+
+const SECRET = "aptoslabs_Ab1Cd2Ef3_Gh4Ij5Kl6Mn7";
+
+const organizations = [
+  {
+    Organization: {
+      id: "org-1",
+      name: "acme",
+      Project: [
+        {
+          id: "project-1",
+          name: "dapp",
+          Application: [
+            {
+              allowedNetworks: ["testnet"],
+              apiKeys: [
+                {
+                  createdAt: "2026-01-01T00:00:00.000Z",
+                  httpRateLimitPerIp: null,
+                  keySecret: SECRET,
+                  name: "web",
+                },
+              ],
+              createdAt: "2026-01-01T00:00:00.000Z",
+              id: "app-1",
+              name: "frontend",
+              serviceType: "Api",
+            },
+          ],
+        },
+      ],
+    },
+    role: "owner",
+  },
+];
+
+describe("setEnvEntry", () => {
+  it("replaces the entry and keeps the other lines", () => {
+    expect(
+      setEnvEntry(
+        "# keys\nexport APTOS_API_KEY=old\nOTHER=1\n",
+        "APTOS_API_KEY",
+        "new",
+      ),
+    ).toBe("# keys\nexport APTOS_API_KEY=new\nOTHER=1\n");
+  });
+
+  it("appends new entries on their own line", () => {
+    expect(setEnvEntry("OTHER=1", "APTOS_API_KEY", "new")).toBe(
+      "OTHER=1\nAPTOS_API_KEY=new\n",
+    );
+    expect(setEnvEntry("", "APTOS_API_KEY", "new")).toBe("APTOS_API_KEY=new\n");
+  });
+
+  it("keeps the CRLF line endings of the file", () => {
+    expect(
+      setEnvEntry("APTOS_API_KEY=old\r\nOTHER=1\r\n", "APTOS_API_KEY", "new"),
+    ).toBe("APTOS_API_KEY=new\r\nOTHER=1\r\n");
+    expect(setEnvEntry("OTHER=1\r\n", "APTOS_API_KEY", "new")).toBe(
+      "OTHER=1\r\nAPTOS_API_KEY=new\r\n",
+    );
+  });
+});
+
+describe("detectFramework", () => {
+  it("looks at dependencies and devDependencies", () => {
+    expect(detectFramework({ dependencies: { next: "15.0.0" } })).toBe(
+      "nextjs",
+    );
+    expect(detectFramework({ devDependencies: { vite: "7.0.0" } })).toBe(
+      "vite",
+    );
+    expect(
+      detectFramework({
+        dependencies: { next: "15.0.0" },
+        devDependencies: { vite: "7.0.0" },
+      }),
+    ).toBe("nextjs");
+    expect(detectFramework({})).toBe("node");
+  });
+});
+
+describe("isGitIgnored", () => {
+  it("matches names, wildcards and negations", () => {
+    expect(isGitIgnored("node_modules\n.env.local\n", ".env.local")).toBe(true);
+    expect(isGitIgnored("/.env*\n", ".env.local.bak")).toBe(true);
+    expect(isGitIgnored("*.local\n", ".env.local")).toBe(true);
+    expect(isGitIgnored(".env*\n!.env.example\n", ".env.example")).toBe(false);
+    expect(isGitIgnored("# .env\n", ".env")).toBe(false);
+  });
+
+  it("anchors patterns with a slash and matches others at any depth", () => {
+    expect(isGitIgnored(".env\n", "apps/web/.env")).toBe(true);
+    expect(isGitIgnored("/.env\n", "apps/web/.env")).toBe(false);
+    expect(isGitIgnored("apps/*.env\n", "apps/.env")).toBe(true);
+    expect(isGitIgnored("apps/*.env\n", "apps/web/.env")).toBe(false);
+  });
+
+  it("matches ** across directories", () => {
+    expect(isGitIgnored("**/.env*\n", ".env.local")).toBe(true);
+    expect(isGitIgnored("**/.env*\n", "apps/web/.env.local")).toBe(true);
+    expect(isGitIgnored("apps/**/.env\n", "apps/.env")).toBe(true);
+    expect(isGitIgnored("apps/**/.env\n", "apps/web/api/.env")).toBe(true);
+    expect(isGitIgnored("apps/**\n", "apps/web/.env")).toBe(true);
+    expect(isGitIgnored("apps/**\n", "apps")).toBe(false);
+  });
+
+  it("matches directory patterns only against directories", () => {
+    expect(isGitIgnored("secrets/\n", "secrets")).toBe(false);
+    expect(isGitIgnored("secrets/\n", "secrets/.env")).toBe(true);
+    expect(isGitIgnored("secrets/\n", "apps/secrets/.env")).toBe(true);
+    // Files in an ignored directory cannot be un-ignored
+    expect(isGitIgnored("secrets/\n!secrets/.env\n", "secrets/.env")).toBe(
+      true,
+    );
+  });
+
+  it("reads escapes, character classes and trailing spaces", () => {
+    expect(isGitIgnored("\\#.env\n", "#.env")).toBe(true);
+    expect(isGitIgnored("\\!.env\n", "!.env")).toBe(true);
+    expect(isGitIgnored(".env\\*\n", ".env*")).toBe(true);
+    expect(isGitIgnored(".env\\*\n", ".env.local")).toBe(false);
+    expect(isGitIgnored(".env.[lp]*\n", ".env.local")).toBe(true);
+    expect(isGitIgnored(".env.[!lp]*\n", ".env.local")).toBe(false);
+    expect(isGitIgnored(".env  \r\n", ".env")).toBe(true);
+    expect(isGitIgnored(".env\\ \n", ".env ")).toBe(true);
+  });
+});
+
+describe("write_geomi_api_key_to_env", () => {
+  const botKey = config.geomi.botKey;
+  const context = { log: { error: vi.fn(), info: vi.fn() } };
+  const args = {
+    api_key_name: "web",
+    application_id: "app-1",
+    organization_id: "org-1",
+    project_id: "project-1",
+  };
+  let projectDir: string;
+
+  beforeEach(() => {
+    config.geomi.botKey = "bot-key";
+    vi.stubGlobal("fetch", vi.fn().mockRejectedValue(new Error("offline")));
+    vi.spyOn(Geomi.prototype, "getApplications").mockResolvedValue(
+      organizations as never,
+    );
+    projectDir = mkdtempSync(join(tmpdir(), "aptos-mcp-env-"));
+  });
+
+  afterEach(() => {
+    config.geomi.botKey = botKey;
+    vi.restoreAllMocks();
+    vi.unstubAllGlobals();
+    rmSync(projectDir, { force: true, recursive: true });
+  });
+
+  it("uses the prefix of the framework and keeps the other entries", async () => {
+    writeFileSync(
+      join(projectDir, "package.json"),
+      JSON.stringify({ devDependencies: { vite: "7.0.0" } }),
+    );
+    writeFileSync(join(projectDir, ".env.local"), "VITE_NETWORK=testnet\n", {
+      mode: 0o644,
+    });
+    writeFileSync(join(projectDir, ".gitignore"), "node_modules\n");
+
+    const result = await writeApiKeyToEnvTool.execute(
+      { ...args, project_dir: projectDir },
+      context,
+    );
+
+    expect(result).not.toContain(SECRET);
+    expect(result).toContain("import.meta.env.VITE_APTOS_API_KEY");
+    expect(readFileSync(join(projectDir, ".env.local"), "utf8")).toBe(
+      `VITE_NETWORK=testnet\nVITE_APTOS_API_KEY=${SECRET}\n`,
+    );
+    const backupPath = join(projectDir, ".env.local.bak");
+    expect(readFileSync(backupPath, "utf8")).toBe("VITE_NETWORK=testnet\n");
+    expect(statSync(backupPath).mode & 0o077).toBe(0);
+    expect(statSync(join(projectDir, ".env.local")).mode & 0o077).toBe(0);
+    expect(result).toContain(`is now in ${backupPath}`);
+    expect(readFileSync(join(projectDir, ".gitignore"), "utf8")).toBe(
+      "node_modules\n.env.local\n.env.local.bak\n",
+    );
+  });
+
+  it("writes plain names to .env for Node projects", async () => {
+    writeFileSync(join(projectDir, "package.json"), "{}");
+    writeFileSync(join(projectDir, ".gitignore"), ".env*\n");
+
+    await writeApiKeyToEnvTool.execute(
+      { ...args, project_dir: projectDir },
+      context,
+    );
+
+    const envPath = join(projectDir, ".env");
+    expect(readFileSync(envPath, "utf8")).toBe(`APTOS_API_KEY=${SECRET}\n`);
+    expect(statSync(envPath).mode & 0o077).toBe(0);
+    expect(readFileSync(join(projectDir, ".gitignore"), "utf8")).toBe(
+      ".env*\n",
+    );
+  });
+
+  it("needs the root of a project", async () => {
+    await expect(
+      writeApiKeyToEnvTool.execute(
+        { ...args, project_dir: projectDir },
+        context,
+      ),
+    ).resolves.toMatchObject({ isError: true });
+  });
+});
@@ -0,0 +1,170 @@
+const ENV_NAME_PATTERN = /^[A-Za-z_][A-Za-z0-9_]*$/;
+
+/**
+ * Check that a name can be used as an env var, in a shell and a dotenv file.
+ */
+export function isEnvVarName(name: string): boolean {
+  return ENV_NAME_PATTERN.test(name);
+}
+
+const escapeRegExp = (text: string) =>
+  text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+
+/**
+ * Set `name=value` in the content of a dotenv file. Replaces the existing
+ * entries of that name, keeping an `export ` in front of them, and leaves
+ * every other line as it is. New entries are appended, ending in the line
+ * ending the file already uses.
+ */
+export function setEnvEntry(
+  content: string,
+  name: string,
+  value: string,
+): string {
+  const entry = new RegExp(
+    `^(\\s*(?:export\\s+)?)${escapeRegExp(name)}\\s*=.*$`,
+  );
+  let found = false;
+  // The separators are kept at the odd indices, so CRLF files stay CRLF
+  const parts = content.split(/(\r?\n)/).map((part, index) => {
+    const match = index % 2 === 0 ? part.match(entry) : null;
+    if (!match) {
+      return part;
+    }
+    found = true;
+    return `${match[1]}${name}=${value}`;
+  });
+  if (found) {
+    return parts.join("");
+  }
+  const eol = content.includes("\r\n") ? "\r\n" : "\n";
+  const separator = content === "" || content.endsWith("\n") ? "" : eol;
+  return `${content}${separator}${name}=${value}${eol}`;
+}
+
+export type Framework = "nextjs" | "node" | "vite";
+
+// Only env vars with these prefixes reach the browser bundle of the framework
+export const ENV_PREFIXES: Record<Framework, string> = {
+  nextjs: "NEXT_PUBLIC_",
+  node: "",
+  vite: "VITE_",
+};
+
+/**
+ * Tell from the dependencies in a package.json which framework reads the env
+ * files of the project. Next.js wins over Vite, as Next.js projects sometimes
+ * use Vite for tests.
+ */
+export function detectFramework(packageJson: {
+  dependencies?: Record<string, string>;
+  devDependencies?: Record<string, string>;
+}): Framework {
+  const dependencies = {
+    ...packageJson.devDependencies,
+    ...packageJson.dependencies,
+  };
+  if ("next" in dependencies) {
+    return "nextjs";
+  }
+  if ("vite" in dependencies) {
+    return "vite";
+  }
+  return "node";
+}
+
+type GitIgnoreRule = {
+  // Patterns with a trailing slash only match directories
+  directoryOnly: boolean;
+  negated: boolean;
+  regExp: RegExp;
+};
+
+// The regexp of one wildcard pattern, as documented in gitignore(5)
+const toGitIgnoreRegExp = (pattern: string) => {
+  // A slash at the start or in the middle anchors the pattern to the root,
+  // otherwise it matches at any depth
+  const anchored = pattern.includes("/");
+  const body = pattern.replace(/^\//, "");
+  let source = "";
+  for (let i = 0; i < body.length; i++) {
+    const char = body[i];
+    const afterSlash = i === 0 || body[i - 1] === "/";
+    if (char === "\\" && i + 1 < body.length) {
+      i++;
+      source += escapeRegExp(body[i]);
+    } else if (body.startsWith("**/", i) && afterSlash) {
+      // Zero or more directories
+      source += "(?:.*/)?";
+      i += 2;
+    } else if (
+      body.startsWith("**", i) &&
+      afterSlash &&
+      i + 2 === body.length
+    ) {
+      // Everything inside the directory
+      source += ".*";
+      i++;
+    } else if (char === "*") {
+      source += "[^/]*";
+      // Other consecutive asterisks are regular ones
+      while (body[i + 1] === "*") {
+        i++;
+      }
+    } else if (char === "?") {
+      source += "[^/]";
+    } else if (char === "[" && body.indexOf("]", i + 2) > 0) {
+      const end = body.indexOf("]", i + 2);
+      source += `[${body.slice(i + 1, end).replace(/^!/, "^")}]`;
+      i = end;
+    } else {
+      source += escapeRegExp(char);
+    }
+  }
+  return new RegExp(`^${anchored ? "" : "(?:.*/)?"}${source}$`);
+};
+
+const parseGitIgnore = (gitignore: string): GitIgnoreRule[] =>
+  gitignore
+    .split("\n")
+    // Trailing spaces are ignored unless escaped with a backslash
+    .map((line) => line.replace(/\r$/, "").replace(/(?<!\\)\s+$/, ""))
+    .filter((line) => line && !line.startsWith("#"))
+    .map((line) => {
+      const negated = line.startsWith("!");
+      const pattern = negated ? line.slice(1) : line;
+      const directoryOnly = pattern.endsWith("/");
+      return {
+        directoryOnly,
+        negated,
+        regExp: toGitIgnoreRegExp(
+          directoryOnly ? pattern.slice(0, -1) : pattern,
+        ),
+      };
+    });
+
+/**
+ * Check whether a file is ignored by the content of the .gitignore at the
+ * root of the project. The path is relative to the root, with `/`
+ * separators. Later negated patterns un-ignore a file again, but not one in
+ * an ignored directory, as git does.
+ */
+export function isGitIgnored(gitignore: string, path: string): boolean {
+  const rules = parseGitIgnore(gitignore);
+  const segments = path.split("/");
+  // The directories of the file from the root, then the file itself
+  for (let depth = 1; depth <= segments.length; depth++) {
+    const candidate = segments.slice(0, depth).join("/");
+    const isDirectory = depth < segments.length;
+    let ignored = false;
+    for (const rule of rules) {
+      if ((isDirectory || !rule.directoryOnly) && rule.regExp.test(candidate)) {
+        ignored = !rule.negated;
+      }
+    }
+    if (ignored) {
+      return true;
+    }
+  }
+  return false;
+}
@@ -0,0 +1,15 @@
+import type { ContentResult } from "fastmcp";
+
+import { GeomiError } from "../../services/errors.js";
+
+/**
+ * Map a failed Geomi tool call to an MCP error result. Geomi errors come with
+ * a hint on how to fix them, e.g. the bot key setup steps on a 401.
+ */
+export const toToolError = (action: string, error: unknown): ContentResult => {
+  const text =
+    error instanceof GeomiError
+      ? `❌ ${error.message}\n\n${error.hint}`
+      : `❌ Failed to ${action}: ${error instanceof Error ? error.message : String(error)}`;
+  return { content: [{ text, type: "text" }], isError: true };
+};
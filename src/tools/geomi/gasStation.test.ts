@@ -0,0 +1,285 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+
+import { config } from "../../config.js";
+import { installTestSandbox, type TestSandbox } from "../../sandbox/testing.js";
+import { createGasStationApplicationTool } from "./applications.js";
+import {
+  addGasStationRulesTool,
+  deleteGasStationRuleTool,
+  getGasStationRulesTool,
+  updateGasStationRuleTool,
+} from "./gasStation.js";
+import { createOrganizationTool } from "./organization.js";
+import { createProjectTool } from "./projects.js";
+
+const context = { log: { error: vi.fn(), info: vi.fn() } };
+
+const functionNames = (result: unknown) =>
+  JSON.parse(result as string).map(
+    (rule: { id: { functionName: string } }) => rule.id.functionName,
+  );
+
+describe("gas station rule tools", () => {
+  let sandbox: TestSandbox;
+  let station: {
+    application_id: string;
+    network: "testnet";
+    organization_id: string;
+    project_id: string;
+  };
+
+  beforeEach(async () => {
+    sandbox = installTestSandbox();
+
+    const organization = JSON.parse(
+      (await createOrganizationTool.execute(
+        { name: "acme" },
+        context,
+      )) as string,
+    );
+    const organizationId = organization.id;
+    const project = JSON.parse(
+      (await createProjectTool.execute(
+        {
+          description: "",
+          organization_id: organizationId,
+          project_name: "dapp",
+        },
+        context,
+      )) as string,
+    );
+    const { application } = JSON.parse(
+      (await createGasStationApplicationTool.execute(
+        {
+          api_key_name: "sponsor-key",
+          functions: ["0x1::counter::increment"],
+          name: "sponsor",
+          network: "testnet",
+          organization_id: organizationId,
+          project_id: project.id,
+        },
+        context,
+      )) as string,
+    );
+    station = {
+      application_id: application.id,
+      network: "testnet",
+      organization_id: organizationId,
+      project_id: project.id,
+    };
+  });
+
+  afterEach(() => {
+    config.geomi.confirm.delete_gas_station_rule = "elicit";
+    vi.unstubAllGlobals();
+    sandbox.restore();
+  });
+
+  it("adds, updates and removes rules of an existing gas station", async () => {
+    await addGasStationRulesTool.execute(
+      { ...station, functions: ["0x1::counter::reset"] },
+      context,
+    );
+    expect(
+      functionNames(await getGasStationRulesTool.execute(station, context)),
+    ).toEqual(["increment", "reset"]);
+
+    const updated = JSON.parse(
+      (await updateGasStationRuleTool.execute(
+        {
+          ...station,
+          config: { gasUnitPriceMax: "500" },
+          function: "0x1::counter::reset",
+        },
+        context,
+      )) as string,
+    );
+    expect(updated.config).toMatchObject({
+      gasUnitPriceMax: "500",
+      gasUnitPriceMin: "100",
+    });
+
+    const rule = { ...station, function: "0x1::counter::increment" };
+    // The context cannot elicit, so the user confirms through a token
+    const summary = await deleteGasStationRuleTool.execute(rule, context);
+    expect(summary).toContain(
+      "Delete the gas station rule of 0x1::counter::increment?",
+    );
+    expect(summary).toContain("- Application: sponsor");
+    expect(
+      functionNames(await getGasStationRulesTool.execute(station, context)),
+    ).toEqual(["increment", "reset"]);
+
+    await deleteGasStationRuleTool.execute(
+      {
+        ...rule,
+        confirm_token: String(summary).match(/confirm_token "(\w+)"/)?.[1],
+      },
+      context,
+    );
+    expect(
+      functionNames(await getGasStationRulesTool.execute(station, context)),
+    ).toEqual(["reset"]);
+  });
+
+  it("accepts an empty response to a deletion", async () => {
+    config.geomi.confirm.delete_gas_station_rule = "none";
+    const sandboxFetch = globalThis.fetch;
+    vi.stubGlobal(
+      "fetch",
+      async (input: string | URL | Request, init?: RequestInit) => {
+        const response = await sandboxFetch(input, init);
+        return init?.method === "DELETE" && response.ok
+          ? new Response(null, { status: 204 })
+          : response;
+      },
+    );
+
+    const result = await deleteGasStationRuleTool.execute(
+      { ...station, function: "0x1::counter::increment" },
+      context,
+    );
+
+    expect(JSON.parse(result as string)).toEqual({
+      id: {
+        functionModule: "counter",
+        functionName: "increment",
+        functionPackage: "0x1",
+      },
+    });
+    expect(
+      functionNames(await getGasStationRulesTool.execute(station, context)),
+    ).toEqual([]);
+  });
+
+  it("only plans the change on a dry run", async () => {
+    const plan = JSON.parse(
+      (await deleteGasStationRuleTool.execute(
+        { ...station, dry_run: true, function: "0x1::counter::increment" },
+        context,
+      )) as string,
+    );
+
+    expect(plan.calls).toEqual([
+      expect.objectContaining({
+        input: {
+          id: {
+            functionModule: "counter",
+            functionName: "increment",
+            functionPackage: "0x1",
+          },
+        },
+        method: "DELETE",
+      }),
+    ]);
+    expect(
+      functionNames(await getGasStationRulesTool.execute(station, context)),
+    ).toEqual(["increment"]);
+  });
+
+  it("reports rules that do not exist", async () => {
+    const result = await updateGasStationRuleTool.execute(
+      { ...station, config: {}, function: "0x1::counter::missing" },
+      context,
+    );
+
+    expect(result).toMatchObject({
+      content: [
+        {
+          text: expect.stringContaining(
+            "No gas station rule for 0x1::counter::missing. Rules: 0x1::counter::increment",
+          ),
+        },
+      ],
+      isError: true,
+    });
+  });
+
+  it("creates the other rules and returns a retry for the failed ones", async () => {
+    const result = await addGasStationRulesTool.execute(
+      {
+        ...station,
+        functions: ["0x1::counter::increment", "0x1::counter::reset"],
+      },
+      context,
+    );
+
+    expect(result).toMatchObject({ isError: true });
+    const text = (result as { content: [{ text: string }] }).content[0].text;
+    expect(text).toContain(
+      "1 of 2 gas station rules failed:\n- 0x1::counter::increment:",
+    );
+    expect(text).toContain(
+      `call add_gas_station_rules with ${JSON.stringify({
+        application_id: station.application_id,
+        organization_id: station.organization_id,
+        project_id: station.project_id,
+        functions: ["0x1::counter::increment"],
+        network: "testnet",
+      })}`,
+    );
+    expect(
+      functionNames(await getGasStationRulesTool.execute(station, context)),
+    ).toEqual(["increment", "reset"]);
+  });
+
+  it("keeps the application when asked to", async () => {
+    const created = JSON.parse(
+      (await createGasStationApplicationTool.execute(
+        {
+          api_key_name: "second-key",
+          functions: [
+            "0x1::counter::increment",
+            "0x1::counter::increment",
+            { config: { preset: "generous" }, function: "0x1::counter::reset" },
+          ],
+          name: "second",
+          network: "testnet",
+          on_rule_failure: "keep",
+          organization_id: station.organization_id,
+          project_id: station.project_id,
+        },
+        context,
+      )) as string,
+    );
+
+    expect(
+      created.gasStationRules.map((rule: { status: string }) => rule.status),
+    ).toEqual(["created", "failed", "created"]);
+    expect(created.retryFailedRules).toEqual({
+      arguments: {
+        application_id: created.application.id,
+        functions: ["0x1::counter::increment"],
+        network: "testnet",
+        organization_id: station.organization_id,
+        project_id: station.project_id,
+      },
+      tool: "add_gas_station_rules",
+    });
+  });
+
+  it("deletes the application again when a rule fails", async () => {
+    const result = await createGasStationApplicationTool.execute(
+      {
+        api_key_name: "second-key",
+        functions: ["0x1::counter::reset", "0x1::counter::reset"],
+        name: "second",
+        network: "testnet",
+        organization_id: station.organization_id,
+        project_id: station.project_id,
+      },
+      context,
+    );
+
+    expect(result).toMatchObject({
+      content: [
+        {
+          text: expect.stringContaining(
+            "1 of 2 gas station rules failed:\n- 0x1::counter::reset:",
+          ),
+        },
+      ],
+      isError: true,
+    });
+  });
+});
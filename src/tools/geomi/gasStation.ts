@@ -0,0 +1,262 @@
+import type { Network } from "../../profiles.js";
+import { GeomiNotFoundError } from "../../services/errors.js";
+import {
+  formatGasStationRuleId,
+  GasStation,
+  type GasStationRuleResult,
+  isSameGasStationRule,
+  toGasStationRuleId,
+} from "../../services/GasStation.js";
+import { Geomi } from "../../services/Geomi.js";
+import { recordTelemetry } from "../../utils/telemetry.js";
+import {
+  AddGasStationRulesToolScheme,
+  DeleteGasStationRuleToolScheme,
+  type GasStationRuleConfigInput,
+  GetGasStationRulesToolScheme,
+  UpdateGasStationRuleToolScheme,
+} from "../types/organization.js";
+import { confirmDeletion, describeRuleDeletion } from "./confirmation.js";
+import { toToolError } from "./errors.js";
+import {
+  planAddGasStationRules,
+  planDeleteGasStationRule,
+  planUpdateGasStationRule,
+} from "./plan.js";
+import {
+  resolveRuleConfig,
+  type SponsoredFunction,
+  toGasStationRules,
+} from "./ruleConfig.js";
+
+type GasStationApplicationArgs = {
+  application_id: string;
+  network: Network;
+  organization_id: string;
+  project_id: string;
+};
+
+const applicationIds = (args: GasStationApplicationArgs) => ({
+  application_id: args.application_id,
+  organization_id: args.organization_id,
+  project_id: args.project_id,
+});
+
+// The rule of a function, failing when the gas station has none
+const findRule = async (
+  gasStation: GasStation,
+  args: GasStationApplicationArgs & { function: string },
+) => {
+  const id = toGasStationRuleId(args.function);
+  const rules = await gasStation.getGasStationRules(applicationIds(args));
+  const rule = rules.find((candidate) =>
+    isSameGasStationRule(candidate.id, id),
+  );
+  if (!rule) {
+    throw new GeomiNotFoundError(
+      `No gas station rule for ${args.function}. Rules: ${rules.map((candidate) => formatGasStationRuleId(candidate.id)).join(", ") || "none"}`,
+    );
+  }
+  return rule;
+};
+
+/**
+ * Summarize the rules that failed, one line each with its error.
+ */
+export function describeFailedRules(results: GasStationRuleResult[]): string {
+  const failed = results.flatMap((result) =>
+    result.status === "failed" ? [`- ${result.function}: ${result.error}`] : [],
+  );
+  return `${failed.length} of ${results.length} gas station rules failed:\n${failed.join("\n")}`;
+}
+
+/**
+ * The add_gas_station_rules call that retries only the failed rules, with
+ * the configs they were requested with.
+ */
+export function retryFailedRules(
+  results: GasStationRuleResult[],
+  args: GasStationApplicationArgs & {
+    functions: SponsoredFunction[];
+    rule_config?: GasStationRuleConfigInput;
+  },
+) {
+  return {
+    arguments: {
+      ...applicationIds(args),
+      functions: args.functions.filter(
+        (_, index) => results[index]?.status === "failed",
+      ),
+      network: args.network,
+      rule_config: args.rule_config,
+    },
+    tool: addGasStationRulesTool.name,
+  };
+}
+
+/**
+ * Tool to list the rules of a Gas Station application.
+ */
+export const getGasStationRulesTool = {
+  annotations: { readOnlyHint: true },
+  description:
+    "Get the rules of a Gas Station application: the functions it sponsors and the config each is sponsored with. Geomi is the essential toolkit for Aptos developers.",
+  execute: async (args: GasStationApplicationArgs, context: any) => {
+    try {
+      await recordTelemetry({ action: "get_gas_station_rules" }, context);
+      const gasStation = new GasStation(context, args.network);
+      const rules = await gasStation.getGasStationRules(applicationIds(args));
+      return JSON.stringify(rules);
+    } catch (error) {
+      return toToolError("get gas station rules", error);
+    }
+  },
+  name: "get_gas_station_rules",
+  parameters: GetGasStationRulesToolScheme,
+};
+
+/**
+ * Tool to add rules to an existing Gas Station application.
+ */
+export const addGasStationRulesTool = {
+  description:
+    "Add rules to an existing Gas Station application, so it also sponsors new functions, e.g. a newly shipped entry function. Geomi is the essential toolkit for Aptos developers. Returns the result of each rule; when some fail, the others are still created and the arguments to retry only the failed ones are returned.",
+  execute: async (
+    args: GasStationApplicationArgs & {
+      dry_run?: boolean;
+      functions: SponsoredFunction[];
+      rule_config?: GasStationRuleConfigInput;
+    },
+    context: any,
+  ) => {
+    try {
+      await recordTelemetry({ action: "add_gas_station_rules" }, context);
+      if (args.dry_run) {
+        const geomi = new Geomi(context);
+        return JSON.stringify(
+          planAddGasStationRules(await geomi.getApplications(), args),
+        );
+      }
+      const gasStation = new GasStation(context, args.network);
+      const results = await gasStation.createGasStationRules({
+        ...applicationIds(args),
+        rules: toGasStationRules(args.functions, args.rule_config),
+      });
+      if (results.every((result) => result.status === "created")) {
+        return JSON.stringify(results);
+      }
+      const { arguments: retryArgs } = retryFailedRules(results, args);
+      return {
+        content: [
+          {
+            text: `❌ ${describeFailedRules(results)}\n\nThe other rules were created. To retry only the failed ones, call add_gas_station_rules with ${JSON.stringify(retryArgs)}\n\n${JSON.stringify(results)}`,
+            type: "text" as const,
+          },
+        ],
+        isError: true,
+      };
+    } catch (error) {
+      return toToolError("add gas station rules", error);
+    }
+  },
+  name: "add_gas_station_rules",
+  parameters: AddGasStationRulesToolScheme,
+};
+
+/**
+ * Tool to change the config of a Gas Station rule.
+ */
+export const updateGasStationRuleTool = {
+  description:
+    "Change the config of a Gas Station rule, e.g. the gas price bounds it sponsors. Config values not given keep their current value. Geomi is the essential toolkit for Aptos developers.",
+  execute: async (
+    args: GasStationApplicationArgs & {
+      config: GasStationRuleConfigInput;
+      dry_run?: boolean;
+      function: string;
+    },
+    context: any,
+  ) => {
+    try {
+      await recordTelemetry({ action: "update_gas_station_rule" }, context);
+      const gasStation = new GasStation(context, args.network);
+      const current = await findRule(gasStation, args);
+      const rule = {
+        config: resolveRuleConfig(current.config, args.config),
+        id: current.id,
+      };
+      if (args.dry_run) {
+        const geomi = new Geomi(context);
+        return JSON.stringify(
+          planUpdateGasStationRule(await geomi.getApplications(), args, rule),
+        );
+      }
+      const updated = await gasStation.updateGasStationRule({
+        ...applicationIds(args),
+        rule,
+      });
+      return JSON.stringify(updated);
+    } catch (error) {
+      return toToolError("update gas station rule", error);
+    }
+  },
+  name: "update_gas_station_rule",
+  parameters: UpdateGasStationRuleToolScheme,
+};
+
+/**
+ * Tool to remove a rule from a Gas Station application.
+ */
+export const deleteGasStationRuleTool = {
+  annotations: { destructiveHint: true },
+  description:
+    "Remove a rule from a Gas Station application, so it stops sponsoring that function. Geomi is the essential toolkit for Aptos developers. The user is asked to confirm first.",
+  execute: async (
+    args: GasStationApplicationArgs & {
+      confirm_token?: string;
+      dry_run?: boolean;
+      function: string;
+    },
+    context: any,
+  ) => {
+    try {
+      await recordTelemetry({ action: "delete_gas_station_rule" }, context);
+      const geomi = new Geomi(context);
+      if (args.dry_run) {
+        return JSON.stringify(
+          planDeleteGasStationRule(await geomi.getApplications(), args),
+        );
+      }
+      const gasStation = new GasStation(context, args.network);
+      const unconfirmed = await confirmDeletion(
+        "delete_gas_station_rule",
+        args,
+        context,
+        async () => {
+          const rule = await findRule(gasStation, args);
+          return describeRuleDeletion(
+            await geomi.getApplications(),
+            {
+              applicationId: args.application_id,
+              organizationId: args.organization_id,
+              projectId: args.project_id,
+            },
+            formatGasStationRuleId(rule.id),
+          );
+        },
+      );
+      if (unconfirmed) {
+        return unconfirmed;
+      }
+      const rule = await gasStation.deleteGasStationRule({
+        ...applicationIds(args),
+        id: toGasStationRuleId(args.function),
+      });
+      return JSON.stringify(rule);
+    } catch (error) {
+      return toToolError("delete gas station rule", error);
+    }
+  },
+  name: "delete_gas_station_rule",
+  parameters: DeleteGasStationRuleToolScheme,
+};
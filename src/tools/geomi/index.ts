@@ -1,9 +1,13 @@
 import type { FastMCP } from "fastmcp";
 
+import { config } from "../../config.js";
+
 import {
   createApiKeyTool,
   deleteApiKeyTool,
+  exportApiKeyTool,
   updateApiKeyTool,
+  writeApiKeyToEnvTool,
 } from "./apiKey.js";
 import {
   createApiResourceApplicationTool,
@@ -12,32 +16,73 @@ import {
   getApplicationsTool,
   updateApplicationNameTool,
 } from "./applications.js";
+import { provisionDappTool } from "./dapp.js";
+import {
+  addGasStationRulesTool,
+  deleteGasStationRuleTool,
+  getGasStationRulesTool,
+  updateGasStationRuleTool,
+} from "./gasStation.js";
 import {
   createOrganizationTool,
   updateOrganizationTool,
 } from "./organization.js";
+import { applyToolPolicy, policyTool, type ToolPolicy } from "./policy.js";
+import { getProfileTool } from "./profile.js";
 import {
   createProjectTool,
   deleteProjectTool,
   updateProjectTool,
 } from "./projects.js";
+import {
+  cleanupProvisioningRunTool,
+  getProvisioningRunsTool,
+  resumeProvisioningRunTool,
+} from "./provisioning.js";
+
+export function registerGeomiTools(
+  server: FastMCP,
+  policy: ToolPolicy = config.geomi.policy,
+): void {
+  const tools = [
+    // get all user's organizations + projects + applications + api keys
+    policyTool(getApplicationsTool),
+    // the functions a gas station sponsors
+    policyTool(getGasStationRulesTool),
+    // the endpoint profile the tools act on
+    policyTool(getProfileTool),
+    // multi-step runs that were interrupted or failed to roll back
+    policyTool(getProvisioningRunsTool),
+    // Create tools
+    policyTool(createOrganizationTool),
+    policyTool(createProjectTool),
+    policyTool(createApiResourceApplicationTool),
+    policyTool(createGasStationApplicationTool),
+    policyTool(createApiKeyTool),
+    // a project with its API and gas station applications in one call
+    policyTool(provisionDappTool),
+    policyTool(addGasStationRulesTool),
+    policyTool(resumeProvisioningRunTool),
+    // Update tools
+    policyTool(updateOrganizationTool),
+    policyTool(updateProjectTool),
+    policyTool(updateApplicationNameTool),
+    policyTool(updateApiKeyTool),
+    policyTool(updateGasStationRuleTool),
+    // write an api key secret to a local or env file, the other tools redact it
+    policyTool(exportApiKeyTool),
+    policyTool(writeApiKeyToEnvTool),
+    // Delete tools
+    policyTool(deleteApplicationTool),
+    policyTool(deleteProjectTool),
+    policyTool(deleteApiKeyTool),
+    policyTool(deleteGasStationRuleTool),
+    policyTool(cleanupProvisioningRunTool),
+  ];
 
-export function registerGeomiTools(server: FastMCP): void {
-  // get all user's organizations + projects + applications + api keys
-  server.addTool(getApplicationsTool);
-  // Create tools
-  server.addTool(createOrganizationTool);
-  server.addTool(createProjectTool);
-  server.addTool(createApiResourceApplicationTool);
-  server.addTool(createGasStationApplicationTool);
-  server.addTool(createApiKeyTool);
-  // Update tools
-  server.addTool(updateOrganizationTool);
-  server.addTool(updateProjectTool);
-  server.addTool(updateApplicationNameTool);
-  server.addTool(updateApiKeyTool);
-  // Delete tools
-  server.addTool(deleteApplicationTool);
-  server.addTool(deleteProjectTool);
-  server.addTool(deleteApiKeyTool);
+  // Tools blocked by read-only mode or the allow and deny lists stay listed,
+  // but only explain why they cannot run
+  for (const tool of applyToolPolicy(tools, policy)) {
+    tool.add(server);
+  }
 }
@@ -4,6 +4,8 @@ import {
   CreateOrganizationToolScheme,
   UpdateOrganizationToolScheme,
 } from "../types/organization.js";
+import { toToolError } from "./errors.js";
+import { planCreateOrganization, planUpdateOrganization } from "./plan.js";
 
 /**
  * Tool to create a new Organization for your Geomi account.
@@ -11,16 +13,21 @@ import {
 export const createOrganizationTool = {
   description:
     "Create a new Organization for your Geomi account. Geomi is the essential toolkit for Aptos developers.",
-  execute: async (args: { name: string }, context: any) => {
+  execute: async (args: { dry_run?: boolean; name: string }, context: any) => {
     try {
       await recordTelemetry({ action: "create_organization" }, context);
       const geomi = new Geomi(context);
+      if (args.dry_run) {
+        return JSON.stringify(
+          planCreateOrganization(await geomi.getApplications(), args),
+        );
+      }
       const organization = await geomi.createOrganization({
         name: args.name,
       });
       return JSON.stringify(organization);
     } catch (error) {
-      return `❌ Failed to create organization: ${error}`;
+      return toToolError("create organization", error);
     }
   },
   name: "create_geomi_organization",
@@ -34,19 +41,24 @@ export const updateOrganizationTool = {
   description:
     "Update an Organization for your Geomi account. Geomi is the essential toolkit for Aptos developers.",
   execute: async (
-    args: { name: string; organization_id: string },
+    args: { dry_run?: boolean; name: string; organization_id: string },
     context: any,
   ) => {
     try {
       await recordTelemetry({ action: "update_organization" }, context);
       const geomi = new Geomi(context);
+      if (args.dry_run) {
+        return JSON.stringify(
+          planUpdateOrganization(await geomi.getApplications(), args),
+        );
+      }
       const organization = await geomi.updateOrganization({
         name: args.name,
         organization_id: args.organization_id,
       });
       return JSON.stringify(organization);
     } catch (error) {
-      return `❌ Failed to update organization: ${error}`;
+      return toToolError("update organization", error);
     }
   },
   name: "update_geomi_organization",
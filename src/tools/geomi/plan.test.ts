@@ -0,0 +1,154 @@
+import { describe, expect, it } from "vitest";
+
+import { GeomiNotFoundError } from "../../services/errors.js";
+import {
+  NEW_APPLICATION_ID,
+  planCreateApiKey,
+  planCreateGasStationApplication,
+  planDeleteProject,
+  planUpdateProject,
+} from "./plan.js";
+
+const organizations = [
+  {
+    Organization: {
+      id: "org-1",
+      name: "acme",
+      Project: [
+        {
+          id: "project-1",
+          name: "dapp",
+          Application: [
+            {
+              allowedNetworks: ["testnet"],
+              apiKeys: [
+                {
+                  createdAt: "2026-01-01T00:00:00.000Z",
+                  httpRateLimitPerIp: null,
+                  keySecret: "aptoslabs_secret",
+                  name: "web",
+                },
+              ],
+              createdAt: "2026-01-01T00:00:00.000Z",
+              id: "app-1",
+              name: "frontend",
+              serviceType: "Api",
+            },
+          ],
+        },
+      ],
+    },
+    role: "owner",
+  },
+];
+
+const gasStationArgs = {
+  api_key_name: "sponsor-key",
+  frontend_args: null,
+  functions: ["0x1::counter::increment", "0x1::counter::reset"],
+  name: "sponsor",
+  network: "testnet" as const,
+  organization_id: "org-1",
+  project_id: "project-1",
+};
+
+describe("planCreateGasStationApplication", () => {
+  it("lists every call, with one rule per function", () => {
+    const plan = planCreateGasStationApplication(organizations, gasStationArgs);
+
+    expect(plan.dryRun).toBe(true);
+    expect(plan.warnings).toEqual([]);
+    expect(plan.calls.map((call) => call.operation)).toEqual([
+      "createApplicationV2",
+      "createApiKeyV2",
+      "POST /admin/application",
+      "POST /admin/rule",
+      "POST /admin/rule",
+    ]);
+    expect(plan.calls[3]).toMatchObject({
+      headers: {
+        "x-jwt-application-id": NEW_APPLICATION_ID,
+        "x-jwt-organization-id": "org-1",
+        "x-jwt-project-id": "project-1",
+      },
+      input: {
+        id: {
+          functionModule: "counter",
+          functionName: "increment",
+          functionPackage: "0x1",
+        },
+      },
+      service: "gas_station",
+    });
+    expect(plan.onFailure?.map((call) => call.operation)).toEqual([
+      "deleteApplicationV2",
+    ]);
+  });
+
+  it("warns about names that would be rejected", () => {
+    const plan = planCreateGasStationApplication(organizations, {
+      ...gasStationArgs,
+      api_key_name: "Sponsor Key",
+      name: "frontend",
+    });
+
+    expect(plan.warnings).toEqual([
+      'Project dapp already has an application named "frontend", so the call would fail.',
+      expect.stringContaining('The api key name "Sponsor Key" must be'),
+    ]);
+  });
+
+  it("rejects functions that are not address::module::function", () => {
+    expect(() =>
+      planCreateGasStationApplication(organizations, {
+        ...gasStationArgs,
+        functions: ["0x1::counter"],
+      }),
+    ).toThrow("Invalid contract function: 0x1::counter");
+  });
+});
+
+describe("plans", () => {
+  it("rejects ids that do not exist", () => {
+    expect(() =>
+      planCreateApiKey(organizations, {
+        application_id: "app-2",
+        frontend_args: null,
+        name: "web-2",
+        organization_id: "org-1",
+        project_id: "project-1",
+      }),
+    ).toThrow(GeomiNotFoundError);
+  });
+
+  it("sends what the tool would send", () => {
+    const plan = planUpdateProject(organizations, {
+      organization_id: "org-1",
+      project_id: "project-1",
+      project_name: "dapp-v2",
+    });
+
+    expect(plan.calls).toEqual([
+      expect.objectContaining({
+        input: { description: "", project_name: "dapp-v2" },
+        operation: "updateProject",
+      }),
+    ]);
+    expect(plan.warnings).toEqual([
+      expect.stringContaining("set to an empty string"),
+    ]);
+  });
+
+  it("lists what a deletion takes with it, without key secrets", () => {
+    const plan = planDeleteProject(organizations, {
+      organization_id: "org-1",
+      project_id: "project-1",
+    });
+
+    expect(plan.affected).toMatchObject({
+      apiKeys: [{ application: "frontend", name: "web" }],
+      applications: [{ id: "app-1", name: "frontend" }],
+    });
+    expect(JSON.stringify(plan)).not.toContain("aptoslabs_secret");
+  });
+});
@@ -0,0 +1,736 @@
+import type {
+  CreateApiKeyFrontendArgs,
+  RecursiveOrgData,
+} from "@aptos-labs/api-gateway-admin-api-client";
+import { config } from "../../config.js";
+import type { Network } from "../../profiles.js";
+import {
+  formatGasStationRuleId,
+  type GasStationRule,
+  getGasStationEndpoint,
+  isSameGasStationRule,
+  toGasStationRuleId,
+} from "../../services/GasStation.js";
+import type { GasStationRuleConfigInput } from "../types/organization.js";
+import {
+  type ApiKeyNode,
+  type ApplicationNode,
+  DAPP_API_KEY_NAME,
+  dappApplicationName,
+  type EntityIds,
+  findApplicationByName,
+  type ResolvedEntities,
+  resolveEntities,
+} from "./entities.js";
+import { type SponsoredFunction, toGasStationRules } from "./ruleConfig.js";
+
+// Stands in for ids that only exist once an earlier call of the plan ran
+export const NEW_APPLICATION_ID = "<id of the new application>";
+export const NEW_PROJECT_ID = "<id of the new project>";
+
+/**
+ * A request a tool would send. Auth headers are left out; `headers` holds
+ * the x-jwt-* headers that select the organization, project and application.
+ */
+export type PlannedCall = {
+  headers: Record<string, string>;
+  input: unknown;
+  method: "DELETE" | "GET" | "POST" | "PUT";
+  operation: string;
+  service: "admin" | "gas_station";
+  url: string;
+};
+
+export type Plan = {
+  // Names and ids of what the calls touch, never key secrets
+  affected: Record<string, unknown>;
+  calls: PlannedCall[];
+  dryRun: true;
+  // Calls the tool makes to undo the plan when one of its calls fails
+  onFailure?: PlannedCall[];
+  tool: string;
+  // Problems that would make a call fail, such as a name that is taken
+  warnings: string[];
+};
+
+const NAME_PATTERN = /^[a-z0-9_-]{3,32}$/;
+
+const jwtHeaders = (ids: {
+  application_id?: string;
+  organization_id?: string;
+  project_id?: string;
+}): Record<string, string> => {
+  const headers: Record<string, string> = {};
+  if (ids.organization_id) {
+    headers["x-jwt-organization-id"] = ids.organization_id;
+  }
+  if (ids.project_id) {
+    headers["x-jwt-project-id"] = ids.project_id;
+  }
+  if (ids.application_id) {
+    headers["x-jwt-application-id"] = ids.application_id;
+  }
+  return headers;
+};
+
+const adminCall = (
+  procedure: string,
+  input: unknown,
+  ids: Parameters<typeof jwtHeaders>[0] = {},
+): PlannedCall => ({
+  headers: jwtHeaders(ids),
+  input,
+  method: "POST",
+  operation: procedure,
+  service: "admin",
+  url: `${config.profile.adminUrl}/${procedure}`,
+});
+
+const gasStationCall = (
+  network: Network,
+  resource: string,
+  input: unknown,
+  ids: Parameters<typeof jwtHeaders>[0],
+  method: PlannedCall["method"] = "POST",
+): PlannedCall => ({
+  headers: jwtHeaders(ids),
+  input,
+  method,
+  operation: `${method} /admin/${resource}`,
+  service: "gas_station",
+  url: `${getGasStationEndpoint(network)}/admin/${resource}`,
+});
+
+const checkName = (kind: string, name: string, warnings: string[]) => {
+  if (!NAME_PATTERN.test(name)) {
+    warnings.push(
+      `The ${kind} name "${name}" must be between 3 and 32 characters long, with only lowercase letters, numbers, dashes and underscores.`,
+    );
+  }
+};
+
+const checkUnique = (
+  kind: string,
+  name: string,
+  siblings: { name: string }[],
+  parent: string,
+  warnings: string[],
+) => {
+  if (siblings.some((sibling) => sibling.name === name)) {
+    warnings.push(
+      `${parent} already has ${kind} named "${name}", so the call would fail.`,
+    );
+  }
+};
+
+// Drop the secrets and nested children, the plan only needs to say what
+const summarize = ({
+  apiKey,
+  application,
+  organization,
+  project,
+}: ResolvedEntities) => ({
+  organization: { id: organization.id, name: organization.name },
+  ...(project && { project: { id: project.id, name: project.name } }),
+  ...(application && { application: summarizeApplication(application) }),
+  ...(apiKey && { apiKey: summarizeApiKey(apiKey) }),
+});
+
+const summarizeApplication = (application: ApplicationNode) => ({
+  id: application.id,
+  name: application.name,
+  networks: application.allowedNetworks,
+  serviceType: application.serviceType,
+});
+
+const summarizeApiKey = (apiKey: ApiKeyNode) => ({
+  createdAt: apiKey.createdAt,
+  name: apiKey.name,
+});
+
+const resolve = (
+  organizations: RecursiveOrgData[],
+  ids: {
+    api_key_name?: string;
+    application_id?: string;
+    organization_id: string;
+    project_id?: string;
+  },
+): ResolvedEntities => {
+  const entityIds: EntityIds = {
+    apiKeyName: ids.api_key_name,
+    applicationId: ids.application_id,
+    organizationId: ids.organization_id,
+    projectId: ids.project_id,
+  };
+  return resolveEntities(organizations, entityIds);
+};
+
+export function planCreateOrganization(
+  organizations: RecursiveOrgData[],
+  args: { name: string },
+): Plan {
+  const warnings: string[] = [];
+  checkName("organization", args.name, warnings);
+  checkUnique(
+    "an organization",
+    args.name,
+    organizations.map((org) => org.Organization),
+    "Your account",
+    warnings,
+  );
+  return {
+    affected: {},
+    calls: [adminCall("createOrganization", { name: args.name })],
+    dryRun: true,
+    tool: "create_geomi_organization",
+    warnings,
+  };
+}
+
+export function planUpdateOrganization(
+  organizations: RecursiveOrgData[],
+  args: { name: string; organization_id: string },
+): Plan {
+  const entities = resolve(organizations, args);
+  const warnings: string[] = [];
+  checkName("organization", args.name, warnings);
+  return {
+    affected: summarize(entities),
+    calls: [adminCall("updateOrganization", { name: args.name }, args)],
+    dryRun: true,
+    tool: "update_geomi_organization",
+    warnings,
+  };
+}
+
+export function planCreateProject(
+  organizations: RecursiveOrgData[],
+  args: { description: string; organization_id: string; project_name: string },
+): Plan {
+  const entities = resolve(organizations, args);
+  const warnings: string[] = [];
+  checkName("project", args.project_name, warnings);
+  checkUnique(
+    "a project",
+    args.project_name,
+    entities.organization.Project,
+    `Organization ${entities.organization.name}`,
+    warnings,
+  );
+  return {
+    affected: summarize(entities),
+    calls: [
+      adminCall(
+        "createProject",
+        { description: args.description, project_name: args.project_name },
+        args,
+      ),
+    ],
+    dryRun: true,
+    tool: "create_geomi_project",
+    warnings,
+  };
+}
+
+export function planUpdateProject(
+  organizations: RecursiveOrgData[],
+  args: {
+    description?: string;
+    organization_id: string;
+    project_id: string;
+    project_name?: string;
+  },
+): Plan {
+  const entities = resolve(organizations, args);
+  const warnings: string[] = [];
+  if (args.project_name === undefined || args.description === undefined) {
+    warnings.push(
+      "The project name and description are both sent, so the one not given is set to an empty string.",
+    );
+  }
+  if (args.project_name !== undefined) {
+    checkName("project", args.project_name, warnings);
+  }
+  return {
+    affected: summarize(entities),
+    calls: [
+      adminCall(
+        "updateProject",
+        {
+          description: args.description ?? "",
+          project_name: args.project_name ?? "",
+        },
+        args,
+      ),
+    ],
+    dryRun: true,
+    tool: "update_geomi_project",
+    warnings,
+  };
+}
+
+export function planDeleteProject(
+  organizations: RecursiveOrgData[],
+  args: { organization_id: string; project_id: string },
+): Plan {
+  const entities = resolve(organizations, args);
+  const applications = entities.project?.Application ?? [];
+  return {
+    affected: {
+      ...summarize(entities),
+      applications: applications.map(summarizeApplication),
+      apiKeys: applications.flatMap((app) =>
+        app.apiKeys.map((apiKey) => ({
+          application: app.name,
+          ...summarizeApiKey(apiKey),
+        })),
+      ),
+    },
+    calls: [adminCall("deleteProject", { _dummy: "" }, args)],
+    dryRun: true,
+    tool: "delete_geomi_project",
+    warnings: [],
+  };
+}
+
+const createApplicationCall = (
+  args: {
+    description?: string;
+    name: string;
+    network: string;
+    organization_id: string;
+    project_id: string;
+  },
+  serviceType: "Api" | "Gs",
+) =>
+  adminCall(
+    "createApplicationV2",
+    {
+      description: args.description ?? null,
+      name: args.name,
+      network: args.network,
+      service_type: serviceType,
+    },
+    args,
+  );
+
+const checkNewApplication = (
+  entities: ResolvedEntities,
+  name: string,
+  warnings: string[],
+) => {
+  checkName("application", name, warnings);
+  checkUnique(
+    "an application",
+    name,
+    entities.project?.Application ?? [],
+    `Project ${entities.project?.name}`,
+    warnings,
+  );
+};
+
+export function planCreateApiResourceApplication(
+  organizations: RecursiveOrgData[],
+  args: {
+    description?: string;
+    name: string;
+    network: string;
+    organization_id: string;
+    project_id: string;
+  },
+): Plan {
+  const entities = resolve(organizations, args);
+  const warnings: string[] = [];
+  checkNewApplication(entities, args.name, warnings);
+  return {
+    affected: summarize(entities),
+    calls: [createApplicationCall(args, "Api")],
+    dryRun: true,
+    tool: "create_geomi_api_resource_application",
+    warnings,
+  };
+}
+
+export function planCreateGasStationApplication(
+  organizations: RecursiveOrgData[],
+  args: {
+    api_key_name: string;
+    description?: string;
+    frontend_args: CreateApiKeyFrontendArgs | null;
+    functions: SponsoredFunction[];
+    name: string;
+    network: Network;
+    organization_id: string;
+    project_id: string;
+    rule_config?: GasStationRuleConfigInput;
+  },
+): Plan {
+  const entities = resolve(organizations, args);
+  const warnings: string[] = [];
+  checkNewApplication(entities, args.name, warnings);
+  checkName("api key", args.api_key_name, warnings);
+  if (args.functions.length === 0) {
+    warnings.push(
+      "No functions are given, so the gas station sponsors no transactions.",
+    );
+  }
+  const newApplication = { ...args, application_id: NEW_APPLICATION_ID };
+  return {
+    affected: summarize(entities),
+    calls: [
+      createApplicationCall(args, "Gs"),
+      adminCall(
+        "createApiKeyV2",
+        { frontend_args: args.frontend_args, name: args.api_key_name },
+        newApplication,
+      ),
+      gasStationCall(args.network, "application", {}, newApplication),
+      ...toGasStationRules(args.functions, args.rule_config).map((rule) =>
+        gasStationCall(args.network, "rule", rule, newApplication),
+      ),
+    ],
+    dryRun: true,
+    onFailure: [
+      adminCall("deleteApplicationV2", { _dummy: "" }, newApplication),
+    ],
+    tool: "create_gas_station_application",
+    warnings,
+  };
+}
+
+export function planUpdateApplicationName(
+  organizations: RecursiveOrgData[],
+  args: {
+    application_id: string;
+    new_name: string;
+    organization_id: string;
+    project_id: string;
+  },
+): Plan {
+  const entities = resolve(organizations, args);
+  const warnings: string[] = [];
+  checkNewApplication(entities, args.new_name, warnings);
+  return {
+    affected: summarize(entities),
+    calls: [
+      adminCall(
+        "setApplicationNameV2",
+        { new_application_name: args.new_name },
+        args,
+      ),
+    ],
+    dryRun: true,
+    tool: "update_geomi_application_name",
+    warnings,
+  };
+}
+
+export function planDeleteApplication(
+  organizations: RecursiveOrgData[],
+  args: { application_id: string; organization_id: string; project_id: string },
+): Plan {
+  const entities = resolve(organizations, args);
+  return {
+    affected: {
+      ...summarize(entities),
+      apiKeys: entities.application?.apiKeys.map(summarizeApiKey) ?? [],
+    },
+    calls: [adminCall("deleteApplicationV2", { _dummy: "" }, args)],
+    dryRun: true,
+    tool: "delete_geomi_application",
+    warnings: [],
+  };
+}
+
+export function planCreateApiKey(
+  organizations: RecursiveOrgData[],
+  args: {
+    application_id: string;
+    frontend_args: CreateApiKeyFrontendArgs | null;
+    name: string;
+    organization_id: string;
+    project_id: string;
+  },
+): Plan {
+  const entities = resolve(organizations, args);
+  const warnings: string[] = [];
+  checkName("api key", args.name, warnings);
+  checkUnique(
+    "an API key",
+    args.name,
+    entities.application?.apiKeys ?? [],
+    `Application ${entities.application?.name}`,
+    warnings,
+  );
+  return {
+    affected: summarize(entities),
+    calls: [
+      adminCall(
+        "createApiKeyV2",
+        { frontend_args: args.frontend_args, name: args.name },
+        args,
+      ),
+    ],
+    dryRun: true,
+    tool: "create_geomi_api_key",
+    warnings,
+  };
+}
+
+export function planUpdateApiKey(
+  organizations: RecursiveOrgData[],
+  args: {
+    application_id: string;
+    current_api_key_name: string;
+    frontend_args: CreateApiKeyFrontendArgs | null;
+    new_api_key_name?: string;
+    organization_id: string;
+    project_id: string;
+  },
+): Plan {
+  const entities = resolve(organizations, {
+    ...args,
+    api_key_name: args.current_api_key_name,
+  });
+  const warnings: string[] = [];
+  const newName = args.new_api_key_name ?? args.current_api_key_name;
+  if (newName !== args.current_api_key_name) {
+    checkName("api key", newName, warnings);
+    checkUnique(
+      "an API key",
+      newName,
+      entities.application?.apiKeys ?? [],
+      `Application ${entities.application?.name}`,
+      warnings,
+    );
+  }
+  return {
+    affected: summarize(entities),
+    calls: [
+      adminCall(
+        "editApiKey",
+        {
+          current_api_key_name: args.current_api_key_name,
+          frontend_args: args.frontend_args,
+          new_api_key_name: newName,
+        },
+        args,
+      ),
+    ],
+    dryRun: true,
+    tool: "update_geomi_api_key",
+    warnings,
+  };
+}
+
+export function planDeleteApiKey(
+  organizations: RecursiveOrgData[],
+  args: {
+    api_key_name: string;
+    application_id: string;
+    organization_id: string;
+    project_id: string;
+  },
+): Plan {
+  const entities = resolve(organizations, args);
+  return {
+    affected: summarize(entities),
+    calls: [adminCall("deleteApiKeyV2", { name: args.api_key_name }, args)],
+    dryRun: true,
+    tool: "delete_geomi_api_key",
+    warnings: [],
+  };
+}
+
+type GasStationApplicationArgs = {
+  application_id: string;
+  network: Network;
+  organization_id: string;
+  project_id: string;
+};
+
+// Rule requests only work on the gas station of a Gs application
+const checkGasStationApplication = (
+  { application }: ResolvedEntities,
+  network: Network,
+  warnings: string[],
+) => {
+  if (application?.serviceType !== "Gs") {
+    warnings.push(
+      `Application ${application?.name} is a ${application?.serviceType} application, not a gas station (Gs), so it has no rules.`,
+    );
+  } else if (!application.allowedNetworks.includes(network)) {
+    warnings.push(
+      `Application ${application.name} is on ${application.allowedNetworks.join(", ")}, not ${network}.`,
+    );
+  }
+};
+
+export function planAddGasStationRules(
+  organizations: RecursiveOrgData[],
+  args: GasStationApplicationArgs & {
+    functions: SponsoredFunction[];
+    rule_config?: GasStationRuleConfigInput;
+  },
+): Plan {
+  const entities = resolve(organizations, args);
+  const warnings: string[] = [];
+  checkGasStationApplication(entities, args.network, warnings);
+  return {
+    affected: summarize(entities),
+    calls: toGasStationRules(args.functions, args.rule_config).map((rule) =>
+      gasStationCall(args.network, "rule", rule, args),
+    ),
+    dryRun: true,
+    tool: "add_gas_station_rules",
+    warnings,
+  };
+}
+
+export function planUpdateGasStationRule(
+  organizations: RecursiveOrgData[],
+  args: GasStationApplicationArgs,
+  rule: GasStationRule,
+): Plan {
+  const entities = resolve(organizations, args);
+  const warnings: string[] = [];
+  checkGasStationApplication(entities, args.network, warnings);
+  return {
+    affected: summarize(entities),
+    calls: [gasStationCall(args.network, "rule", rule, args, "PUT")],
+    dryRun: true,
+    tool: "update_gas_station_rule",
+    warnings,
+  };
+}
+
+export function planDeleteGasStationRule(
+  organizations: RecursiveOrgData[],
+  args: GasStationApplicationArgs & { function: string },
+): Plan {
+  const entities = resolve(organizations, args);
+  const warnings: string[] = [];
+  checkGasStationApplication(entities, args.network, warnings);
+  return {
+    affected: summarize(entities),
+    calls: [
+      gasStationCall(
+        args.network,
+        "rule",
+        { id: toGasStationRuleId(args.function) },
+        args,
+        "DELETE",
+      ),
+    ],
+    dryRun: true,
+    tool: "delete_gas_station_rule",
+    warnings,
+  };
+}
+
+export function planProvisionDapp(
+  organizations: RecursiveOrgData[],
+  args: {
+    frontend_args: CreateApiKeyFrontendArgs | null;
+    functions?: SponsoredFunction[];
+    networks: Network[];
+    organization_id: string;
+    project_description?: string;
+    project_name: string;
+    rule_config?: GasStationRuleConfigInput;
+  },
+  // The rules of the gas stations that exist, by network
+  existingRules: Partial<Record<Network, GasStationRule[]>>,
+): Plan {
+  const { organization } = resolve(organizations, args);
+  const warnings: string[] = [];
+  const calls: PlannedCall[] = [];
+  // What exists with the same name and is used as it is
+  const reused: string[] = [];
+  const project = organization.Project.find(
+    (candidate) => candidate.name === args.project_name,
+  );
+  if (project) {
+    reused.push(`project ${project.name}`);
+  } else {
+    checkName("project", args.project_name, warnings);
+    calls.push(
+      adminCall(
+        "createProject",
+        {
+          description: args.project_description ?? "",
+          project_name: args.project_name,
+        },
+        args,
+      ),
+    );
+  }
+  const projectIds = {
+    organization_id: args.organization_id,
+    project_id: project?.id ?? NEW_PROJECT_ID,
+  };
+
+  const planApplication = (kind: "api" | "gas-station", network: Network) => {
+    const name = dappApplicationName(kind, network);
+    const serviceType = kind === "api" ? "Api" : "Gs";
+    const application = findApplicationByName(project, name, serviceType);
+    const ids = {
+      ...projectIds,
+      application_id: application?.id ?? NEW_APPLICATION_ID,
+    };
+    if (application) {
+      reused.push(`application ${name}`);
+    } else {
+      calls.push(
+        createApplicationCall({ ...projectIds, name, network }, serviceType),
+      );
+    }
+    if (application?.apiKeys.some((key) => key.name === DAPP_API_KEY_NAME)) {
+      reused.push(`api key ${DAPP_API_KEY_NAME} of ${name}`);
+    } else {
+      calls.push(
+        adminCall(
+          "createApiKeyV2",
+          { frontend_args: args.frontend_args, name: DAPP_API_KEY_NAME },
+          ids,
+        ),
+      );
+    }
+    return { application, ids };
+  };
+
+  for (const network of args.networks) {
+    planApplication("api", network);
+    if (!args.functions?.length) {
+      continue;
+    }
+    const { application, ids } = planApplication("gas-station", network);
+    if (!application) {
+      calls.push(gasStationCall(network, "application", {}, ids));
+    }
+    const current = existingRules[network] ?? [];
+    for (const rule of toGasStationRules(args.functions, args.rule_config)) {
+      if (
+        current.some((existing) => isSameGasStationRule(existing.id, rule.id))
+      ) {
+        reused.push(
+          `gas station rule ${formatGasStationRuleId(rule.id)} of ${dappApplicationName("gas-station", network)}`,
+        );
+      } else {
+        calls.push(gasStationCall(network, "rule", rule, ids));
+      }
+    }
+  }
+
+  return {
+    affected: {
+      organization: { id: organization.id, name: organization.name },
+      reused,
+    },
+    calls,
+    dryRun: true,
+    tool: "provision_geomi_dapp",
+    warnings,
+  };
+}
@@ -0,0 +1,109 @@
+import { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import { InMemoryTransport } from "@modelcontextprotocol/sdk/inMemory.js";
+import { FastMCP } from "fastmcp";
+import { afterEach, describe, expect, it } from "vitest";
+import { z } from "zod";
+
+import {
+  applyToolPolicy,
+  getBlockReason,
+  policyTool,
+  type ToolPolicy,
+} from "./policy.js";
+
+const tool = (name: string, readOnly = false) => ({
+  annotations: { readOnlyHint: readOnly },
+  description: `Run ${name}`,
+  execute: async (args: { id: string }) => `${name} ${args.id}`,
+  name,
+  parameters: z.object({ id: z.string() }),
+});
+
+const tools = [
+  tool("get_geomi_applications", true),
+  tool("create_geomi_project"),
+  tool("delete_geomi_project"),
+].map(policyTool);
+
+const open: ToolPolicy = { deny: [], readOnly: false };
+
+describe("getBlockReason", () => {
+  it("only lets read-only tools run in read-only mode", () => {
+    const policy = { ...open, readOnly: true };
+
+    expect(getBlockReason(tools[0], policy)).toBeUndefined();
+    expect(getBlockReason(tools[2], policy)).toContain("read-only mode");
+  });
+
+  it("applies the deny list over the allow list", () => {
+    const policy = {
+      allow: ["get_geomi_applications", "delete_geomi_project"],
+      deny: ["delete_geomi_project"],
+      readOnly: false,
+    };
+
+    expect(getBlockReason(tools[0], policy)).toBeUndefined();
+    expect(getBlockReason(tools[1], policy)).toContain("not in the allow list");
+    expect(getBlockReason(tools[2], policy)).toContain("in the deny list");
+  });
+});
+
+describe("applyToolPolicy", () => {
+  let client: Client | undefined;
+
+  afterEach(async () => {
+    await client?.close();
+    client = undefined;
+  });
+
+  it("rejects unknown tool names so typos do not leave tools enabled", () => {
+    expect(() =>
+      applyToolPolicy(tools, { ...open, deny: ["delete_geomi_projects"] }),
+    ).toThrow(
+      "Unknown Geomi tool(s) in the tool policy: delete_geomi_projects",
+    );
+  });
+
+  it("keeps blocked tools listed and explains why they cannot run", async () => {
+    const server = new FastMCP({ name: "test", version: "0.0.0" });
+    for (const registered of applyToolPolicy(tools, {
+      ...open,
+      readOnly: true,
+    })) {
+      registered.add(server);
+    }
+    const [clientTransport, serverTransport] =
+      InMemoryTransport.createLinkedPair();
+    client = new Client({ name: "policy-test", version: "1.0.0" });
+    await Promise.all([
+      server.connect(serverTransport),
+      client.connect(clientTransport),
+    ]);
+
+    const { tools: listed } = await client.listTools();
+    expect(listed.map((listedTool) => listedTool.name)).toEqual(
+      tools.map((policyTool) => policyTool.name),
+    );
+
+    const allowed = await client.callTool({
+      arguments: { id: "1" },
+      name: "get_geomi_applications",
+    });
+    expect(allowed.content).toEqual([
+      { text: "get_geomi_applications 1", type: "text" },
+    ]);
+
+    const denied = await client.callTool({
+      arguments: { id: "1" },
+      name: "delete_geomi_project",
+    });
+    expect(denied.isError).toBe(true);
+    expect(denied.content).toEqual([
+      expect.objectContaining({
+        text: expect.stringContaining(
+          "delete_geomi_project is disabled because the server is in read-only mode",
+        ),
+      }),
+    ]);
+  });
+});
@@ -0,0 +1,106 @@
+import type {
+  ContentResult,
+  FastMCP,
+  FastMCPSessionAuth,
+  Tool,
+  ToolParameters,
+} from "fastmcp";
+import { z } from "zod";
+
+export type ToolPolicy = {
+  // When set, only these tools may run
+  allow?: string[];
+  // These tools never run, whatever else is configured
+  deny: string[];
+  // Only tools annotated with readOnlyHint may run
+  readOnly: boolean;
+};
+
+type ServerTool<P extends ToolParameters> = Tool<FastMCPSessionAuth, P>;
+
+/**
+ * What the policy reads of a tool, and how to add it to the server. Hiding
+ * the argument types lets tools with different arguments share one list.
+ */
+export type PolicyTool = Pick<
+  ServerTool<ToolParameters>,
+  "annotations" | "description" | "name"
+> & {
+  add: (server: FastMCP) => void;
+};
+
+export const policyTool = <P extends ToolParameters>(
+  tool: ServerTool<P>,
+): PolicyTool => ({
+  add: (server) => server.addTool(tool),
+  annotations: tool.annotations,
+  description: tool.description,
+  name: tool.name,
+});
+
+const POLICY_HINT =
+  "The Geomi tools are restricted by the configuration of this MCP server: read_only, allow_tools and deny_tools in the geomi section of the config file, or the APTOS_MCP_READ_ONLY, APTOS_MCP_ALLOW_TOOLS and APTOS_MCP_DENY_TOOLS env args. Ask whoever set up the server to change them if this tool is needed.";
+
+/**
+ * Why the policy blocks a tool, or undefined when it may run. The deny list
+ * wins over read-only mode, which wins over the allow list.
+ */
+export function getBlockReason(
+  tool: Pick<PolicyTool, "annotations" | "name">,
+  policy: ToolPolicy,
+): string | undefined {
+  if (policy.deny.includes(tool.name)) {
+    return "it is in the deny list";
+  }
+  if (policy.readOnly && !tool.annotations?.readOnlyHint) {
+    return "the server is in read-only mode and this tool changes Geomi state";
+  }
+  if (policy.allow && !policy.allow.includes(tool.name)) {
+    return "it is not in the allow list";
+  }
+  return undefined;
+}
+
+// Keeps the name so the agent can still see the tool and learn why it
+// cannot use it, rather than guessing why it is missing
+const blockedTool = (tool: PolicyTool, reason: string): PolicyTool =>
+  policyTool({
+    annotations: tool.annotations,
+    description: `Disabled on this server because ${reason}. ${tool.description ?? ""}`,
+    execute: async (): Promise<ContentResult> => ({
+      content: [
+        {
+          text: `❌ ${tool.name} is disabled because ${reason}.\n\n${POLICY_HINT}`,
+          type: "text",
+        },
+      ],
+      isError: true,
+    }),
+    name: tool.name,
+    parameters: z.object({}).loose(),
+  });
+
+/**
+ * Replace the tools the policy blocks with stand-ins that explain why they
+ * are disabled. Throws on names in the allow or deny list that match none of
+ * the tools, as a typo there would silently leave a tool enabled.
+ */
+export function applyToolPolicy(
+  tools: PolicyTool[],
+  policy: ToolPolicy,
+): PolicyTool[] {
+  const names = tools.map((tool) => tool.name);
+  const unknown = [...(policy.allow ?? []), ...policy.deny].filter(
+    (name) => !names.includes(name),
+  );
+  if (unknown.length > 0) {
+    throw new Error(
+      `Unknown Geomi tool(s) in the tool policy: ${[...new Set(unknown)].join(", ")}. Geomi tools: ${names.join(", ")}`,
+    );
+  }
+
+  return tools.map((tool) => {
+    const reason = getBlockReason(tool, policy);
+    return reason ? blockedTool(tool, reason) : tool;
+  });
+}
@@ -0,0 +1,23 @@
+import { z } from "zod";
+
+import { config } from "../../config.js";
+import { NETWORKS } from "../../profiles.js";
+
+/**
+ * Tool to report the Geomi endpoints the server talks to.
+ */
+export const getProfileTool = {
+  annotations: { readOnlyHint: true },
+  description:
+    "Get the active endpoint profile (production, local, sandbox or a custom one) with the Geomi admin API URL and the gas station URL for each network. Use it to check which Geomi deployment the other Geomi tools act on.",
+  execute: async () => {
+    const { adminUrl, gasStationUrls, name, source } = config.profile;
+    const gasStations = NETWORKS.map(
+      (network) =>
+        `- ${network}: ${gasStationUrls[network] ?? "no gas station"}`,
+    );
+    return `Active profile: ${name} (from ${source})\nAdmin API: ${adminUrl}\nGas stations:\n${gasStations.join("\n")}`;
+  },
+  name: "get_geomi_profile",
+  parameters: z.object({}),
+};
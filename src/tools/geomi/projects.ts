@@ -5,6 +5,13 @@ import {
   DeleteProjectToolScheme,
   UpdateProjectToolScheme,
 } from "../types/organization.js";
+import { confirmDeletion, describeDeletion } from "./confirmation.js";
+import { toToolError } from "./errors.js";
+import {
+  planCreateProject,
+  planDeleteProject,
+  planUpdateProject,
+} from "./plan.js";
 
 /**
  * Tool to create a new Project for your Geomi Organization.
@@ -15,6 +22,7 @@ export const createProjectTool = {
   execute: async (
     args: {
       description: string;
+      dry_run?: boolean;
       organization_id: string;
       project_name: string;
     },
@@ -23,6 +31,11 @@ export const createProjectTool = {
     try {
       await recordTelemetry({ action: "create_project" }, context);
       const geomi = new Geomi(context);
+      if (args.dry_run) {
+        return JSON.stringify(
+          planCreateProject(await geomi.getApplications(), args),
+        );
+      }
       const project = await geomi.createProject({
         description: args.description,
         organization_id: args.organization_id,
@@ -30,7 +43,7 @@ export const createProjectTool = {
       });
       return JSON.stringify(project);
     } catch (error) {
-      return `❌ Failed to create project: ${error}`;
+      return toToolError("create project", error);
     }
   },
   name: "create_geomi_project",
@@ -46,6 +59,7 @@ export const updateProjectTool = {
   execute: async (
     args: {
       description?: string;
+      dry_run?: boolean;
       organization_id: string;
       project_id: string;
       project_name?: string;
@@ -55,6 +69,11 @@ export const updateProjectTool = {
     try {
       await recordTelemetry({ action: "update_project" }, context);
       const geomi = new Geomi(context);
+      if (args.dry_run) {
+        return JSON.stringify(
+          planUpdateProject(await geomi.getApplications(), args),
+        );
+      }
       const project = await geomi.updateProject({
         description: args.description ?? "",
         organization_id: args.organization_id,
@@ -63,7 +82,7 @@ export const updateProjectTool = {
       });
       return JSON.stringify(project);
     } catch (error) {
-      return `❌ Failed to update project: ${error}`;
+      return toToolError("update project", error);
     }
   },
   name: "update_geomi_project",
@@ -74,22 +93,46 @@ export const updateProjectTool = {
  * Tool to delete a Project for your Geomi Organization.
  */
 export const deleteProjectTool = {
+  annotations: { destructiveHint: true },
   description:
-    "Delete a Project for your Geomi Organization. Geomi is the essential toolkit for Aptos developers.",
+    "Delete a Project for your Geomi Organization, with all its applications and API keys. Geomi is the essential toolkit for Aptos developers. The user is asked to confirm first.",
   execute: async (
-    args: { organization_id: string; project_id: string },
+    args: {
+      confirm_token?: string;
+      dry_run?: boolean;
+      organization_id: string;
+      project_id: string;
+    },
     context: any,
   ) => {
     try {
       await recordTelemetry({ action: "delete_project" }, context);
       const geomi = new Geomi(context);
+      if (args.dry_run) {
+        return JSON.stringify(
+          planDeleteProject(await geomi.getApplications(), args),
+        );
+      }
+      const unconfirmed = await confirmDeletion(
+        "delete_geomi_project",
+        args,
+        context,
+        async () =>
+          describeDeletion(await geomi.getApplications(), {
+            organizationId: args.organization_id,
+            projectId: args.project_id,
+          }),
+      );
+      if (unconfirmed) {
+        return unconfirmed;
+      }
       const response = await geomi.deleteProject({
         organization_id: args.organization_id,
         project_id: args.project_id,
       });
       return JSON.stringify(response);
     } catch (error) {
-      return `❌ Failed to delete project: ${error}`;
+      return toToolError("delete project", error);
     }
   },
   name: "delete_geomi_project",
@@ -0,0 +1,353 @@
+import { writeFileSync } from "node:fs";
+import { join } from "node:path";
+
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+
+import { config } from "../../config.js";
+import { installTestSandbox, type TestSandbox } from "../../sandbox/testing.js";
+import { GasStation, toGasStationRule } from "../../services/GasStation.js";
+import { Geomi } from "../../services/Geomi.js";
+import {
+  createGasStationApplicationTool,
+  getApplicationsTool,
+} from "./applications.js";
+import { createOrganizationTool } from "./organization.js";
+import { createProjectTool } from "./projects.js";
+import {
+  cleanupProvisioningRunTool,
+  getProvisioningRunsTool,
+  resumeProvisioningRunTool,
+} from "./provisioning.js";
+
+const context = { log: { error: vi.fn(), info: vi.fn() } };
+
+const parse = async (result: Promise<unknown>) =>
+  JSON.parse((await result) as string);
+
+describe("provisioning runs", () => {
+  let deleteFails: boolean;
+  let sandbox: TestSandbox;
+
+  beforeEach(() => {
+    deleteFails = false;
+    sandbox = installTestSandbox({
+      wrapFetch: (fetch) => (input, init) =>
+        deleteFails && String(input).includes("deleteApplicationV2")
+          ? Promise.resolve(
+              Response.json({ message: "unavailable" }, { status: 400 }),
+            )
+          : fetch(input, init),
+    });
+  });
+
+  afterEach(() => {
+    sandbox.restore();
+  });
+
+  // The context cannot elicit, so the user confirms with a token
+  const cleanup = async (runId: string) => {
+    const summary = await cleanupProvisioningRunTool.execute(
+      { run_id: runId },
+      context,
+    );
+    return parse(
+      cleanupProvisioningRunTool.execute(
+        {
+          confirm_token: String(summary).match(/confirm_token "(\w+)"/)?.[1],
+          run_id: runId,
+        },
+        context,
+      ),
+    );
+  };
+
+  const createProject = async () => {
+    const organization = await parse(
+      createOrganizationTool.execute({ name: "acme" }, context),
+    );
+    const project = await parse(
+      createProjectTool.execute(
+        {
+          description: "",
+          organization_id: organization.id,
+          project_name: "dapp",
+        },
+        context,
+      ),
+    );
+    return { organization, project };
+  };
+
+  it("cleans up a gas station application whose rollback failed", async () => {
+    const { organization, project } = await createProject();
+    deleteFails = true;
+
+    const result = await createGasStationApplicationTool.execute(
+      {
+        api_key_name: "sponsor-key",
+        functions: ["0x1::counter::reset", "0x1::counter::reset"],
+        name: "sponsor",
+        network: "testnet",
+        organization_id: organization.id,
+        project_id: project.id,
+      },
+      context,
+    );
+
+    const {
+      runs: [run],
+    } = await parse(getProvisioningRunsTool.execute({}, context));
+    expect(run).toMatchObject({
+      completed: ["application", "api_key", "gas_station"],
+      failures: [{ step: "application" }],
+      saga: "create_gas_station_application",
+      status: "rollback_failed",
+    });
+    expect(result).toMatchObject({
+      content: [
+        {
+          text: expect.stringMatching(
+            /Undoing these steps failed too:\n- application: [\s\S]*cleanup_geomi_provisioning_run with run_id/,
+          ),
+        },
+      ],
+      isError: true,
+    });
+    expect(
+      await resumeProvisioningRunTool.execute({ run_id: run.id }, context),
+    ).toMatchObject({ isError: true });
+
+    deleteFails = false;
+    const summary = await cleanupProvisioningRunTool.execute(
+      { run_id: run.id },
+      context,
+    );
+    expect(summary).toContain(
+      `Clean up create_gas_station_application run ${run.id}?`,
+    );
+    expect(summary).toContain("- Steps to undo: application");
+    await expect(cleanup(run.id)).resolves.toEqual({
+      runId: run.id,
+      undone: ["application"],
+    });
+    await expect(
+      parse(getProvisioningRunsTool.execute({}, context)),
+    ).resolves.toEqual({ runs: [], unreadable: [] });
+    const [membership] = await parse(getApplicationsTool.execute({}, context));
+    expect(membership.Organization.Project[0].Application).toEqual([]);
+  });
+
+  // A run that stopped while `step` ran, after the steps before it
+  // finished. `setUp` creates what the run had created by then.
+  const interruptRun = async (
+    step: string,
+    completed: string[],
+    setUp: (ids: {
+      application_id: string;
+      organization_id: string;
+      project_id: string;
+    }) => Promise<void>,
+  ) => {
+    const { organization, project } = await createProject();
+    const input = {
+      api_key_name: "sponsor-key",
+      functions: ["0x1::counter::increment", "0x1::counter::reset"],
+      name: "sponsor",
+      network: "testnet",
+      organization_id: organization.id,
+      project_id: project.id,
+    };
+    const geomi = new Geomi(context as never);
+    const application = await geomi.createApplication({
+      args: {
+        description: null,
+        name: "sponsor",
+        network: "testnet",
+        service_type: "Gs",
+      },
+      organization_id: organization.id,
+      project_id: project.id,
+    });
+    const ids = {
+      application_id: application.id,
+      organization_id: organization.id,
+      project_id: project.id,
+    };
+    await geomi.createApiKey({
+      ...ids,
+      frontend_args: null,
+      name: "sponsor-key",
+    });
+    await setUp(ids);
+    const id = "7d0c5d0e-3f0b-4d5e-9a51-5f6d1e2c3b4a";
+    writeFileSync(
+      join(config.journal.dir, `${id}.json`),
+      JSON.stringify({
+        compensated: [],
+        completed,
+        failures: [],
+        id,
+        input,
+        profile: config.profile.name,
+        saga: "create_gas_station_application",
+        startedAt: "2026-01-01T00:00:00.000Z",
+        state: {
+          apiKey: { name: "sponsor-key" },
+          application: { id: application.id, name: "sponsor" },
+        },
+        status: "running",
+        step,
+        updatedAt: "2026-01-01T00:00:00.000Z",
+      }),
+    );
+    return { id, ids };
+  };
+
+  it("resumes a run whose gas station was created without creating it again", async () => {
+    const { id, ids } = await interruptRun(
+      "gas_station",
+      ["application", "api_key"],
+      async (ids) => {
+        await new GasStation(context as never, "testnet").createGasStation(ids);
+      },
+    );
+
+    const resumed = await parse(
+      resumeProvisioningRunTool.execute({ run_id: id }, context),
+    );
+
+    expect(resumed.interruptedStep).toEqual({
+      name: "gas_station",
+      outcome: "recovered",
+    });
+    expect(resumed.result.gasStationRules).toEqual([
+      expect.objectContaining({ status: "created" }),
+      expect.objectContaining({ status: "created" }),
+    ]);
+    expect(
+      await new GasStation(context as never, "testnet").getGasStationRules(ids),
+    ).toHaveLength(2);
+  });
+
+  it("resumes a run that created some rules by creating only the others", async () => {
+    const { id, ids } = await interruptRun(
+      "gas_station_rules",
+      ["application", "api_key", "gas_station"],
+      async (ids) => {
+        const gasStation = new GasStation(context as never, "testnet");
+        await gasStation.createGasStation(ids);
+        await gasStation.createGasStationRules({
+          ...ids,
+          rules: [toGasStationRule("0x1::counter::reset")],
+        });
+      },
+    );
+
+    const resumed = await parse(
+      resumeProvisioningRunTool.execute({ run_id: id }, context),
+    );
+
+    expect(resumed.interruptedStep).toEqual({
+      name: "gas_station_rules",
+      outcome: "continued",
+    });
+    expect(resumed.warning).toBeUndefined();
+    expect(
+      resumed.result.gasStationRules.map(
+        (result: { function: string; status: string }) =>
+          `${result.function}: ${result.status}`,
+      ),
+    ).toEqual([
+      "0x1::counter::increment: created",
+      "0x1::counter::reset: created",
+    ]);
+    expect(resumed.result.retryFailedRules).toBeUndefined();
+    expect(
+      await new GasStation(context as never, "testnet").getGasStationRules(ids),
+    ).toHaveLength(2);
+  });
+
+  // A run that stopped after the application was created, before the
+  // journal recorded it
+  const interruptApplicationStep = async () => {
+    const { organization, project } = await createProject();
+    const input = {
+      api_key_name: "sponsor-key",
+      functions: ["0x1::counter::reset"],
+      name: "sponsor",
+      network: "testnet",
+      organization_id: organization.id,
+      project_id: project.id,
+    };
+    await new Geomi(context as never).createApplication({
+      args: {
+        description: null,
+        name: "sponsor",
+        network: "testnet",
+        service_type: "Gs",
+      },
+      organization_id: organization.id,
+      project_id: project.id,
+    });
+    const id = "7d0c5d0e-3f0b-4d5e-9a51-5f6d1e2c3b4a";
+    writeFileSync(
+      join(config.journal.dir, `${id}.json`),
+      JSON.stringify({
+        compensated: [],
+        completed: [],
+        failures: [],
+        id,
+        input,
+        profile: config.profile.name,
+        saga: "create_gas_station_application",
+        startedAt: "2026-01-01T00:00:00.000Z",
+        state: {},
+        status: "running",
+        step: "application",
+        updatedAt: "2026-01-01T00:00:00.000Z",
+      }),
+    );
+
+    return id;
+  };
+
+  it("cleans up the application of a run that stopped while creating it", async () => {
+    const id = await interruptApplicationStep();
+
+    await expect(cleanup(id)).resolves.toEqual({
+      runId: id,
+      undone: ["application"],
+    });
+    await expect(
+      parse(getProvisioningRunsTool.execute({}, context)),
+    ).resolves.toEqual({ runs: [], unreadable: [] });
+    const [membership] = await parse(getApplicationsTool.execute({}, context));
+    expect(membership.Organization.Project[0].Application).toEqual([]);
+  });
+
+  it("resumes a run without creating the application it had created again", async () => {
+    const id = await interruptApplicationStep();
+
+    const resumed = await parse(
+      resumeProvisioningRunTool.execute({ run_id: id }, context),
+    );
+
+    expect(resumed.interruptedStep).toEqual({
+      name: "application",
+      outcome: "recovered",
+    });
+    expect(resumed.warning).toBeUndefined();
+    expect(resumed.result.gasStationRules).toEqual([
+      expect.objectContaining({ status: "created" }),
+    ]);
+    const [membership] = await parse(getApplicationsTool.execute({}, context));
+    expect(
+      membership.Organization.Project[0].Application.map(
+        (application: { apiKeys: { name: string }[]; name: string }) => [
+          application.name,
+          application.apiKeys.map((key) => key.name),
+        ],
+      ),
+    ).toEqual([["sponsor", ["sponsor-key"]]]);
+  });
+});
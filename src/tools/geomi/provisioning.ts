@@ -0,0 +1,151 @@
+import { GeomiNotFoundError } from "../../services/errors.js";
+import {
+  cleanupSaga,
+  listJournals,
+  readJournal,
+  resumeSaga,
+  type Saga,
+  type SagaContext,
+  type SagaJournal,
+} from "../../services/saga.js";
+import { recordTelemetry } from "../../utils/telemetry.js";
+import {
+  CleanupProvisioningRunToolScheme,
+  GetProvisioningRunsToolScheme,
+  ProvisioningRunToolScheme,
+} from "../types/organization.js";
+import { createGasStationApplicationSaga } from "./applications.js";
+import { confirmDeletion } from "./confirmation.js";
+import { provisionDappSaga } from "./dapp.js";
+import { toToolError } from "./errors.js";
+
+const sagaTools = <I, S, R>(saga: Saga<I, S, R>) => ({
+  cleanup: (id: string, context: SagaContext) => cleanupSaga(saga, id, context),
+  resume: (id: string, context: SagaContext) => resumeSaga(saga, id, context),
+});
+
+// The sagas whose runs can be resumed or cleaned up, by name
+const SAGAS: Record<string, ReturnType<typeof sagaTools>> = {
+  [createGasStationApplicationSaga.name]: sagaTools(
+    createGasStationApplicationSaga,
+  ),
+  [provisionDappSaga.name]: sagaTools(provisionDappSaga),
+};
+
+const findSaga = (runId: string) => {
+  const journal = readJournal(runId);
+  const saga = SAGAS[journal.saga];
+  if (!saga) {
+    throw new GeomiNotFoundError(
+      `Run ${runId} is a ${journal.saga} run, which this server does not know.`,
+    );
+  }
+  return { journal, saga };
+};
+
+// What cleaning up a run deletes, for the user to confirm
+const describeCleanup = (journal: SagaJournal) => {
+  const steps = journal.completed
+    .filter((step) => !journal.compensated.includes(step))
+    .reverse();
+  return [
+    `Clean up ${journal.saga} run ${journal.id}?`,
+    `- Started: ${journal.startedAt}`,
+    `- Steps to undo: ${steps.join(", ") || "none"}`,
+    ...(journal.step
+      ? [
+          `- Interrupted step: ${journal.step}, undone too when it finds what it created`,
+        ]
+      : []),
+    `- Arguments: ${JSON.stringify(journal.input)}`,
+    "What these steps created is deleted, e.g. applications or a project. It cannot be undone.",
+  ].join("\n");
+};
+
+/**
+ * Tool to list the multi-step runs that did not finish.
+ */
+export const getProvisioningRunsTool = {
+  annotations: { readOnlyHint: true },
+  description:
+    "Get the multi-step Geomi runs of the active profile, e.g. create_gas_station_application, that did not finish: runs interrupted by a restart, and runs whose rollback failed. Each has the steps that finished, the ids of what they created, and the errors. Resume interrupted runs with resume_geomi_provisioning_run, or undo them with cleanup_geomi_provisioning_run. Journal files that cannot be read are listed apart, with the reason.",
+  execute: async (_args: Record<string, never>, context: SagaContext) => {
+    try {
+      await recordTelemetry({ action: "get_provisioning_runs" }, context);
+      return JSON.stringify(listJournals());
+    } catch (error) {
+      return toToolError("get provisioning runs", error);
+    }
+  },
+  name: "get_geomi_provisioning_runs",
+  parameters: GetProvisioningRunsToolScheme,
+};
+
+/**
+ * Tool to continue an interrupted multi-step run.
+ */
+export const resumeProvisioningRunTool = {
+  description:
+    "Continue a multi-step Geomi run that was interrupted, e.g. by a restart, from the first step that did not finish. The step that was running when the run stopped first looks for what it did, e.g. the rules it created, and runs again only for what is left; a step that cannot tell runs again from scratch. Returns what the original tool would have returned as result, and what became of that step. Runs whose rollback failed cannot be resumed; clean them up with cleanup_geomi_provisioning_run instead.",
+  execute: async (args: { run_id: string }, context: SagaContext) => {
+    try {
+      await recordTelemetry({ action: "resume_provisioning_run" }, context);
+      const { interruptedStep, result } = await findSaga(
+        args.run_id,
+      ).saga.resume(args.run_id, context);
+      return JSON.stringify({
+        interruptedStep,
+        result,
+        ...(interruptedStep?.outcome === "retried" && {
+          warning: `The ${interruptedStep.name} step was running when the run stopped, and ran again. Check with get_geomi_applications whether it created anything twice, and delete the extra one if so.`,
+        }),
+      });
+    } catch (error) {
+      return toToolError("resume provisioning run", error);
+    }
+  },
+  name: "resume_geomi_provisioning_run",
+  parameters: ProvisioningRunToolScheme,
+};
+
+/**
+ * Tool to undo what an unfinished multi-step run created.
+ */
+export const cleanupProvisioningRunTool = {
+  annotations: { destructiveHint: true },
+  description:
+    "Undo what a multi-step Geomi run created when it was interrupted or its rollback failed, e.g. delete the application of a failed create_gas_station_application. The step that was running when the run stopped is undone too, once it finds what it created. Steps that cannot be undone stay in the run, so the cleanup can be retried. The user is asked to confirm first.",
+  execute: async (
+    args: { confirm_token?: string; run_id: string },
+    context: SagaContext,
+  ) => {
+    try {
+      await recordTelemetry({ action: "cleanup_provisioning_run" }, context);
+      const { journal, saga } = findSaga(args.run_id);
+      const unconfirmed = await confirmDeletion(
+        "cleanup_geomi_provisioning_run",
+        args,
+        context,
+        async () => describeCleanup(journal),
+      );
+      if (unconfirmed) {
+        return unconfirmed;
+      }
+      const { undone, unrecoveredStep } = await saga.cleanup(
+        args.run_id,
+        context,
+      );
+      return JSON.stringify({
+        runId: args.run_id,
+        undone,
+        ...(unrecoveredStep && {
+          warning: `The ${unrecoveredStep} step was running when the run stopped, and cannot tell what it created. Check with get_geomi_applications whether it created anything, and delete it if so.`,
+        }),
+      });
+    } catch (error) {
+      return toToolError("clean up provisioning run", error);
+    }
+  },
+  name: "cleanup_geomi_provisioning_run",
+  parameters: CleanupProvisioningRunToolScheme,
+};
@@ -0,0 +1,95 @@
+import { describe, expect, it } from "vitest";
+
+import { GeomiValidationError } from "../../services/errors.js";
+import { DEFAULT_GAS_STATION_RULE_CONFIG } from "../../services/GasStation.js";
+import {
+  RULE_CONFIG_PRESETS,
+  resolveRuleConfig,
+  toGasStationRules,
+} from "./ruleConfig.js";
+
+describe("resolveRuleConfig", () => {
+  it("overrides a preset with the values given next to it", () => {
+    expect(
+      resolveRuleConfig(DEFAULT_GAS_STATION_RULE_CONFIG, {
+        maxGasAmountMax: 50_000,
+        preset: "conservative",
+      }),
+    ).toEqual({
+      ...RULE_CONFIG_PRESETS.conservative,
+      maxGasAmountMax: "50000",
+    });
+  });
+
+  it("sends gas amounts as plain digits, however they were written", () => {
+    expect(
+      resolveRuleConfig(DEFAULT_GAS_STATION_RULE_CONFIG, {
+        gasUnitPriceMax: "1_000",
+        maxGasAmountMax: "300_000",
+      }),
+    ).toMatchObject({ gasUnitPriceMax: "1000", maxGasAmountMax: "300000" });
+  });
+
+  it("keeps the values of the base that are not given", () => {
+    expect(
+      resolveRuleConfig(RULE_CONFIG_PRESETS.generous, {
+        txExpiryDurationSecs: 30,
+      }),
+    ).toEqual({ ...RULE_CONFIG_PRESETS.generous, txExpiryDurationSecs: 30 });
+  });
+
+  it.each([
+    [{ gasUnitPriceMax: "90" }, "gasUnitPriceMin (100) is above"],
+    [{ gasUnitPriceMin: 50 }, "gasUnitPriceMin must be at least 100"],
+    [{ windowGasLimit: 1000 }, "must both be set, or both be null"],
+    [{ txExpiryDurationSecs: -1 }, "txExpiryDurationSecs"],
+  ])("rejects %o", (input, message) => {
+    expect(() =>
+      resolveRuleConfig(DEFAULT_GAS_STATION_RULE_CONFIG, input),
+    ).toThrow(message);
+  });
+});
+
+describe("toGasStationRules", () => {
+  it("applies the config of a function over the one of the call", () => {
+    const [increment, reset] = toGasStationRules(
+      [
+        "0x1::counter::increment",
+        { config: { preset: "generous" }, function: "0x1::counter::reset" },
+      ],
+      { preset: "conservative" },
+    );
+
+    expect(increment).toEqual({
+      config: RULE_CONFIG_PRESETS.conservative,
+      id: {
+        functionModule: "counter",
+        functionName: "increment",
+        functionPackage: "0x1",
+      },
+    });
+    expect(reset.config).toEqual(RULE_CONFIG_PRESETS.generous);
+  });
+
+  it("sends the default config without one", () => {
+    expect(toGasStationRules(["0x1::counter::increment"])[0].config).toBe(
+      DEFAULT_GAS_STATION_RULE_CONFIG,
+    );
+  });
+
+  it("names the function with an invalid config", () => {
+    expect(() =>
+      toGasStationRules([
+        {
+          config: { maxGasAmountMin: "500", maxGasAmountMax: "100" },
+          function: "0x1::counter::reset",
+        },
+      ]),
+    ).toThrow(
+      expect.objectContaining({
+        constructor: GeomiValidationError,
+        message: expect.stringContaining("0x1::counter::reset: Invalid"),
+      }),
+    );
+  });
+});
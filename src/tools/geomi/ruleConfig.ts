@@ -0,0 +1,123 @@
+import { z } from "zod";
+
+import { GeomiValidationError } from "../../services/errors.js";
+import {
+  DEFAULT_GAS_STATION_RULE_CONFIG,
+  type GasStationRule,
+  type GasStationRuleConfig,
+  toGasStationRule,
+} from "../../services/GasStation.js";
+import {
+  type GAS_STATION_RULE_PRESETS,
+  type GasStationRuleConfigInput,
+  GasStationRuleConfigScheme,
+  toGasAmount,
+} from "../types/organization.js";
+
+export const RULE_CONFIG_PRESETS: Record<
+  (typeof GAS_STATION_RULE_PRESETS)[number],
+  GasStationRuleConfig
+> = {
+  // Small, frequent transactions such as mints or game moves, with an hourly
+  // budget per function so a bug or a bot cannot drain the gas station
+  conservative: {
+    gasUnitPriceMax: "150",
+    gasUnitPriceMin: "100",
+    maxGasAmountMax: "20000",
+    maxGasAmountMin: "3",
+    skipSimulation: false,
+    txExpiryDurationSecs: 60,
+    windowDurationSecs: 3600,
+    windowGasLimit: 100000,
+  },
+  default: DEFAULT_GAS_STATION_RULE_CONFIG,
+  // Heavy transactions, and room for gas price spikes on a busy network
+  generous: {
+    gasUnitPriceMax: "1000",
+    gasUnitPriceMin: "100",
+    maxGasAmountMax: "1000000",
+    maxGasAmountMin: "3",
+    skipSimulation: false,
+    txExpiryDurationSecs: 300,
+    windowDurationSecs: null,
+    windowGasLimit: null,
+  },
+};
+
+// The gas station takes octas and gas units as strings
+const GAS_AMOUNT_KEYS = [
+  "gasUnitPriceMax",
+  "gasUnitPriceMin",
+  "maxGasAmountMax",
+  "maxGasAmountMin",
+];
+
+// A function to sponsor, with its own limits or with those of the call
+export type SponsoredFunction =
+  | string
+  | { config?: GasStationRuleConfigInput; function: string };
+
+/**
+ * Apply config inputs on top of a rule config, in order. A preset in an input
+ * replaces everything before it, its other values then override the preset.
+ * Throws when the resulting config is invalid, e.g. a minimum above its
+ * maximum.
+ */
+export function resolveRuleConfig(
+  base: GasStationRuleConfig,
+  ...inputs: (GasStationRuleConfigInput | undefined)[]
+): GasStationRuleConfig {
+  let config = base;
+  for (const input of inputs) {
+    if (!input) {
+      continue;
+    }
+    const { preset, ...values } = input;
+    config = { ...(preset ? RULE_CONFIG_PRESETS[preset] : config) };
+    for (const [key, value] of Object.entries(values)) {
+      if (value !== undefined) {
+        Object.assign(config, {
+          [key]: GAS_AMOUNT_KEYS.includes(key)
+            ? toGasAmount(value as number | string)
+            : value,
+        });
+      }
+    }
+  }
+
+  const parsed = GasStationRuleConfigScheme.safeParse(config);
+  if (!parsed.success) {
+    throw new GeomiValidationError(
+      `Invalid gas station rule config: ${z.prettifyError(parsed.error)}`,
+    );
+  }
+  return config;
+}
+
+/**
+ * The rules to create for the functions of a tool call. `ruleConfig` applies
+ * to every function, the config of a function overrides it.
+ */
+export function toGasStationRules(
+  functions: SponsoredFunction[],
+  ruleConfig?: GasStationRuleConfigInput,
+): GasStationRule[] {
+  return functions.map((sponsored) => {
+    const { config, function: contractFunction } =
+      typeof sponsored === "string" ? { function: sponsored } : sponsored;
+    let resolved: GasStationRuleConfig;
+    try {
+      resolved = resolveRuleConfig(
+        DEFAULT_GAS_STATION_RULE_CONFIG,
+        ruleConfig,
+        config,
+      );
+    } catch (error) {
+      if (error instanceof GeomiValidationError) {
+        throw new GeomiValidationError(`${contractFunction}: ${error.message}`);
+      }
+      throw error;
+    }
+    return toGasStationRule(contractFunction, resolved);
+  });
+}
@@ -0,0 +1,55 @@
+import { describe, expect, it } from "vitest";
+
+import {
+  fingerprintSecret,
+  maskSecret,
+  redactApiKeySecrets,
+} from "./secrets.js";
+
+const SECRET = "aptoslabs_Ab1Cd2Ef3_Gh4Ij5Kl6Mn7";
+
+describe("maskSecret", () => {
+  it("keeps the key prefix and a few characters of each end", () => {
+    expect(maskSecret(SECRET)).toBe("aptoslabs_Ab1…6Mn7");
+  });
+
+  it("hides short secrets completely", () => {
+    expect(maskSecret("aptoslabs_short")).toBe("aptoslabs_…");
+    expect(maskSecret("abc")).toBe("…");
+  });
+});
+
+describe("redactApiKeySecrets", () => {
+  it("masks key secrets at any depth and adds their fingerprint", () => {
+    const organizations = [
+      {
+        Organization: {
+          Project: [
+            {
+              Application: [
+                { apiKeys: [{ keySecret: SECRET, name: "web" }], id: "app-1" },
+              ],
+            },
+          ],
+        },
+      },
+    ];
+
+    const redacted = redactApiKeySecrets(organizations);
+
+    expect(JSON.stringify(redacted)).not.toContain(SECRET);
+    expect(redacted[0].Organization.Project[0].Application[0].apiKeys).toEqual([
+      {
+        keySecret: "aptoslabs_Ab1…6Mn7",
+        keySecretFingerprint: fingerprintSecret(SECRET),
+        name: "web",
+      },
+    ]);
+  });
+
+  it("fingerprints the same secret the same way", () => {
+    expect(fingerprintSecret(SECRET)).toMatch(/^sha256:[0-9a-f]{16}$/);
+    expect(fingerprintSecret(SECRET)).toBe(fingerprintSecret(SECRET));
+    expect(fingerprintSecret(SECRET)).not.toBe(fingerprintSecret(`${SECRET}x`));
+  });
+});
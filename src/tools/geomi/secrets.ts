@@ -0,0 +1,52 @@
+import { createHash } from "node:crypto";
+
+// Geomi key secrets start with this, it is kept in previews so the kind of
+// key stays recognizable
+const KEY_PREFIX = "aptoslabs_";
+const VISIBLE_CHARS = 4;
+
+/**
+ * A preview that tells keys apart without revealing them, e.g.
+ * `aptoslabs_abc…wxyz`.
+ */
+export function maskSecret(secret: string): string {
+  const prefix = secret.startsWith(KEY_PREFIX) ? KEY_PREFIX : "";
+  const rest = secret.slice(prefix.length);
+  if (rest.length <= VISIBLE_CHARS * 2) {
+    return `${prefix}…`;
+  }
+  return `${prefix}${rest.slice(0, 3)}…${rest.slice(-VISIBLE_CHARS)}`;
+}
+
+/**
+ * A stable fingerprint to check that a key written somewhere is the expected
+ * one, without comparing the secrets themselves.
+ */
+export function fingerprintSecret(secret: string): string {
+  return `sha256:${createHash("sha256").update(secret).digest("hex").slice(0, 16)}`;
+}
+
+/**
+ * Replace every `keySecret` at any depth with its masked preview, and add its
+ * `keySecretFingerprint` next to it. Tool results end up in the transcript of
+ * the agent, so API keys and organization trees go through this before they
+ * are returned.
+ */
+export function redactApiKeySecrets<T>(value: T): T {
+  if (Array.isArray(value)) {
+    return value.map(redactApiKeySecrets) as T;
+  }
+  if (typeof value !== "object" || value === null) {
+    return value;
+  }
+  const redacted: Record<string, unknown> = {};
+  for (const [key, child] of Object.entries(value)) {
+    if (key === "keySecret" && typeof child === "string") {
+      redacted.keySecret = maskSecret(child);
+      redacted.keySecretFingerprint = fingerprintSecret(child);
+    } else {
+      redacted[key] = redactApiKeySecrets(child);
+    }
+  }
+  return redacted as T;
+}
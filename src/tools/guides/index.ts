@@ -0,0 +1,19 @@
+import type { FastMCP } from "fastmcp";
+
+import { getSearchIndex } from "../../utils/search.js";
+import { searchAptosResourcesTool } from "./search.js";
+import {
+  getAptosResourceOutlineTool,
+  getAptosResourceSectionTool,
+} from "./sections.js";
+import { getAptosCodeSnippetsTool } from "./snippets.js";
+
+export function registerGuideTools(server: FastMCP): void {
+  // Build the search index up front so the first search is fast
+  getSearchIndex();
+
+  server.addTool(searchAptosResourcesTool);
+  server.addTool(getAptosResourceOutlineTool);
+  server.addTool(getAptosResourceSectionTool);
+  server.addTool(getAptosCodeSnippetsTool);
+}
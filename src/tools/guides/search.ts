@@ -0,0 +1,38 @@
+import { matchesResourceFilter } from "../../utils/index.js";
+import { getSearchIndex, searchSections } from "../../utils/search.js";
+import { SearchAptosResourcesToolScheme } from "../types/guides.js";
+
+/**
+ * Tool to search every Aptos guide at the section level.
+ */
+export const searchAptosResourcesTool = {
+  description:
+    "Search all Aptos development guides (how_to, move, management and frontend) and return the best matching sections with their guide, heading and a snippet. Use this to find the right guide before fetching it with get_specific_aptos_resource or reading its aptos:// resource.",
+  execute: async (args: {
+    category?: string;
+    limit?: number;
+    query: string;
+    tag?: string;
+  }) => {
+    const limit = args.limit ?? 5;
+    const filtered = Boolean(args.category || args.tag);
+    // Over-fetch when filtering so the filter still gets `limit` results
+    const results = searchSections(getSearchIndex(), args.query, {
+      limit: filtered ? Number.MAX_SAFE_INTEGER : limit,
+    })
+      .filter((result) => matchesResourceFilter(result.resource, args))
+      .slice(0, limit);
+
+    if (results.length === 0) {
+      return `No Aptos resources matched '${args.query}'. Use list_aptos_resources to see every available guide.`;
+    }
+
+    const matches = results.map(
+      (result, position) =>
+        `${position + 1}. ${result.resource.id} > ${result.heading} (score ${result.score})\n   ${result.resource.uri}${result.anchor ? `#${result.anchor}` : ""}\n   ${result.snippet}`,
+    );
+    return `Aptos resources matching '${args.query}':\n\n${matches.join("\n\n")}`;
+  },
+  name: "search_aptos_resources",
+  parameters: SearchAptosResourcesToolScheme,
+};
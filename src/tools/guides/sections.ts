@@ -0,0 +1,64 @@
+import {
+  describeMissingResource,
+  findAptosResource,
+  readAptosResource,
+} from "../../utils/index.js";
+import {
+  estimateTokens,
+  getSectionByAnchor,
+  parseMarkdownSections,
+} from "../../utils/markdown.js";
+import {
+  GetAptosResourceOutlineToolScheme,
+  GetAptosResourceSectionToolScheme,
+} from "../types/guides.js";
+
+/**
+ * Tool to get the table of contents of an Aptos guide.
+ */
+export const getAptosResourceOutlineTool = {
+  description:
+    "Get the outline (table of contents) of an Aptos development guide with the anchor and approximate token size of each section. Use it to fetch only the sections you need with get_aptos_resource_section.",
+  execute: async (args: { resource: string }) => {
+    const resource = findAptosResource(args.resource);
+    if (!resource) {
+      return describeMissingResource(args.resource);
+    }
+
+    const markdown = await readAptosResource(resource);
+    const outline = parseMarkdownSections(markdown).map((section) => {
+      const indent = "  ".repeat(Math.max(section.level - 1, 0));
+      const label = section.heading || "(introduction)";
+      return `${indent}- ${label} [#${section.anchor}] ~${estimateTokens(section.content)} tokens`;
+    });
+
+    return `Outline of ${resource.id} (${resource.uri}), ~${estimateTokens(markdown)} tokens in total:\n${outline.join("\n")}`;
+  },
+  name: "get_aptos_resource_outline",
+  parameters: GetAptosResourceOutlineToolScheme,
+};
+
+/**
+ * Tool to get a single section of an Aptos guide.
+ */
+export const getAptosResourceSectionTool = {
+  description:
+    "Get a single section (with its subsections) of an Aptos development guide by its anchor. Use get_aptos_resource_outline first to see the available anchors.",
+  execute: async (args: { anchor: string; resource: string }) => {
+    const resource = findAptosResource(args.resource);
+    if (!resource) {
+      return describeMissingResource(args.resource);
+    }
+
+    const sections = parseMarkdownSections(await readAptosResource(resource));
+    const content = getSectionByAnchor(sections, args.anchor);
+    if (content === undefined) {
+      return `Section '${args.anchor}' not found in ${resource.id}. Available anchors:\n${sections
+        .map((section) => `- #${section.anchor}`)
+        .join("\n")}`;
+    }
+    return content;
+  },
+  name: "get_aptos_resource_section",
+  parameters: GetAptosResourceSectionToolScheme,
+};
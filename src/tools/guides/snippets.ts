@@ -0,0 +1,91 @@
+import {
+  describeMissingResource,
+  findAptosResource,
+  readAptosResource,
+} from "../../utils/index.js";
+import {
+  type CodeBlock,
+  extractCodeBlocks,
+  getSubsectionAnchors,
+  parseMarkdownSections,
+} from "../../utils/markdown.js";
+import { getSearchIndex, searchSections } from "../../utils/search.js";
+import { GetAptosCodeSnippetsToolScheme } from "../types/guides.js";
+
+// Number of search results the code is taken from when searching by query
+const QUERY_RESULTS = 3;
+
+const formatBlock = (block: CodeBlock) =>
+  `### ${block.heading || "(introduction)"} [#${block.anchor}]\n\n\`\`\`${block.language}\n${block.code}\n\`\`\``;
+
+/**
+ * Tool to get only the code from an Aptos guide.
+ */
+export const getAptosCodeSnippetsTool = {
+  description:
+    "Get the fenced code blocks from an Aptos development guide, or from the guides best matching a search query, without the prose. Each block is listed under the heading it sits in. Filter by language (ts, tsx, move, toml, bash) and narrow to a section with its anchor.",
+  execute: async (args: {
+    anchor?: string;
+    language?: string;
+    query?: string;
+    resource?: string;
+  }) => {
+    let sources: { anchor?: string; reference: string }[];
+    if (args.resource) {
+      sources = [{ anchor: args.anchor, reference: args.resource }];
+    } else {
+      sources = searchSections(getSearchIndex(), args.query ?? "", {
+        limit: QUERY_RESULTS,
+      }).map((result) => ({
+        anchor: result.anchor,
+        reference: result.resource.id,
+      }));
+      if (sources.length === 0) {
+        return `No Aptos resources matched '${args.query}'. Use list_aptos_resources to see every available guide.`;
+      }
+    }
+
+    const results: string[] = [];
+    for (const source of sources) {
+      const resource = findAptosResource(source.reference);
+      if (!resource) {
+        return describeMissingResource(source.reference);
+      }
+
+      const markdown = await readAptosResource(resource);
+      let blocks = extractCodeBlocks(markdown);
+      if (source.anchor !== undefined) {
+        const anchors = getSubsectionAnchors(
+          parseMarkdownSections(markdown),
+          source.anchor,
+        );
+        if (!anchors) {
+          return `Section '${source.anchor}' not found in ${resource.id}. Use get_aptos_resource_outline to see the available anchors.`;
+        }
+        blocks = blocks.filter((block) => anchors.includes(block.anchor));
+      }
+      if (args.language) {
+        blocks = blocks.filter((block) => block.language === args.language);
+      }
+      if (blocks.length > 0) {
+        results.push(
+          `## ${resource.id} (${resource.uri})\n\n${blocks.map(formatBlock).join("\n\n")}`,
+        );
+      }
+    }
+
+    const language = args.language ? `${args.language} ` : "";
+    if (results.length === 0) {
+      return `No ${language}code blocks found in ${sources
+        .map((source) =>
+          source.anchor
+            ? `${source.reference}#${source.anchor}`
+            : source.reference,
+        )
+        .join(", ")}.`;
+    }
+    return results.join("\n\n");
+  },
+  name: "get_aptos_code_snippets",
+  parameters: GetAptosCodeSnippetsToolScheme,
+};
@@ -1,7 +1,9 @@
 import type { FastMCP } from "fastmcp";
 
 import { registerGeomiTools } from "./geomi/index.js";
+import { registerGuideTools } from "./guides/index.js";
 
 export function registerTools(server: FastMCP): void {
   registerGeomiTools(server);
+  registerGuideTools(server);
 }
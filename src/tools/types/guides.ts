@@ -0,0 +1,118 @@
+import { z } from "zod";
+
+import { RESOURCE_CATEGORIES } from "../../utils/index.js";
+
+// Shared front matter filters for the tools that list or return guides
+export const ResourceFilterToolScheme = z.object({
+  category: z
+    .string()
+    .describe(
+      `Only include guides in this category: a directory (${RESOURCE_CATEGORIES.join(", ")}) or the category from a guide's front matter.`,
+    )
+    .optional(),
+  tag: z
+    .string()
+    .describe(
+      "Only include guides with this tag in their front matter, e.g. 'wallet' or 'gas-station'.",
+    )
+    .optional(),
+});
+
+// List Aptos Resources Scheme
+export const ListAptosResourcesToolScheme = ResourceFilterToolScheme;
+
+// Search Aptos Resources Scheme
+export const SearchAptosResourcesToolScheme = ResourceFilterToolScheme.extend({
+  limit: z
+    .number()
+    .int()
+    .min(1)
+    .max(20)
+    .describe("The maximum number of sections to return. Defaults to 5.")
+    .optional(),
+  query: z
+    .string()
+    .min(1)
+    .describe(
+      "What to look for, e.g. 'gas station 403' or 'wallet adapter signAndSubmit'.",
+    ),
+});
+
+const ResourceReferenceScheme = z
+  .string()
+  .describe(
+    "The guide to read: a '<category>/<name>' id (e.g. 'move/deploy_smart_contract'), an aptos:// uri, or a file name without .md (e.g. 'how_to_add_wallet_connection').",
+  );
+
+// Get Specific Aptos Resource Scheme
+export const GetSpecificAptosResourceToolScheme = z.object({
+  filename: ResourceReferenceScheme,
+});
+
+// Get Aptos Resource Outline Scheme
+export const GetAptosResourceOutlineToolScheme = z.object({
+  resource: ResourceReferenceScheme,
+});
+
+// Get Aptos Resource Section Scheme
+export const GetAptosResourceSectionToolScheme = z.object({
+  anchor: z
+    .string()
+    .describe(
+      "The anchor of the section to return, as listed by get_aptos_resource_outline (e.g. 'step-1-retrieve--display-available-gas-station-api-keys').",
+    ),
+  resource: ResourceReferenceScheme,
+});
+
+// Languages the code snippet tool can filter by
+export const CODE_SNIPPET_LANGUAGES = [
+  "ts",
+  "tsx",
+  "move",
+  "toml",
+  "bash",
+] as const;
+
+// Get Aptos Code Snippets Scheme
+export const GetAptosCodeSnippetsToolScheme = z
+  .object({
+    anchor: z
+      .string()
+      .describe(
+        "Only return code from this section (and its subsections) of the guide, e.g. the anchor of a search_aptos_resources result.",
+      )
+      .optional(),
+    language: z
+      .enum(CODE_SNIPPET_LANGUAGES)
+      .describe("Only return code blocks in this language.")
+      .optional(),
+    query: z
+      .string()
+      .min(1)
+      .describe(
+        "Search the guides and return the code from the best matching sections instead of a named guide, e.g. 'sign and submit transaction'.",
+      )
+      .optional(),
+    resource: ResourceReferenceScheme.optional(),
+  })
+  .refine((args) => args.resource || args.query, {
+    message: "Either resource or query is required",
+  });
+
+// Shared pagination params for the tools that return several guides at once
+export const PaginatedResourcesToolScheme = ResourceFilterToolScheme.extend({
+  cursor: z
+    .string()
+    .describe(
+      "The cursor returned by the previous page. Omit to start from the beginning.",
+    )
+    .optional(),
+  max_tokens: z
+    .number()
+    .int()
+    .min(500)
+    .describe(
+      "Approximate maximum number of tokens to return. When set, the content is split into pages at section boundaries and a cursor is returned for the next page.",
+    )
+    .optional(),
+});
@@ -1,6 +1,8 @@
 import type { CreateApiKeyFrontendArgs } from "@aptos-labs/api-gateway-admin-api-client";
 import { z } from "zod";
 
+import { NETWORKS } from "../../profiles.js";
+
 // Helper to convert Zod-validated frontend_args to API type
 type ZodFrontendArgs = z.infer<typeof CreateApiKeyToolScheme>["frontend_args"];
 
@@ -46,6 +48,13 @@ const HttpLimitRuleSchema = z.object({
   limit: z.number().describe("The limit value"),
 });
 
+const DryRunScheme = z
+  .boolean()
+  .describe(
+    "When true, nothing is changed. Returns the plan instead: the entities affected and the admin API and gas station calls the tool would make.",
+  )
+  .optional();
+
 // Create Api Key Scheme
 export const CreateApiKeyToolScheme = z.object({
   application_id: z
@@ -91,6 +100,7 @@ export const CreateApiKeyToolScheme = z.object({
     .string()
     .describe("The organization id to create the api key for."),
   project_id: z.string().describe("The project id to create the api key for."),
+  dry_run: DryRunScheme,
 });
 
 export const UpdateApiKeyToolScheme = z.object({
@@ -142,8 +152,16 @@ export const UpdateApiKeyToolScheme = z.object({
     .string()
     .describe("The organization id to update the api key for."),
   project_id: z.string().describe("The project id to update the api key for."),
+  dry_run: DryRunScheme,
 });
 
+const ConfirmTokenScheme = z
+  .string()
+  .describe(
+    "The confirm token returned by a previous call of this tool with the same arguments. Only pass it after the user has confirmed the deletion.",
+  )
+  .optional();
+
 export const DeleteApiKeyToolScheme = z.object({
   application_id: z
     .string()
@@ -153,6 +171,60 @@ export const DeleteApiKeyToolScheme = z.object({
     .string()
     .describe("The organization id to delete the api key for."),
   project_id: z.string().describe("The project id to delete the api key for."),
+  confirm_token: ConfirmTokenScheme,
+  dry_run: DryRunScheme,
+});
+
+export const ExportApiKeyToolScheme = z.object({
+  api_key_name: z.string().describe("The name of the api key to export."),
+  application_id: z
+    .string()
+    .describe("The application id of the api key to export."),
+  env_var: z
+    .string()
+    .describe(
+      "The env var to set to the api key, e.g. APTOS_API_KEY. The file is then treated as a dotenv file: the entry is added or replaced and the other lines are kept. If not provided, the file only contains the api key.",
+    )
+    .optional(),
+  file: z
+    .string()
+    .describe(
+      "The absolute path of the local file to write the api key to, e.g. /path/to/project/.env.",
+    ),
+  organization_id: z
+    .string()
+    .describe("The organization id of the api key to export."),
+  overwrite: z
+    .boolean()
+    .describe(
+      "Replace the file when it exists and no env_var is given. Defaults to false, so an existing file is never lost by mistake.",
+    )
+    .optional(),
+  project_id: z.string().describe("The project id of the api key to export."),
+});
+
+export const WriteApiKeyToEnvToolScheme = ExportApiKeyToolScheme.omit({
+  env_var: true,
+  file: true,
+  overwrite: true,
+}).extend({
+  env_file: z
+    .enum([".env", ".env.local"])
+    .describe(
+      "The env file to write to. If not provided, .env.local for Vite and Next.js projects and .env otherwise.",
+    )
+    .optional(),
+  env_var: z
+    .string()
+    .describe(
+      "The env var to set, without the framework prefix. If not provided, APTOS_API_KEY for Api applications and APTOS_GAS_STATION_API_KEY for Gas Station applications.",
+    )
+    .optional(),
+  project_dir: z
+    .string()
+    .describe(
+      "The absolute path of the dapp project, the directory with its package.json.",
+    ),
 });
 
 export const CreateApiResourceApplicationToolScheme = z.object({
@@ -176,27 +248,181 @@ export const CreateApiResourceApplicationToolScheme = z.object({
   project_id: z
     .string()
     .describe("The project id to create the application for."),
+  dry_run: DryRunScheme,
 });
 
+export const GAS_STATION_RULE_PRESETS = [
+  "conservative",
+  "default",
+  "generous",
+] as const;
+
+// Octas and gas units are u64s, sent as strings; "250_000" style is accepted
+const GasAmountScheme = z.union([
+  z.number().int().nonnegative(),
+  z.string().regex(/^\d+(_\d{3})*$/, "Expected a whole number, e.g. 250000"),
+]);
+
+/**
+ * A gas amount as the gas station takes it: digits only, so "250_000" and
+ * 250000 are both sent as "250000".
+ */
+export const toGasAmount = (value: number | string) =>
+  String(value).replaceAll("_", "");
+
+const toNumber = (value: number | string) => Number(toGasAmount(value));
+
+// The lowest gas unit price Aptos validators accept
+const MIN_GAS_UNIT_PRICE = 100;
+
+export const GasStationRuleConfigScheme = z
+  .object({
+    preset: z
+      .enum(GAS_STATION_RULE_PRESETS)
+      .describe(
+        "Start from a named preset: conservative (gas unit price 100 to 150, max gas amount up to 20000, 60s expiry, at most 100000 gas per hour), default (gas unit price 100 to 350, max gas amount up to 250000, 120s expiry, no window limit) or generous (gas unit price up to 1000, max gas amount up to 1000000, 300s expiry, no window limit). Values given next to it override the preset.",
+      )
+      .optional(),
+    gasUnitPriceMax: GasAmountScheme.describe(
+      "The highest gas unit price sponsored, in octas.",
+    ).optional(),
+    gasUnitPriceMin: GasAmountScheme.describe(
+      `The lowest gas unit price sponsored, in octas. At least ${MIN_GAS_UNIT_PRICE}.`,
+    ).optional(),
+    maxGasAmountMax: GasAmountScheme.describe(
+      "The highest max gas amount of a sponsored transaction, in gas units.",
+    ).optional(),
+    maxGasAmountMin: GasAmountScheme.describe(
+      "The lowest max gas amount of a sponsored transaction, in gas units.",
+    ).optional(),
+    skipSimulation: z
+      .boolean()
+      .describe(
+        "Whether to sponsor transactions without simulating them first.",
+      )
+      .optional(),
+    txExpiryDurationSecs: z
+      .number()
+      .int()
+      .positive()
+      .describe("How long a sponsored transaction stays valid, in seconds.")
+      .optional(),
+    windowDurationSecs: z
+      .number()
+      .int()
+      .positive()
+      .nullable()
+      .describe(
+        "The length of the rolling window windowGasLimit applies to, in seconds, or null for no window.",
+      )
+      .optional(),
+    windowGasLimit: z
+      .number()
+      .int()
+      .positive()
+      .nullable()
+      .describe(
+        "The most gas sponsored for the function within a window, or null for no limit.",
+      )
+      .optional(),
+  })
+  .superRefine((config, context) => {
+    const bounds = [
+      ["gasUnitPriceMin", "gasUnitPriceMax"],
+      ["maxGasAmountMin", "maxGasAmountMax"],
+    ] as const;
+    for (const [min, max] of bounds) {
+      const low = config[min];
+      const high = config[max];
+      if (
+        low !== undefined &&
+        high !== undefined &&
+        toNumber(low) > toNumber(high)
+      ) {
+        context.addIssue({
+          code: "custom",
+          message: `${min} (${low}) is above ${max} (${high})`,
+          path: [min],
+        });
+      }
+    }
+    if (
+      config.gasUnitPriceMin !== undefined &&
+      toNumber(config.gasUnitPriceMin) < MIN_GAS_UNIT_PRICE
+    ) {
+      context.addIssue({
+        code: "custom",
+        message: `gasUnitPriceMin must be at least ${MIN_GAS_UNIT_PRICE} octas, transactions below it are rejected`,
+        path: ["gasUnitPriceMin"],
+      });
+    }
+    const { windowDurationSecs, windowGasLimit } = config;
+    if (
+      windowDurationSecs !== undefined &&
+      windowGasLimit !== undefined &&
+      (windowDurationSecs === null) !== (windowGasLimit === null)
+    ) {
+      context.addIssue({
+        code: "custom",
+        message:
+          "windowDurationSecs and windowGasLimit must both be set, or both be null",
+        path: ["windowGasLimit"],
+      });
+    }
+  });
+
+export type GasStationRuleConfigInput = z.infer<
+  typeof GasStationRuleConfigScheme
+>;
+
+const ContractFunctionScheme = z
+  .string()
+  .describe(
+    "The function the rule sponsors, in the format of <module_address>::<module_name>::<function_name>.",
+  );
+
+const SponsoredFunctionsScheme = z
+  .array(
+    z.union([
+      ContractFunctionScheme,
+      z.object({
+        config: GasStationRuleConfigScheme.describe(
+          "The sponsorship limits for this function. Overrides rule_config.",
+        ).optional(),
+        function: ContractFunctionScheme,
+      }),
+    ]),
+  )
+  .describe(
+    "The functions to sponsor. Each is either <module_address>::<module_name>::<function_name>, or an object with the function and its own sponsorship limits.",
+  );
+
+const RuleConfigScheme = GasStationRuleConfigScheme.describe(
+  "The sponsorship limits for every function. If not provided, the default preset.",
+).optional();
+
 export const CreateGasStationApplicationToolScheme =
   CreateApiResourceApplicationToolScheme.omit({ network: true })
     .merge(CreateApiKeyToolScheme.omit({ application_id: true, name: true }))
     .extend({
       network: z
-        .enum(["testnet", "mainnet"])
+        .enum(NETWORKS)
         .describe(
-          "The network to create the gas station application for. Can only be testnet or mainnet.",
+          "The network to create the gas station application for. The active profile must have a gas station for it; production supports testnet and mainnet.",
         ),
       api_key_name: z
         .string()
         .describe(
           "The name of the api key to create the gas station for. This is the name of the api key that will be created for the gas station. Must be between 3 and 32 characters long, with only lowercase letters, numbers, dashes and underscores.",
         ),
-      functions: z
-        .array(z.string())
+      functions: SponsoredFunctionsScheme,
+      on_rule_failure: z
+        .enum(["rollback", "keep"])
         .describe(
-          "A list of functions the gas station will sponsor. Each function should be in the format of <module_address>::<module_name>::<function_name>.",
-        ),
+          "What to do when some rules are rejected. rollback (default) deletes the new application again. keep keeps it with the rules that worked, and returns the arguments to retry only the failed rules with add_gas_station_rules.",
+        )
+        .optional(),
+      rule_config: RuleConfigScheme,
     });
 
 export const CreateProjectToolScheme = z.object({
@@ -209,6 +435,7 @@ export const CreateProjectToolScheme = z.object({
     .describe(
       "The name of the project. Must be between 3 and 32 characters long, with only lowercase letters, numbers, dashes and underscores.",
     ),
+  dry_run: DryRunScheme,
 });
 
 export const CreateOrganizationToolScheme = z.object({
@@ -217,6 +444,7 @@ export const CreateOrganizationToolScheme = z.object({
     .describe(
       "The name of the organization. Must be between 3 and 32 characters long, with only lowercase letters, numbers, dashes and underscores.",
     ),
+  dry_run: DryRunScheme,
 });
 
 export const DeleteApplicationToolScheme = z.object({
@@ -227,6 +455,8 @@ export const DeleteApplicationToolScheme = z.object({
   project_id: z
     .string()
     .describe("The project id to delete the application for."),
+  confirm_token: ConfirmTokenScheme,
+  dry_run: DryRunScheme,
 });
 
 export const UpdateProjectToolScheme = z.object({
@@ -242,6 +472,7 @@ export const UpdateProjectToolScheme = z.object({
     .string()
     .describe("The description of the project.")
     .optional(),
+  dry_run: DryRunScheme,
 });
 
 export const UpdateOrganizationToolScheme = z.object({
@@ -249,6 +480,7 @@ export const UpdateOrganizationToolScheme = z.object({
   organization_id: z
     .string()
     .describe("The organization id to update the organization for."),
+  dry_run: DryRunScheme,
 });
 
 export const DeleteProjectToolScheme = z.object({
@@ -256,6 +488,8 @@ export const DeleteProjectToolScheme = z.object({
     .string()
     .describe("The organization id to delete the project for."),
   project_id: z.string().describe("The project id to delete the project for."),
+  confirm_token: ConfirmTokenScheme,
+  dry_run: DryRunScheme,
 });
 
 export const UpdateApplicationNameToolScheme = z.object({
@@ -269,7 +503,92 @@ export const UpdateApplicationNameToolScheme = z.object({
     .string()
     .describe("The application id to update the name for."),
   new_name: z.string().describe("The new name of the application."),
+  dry_run: DryRunScheme,
 });
 
+const GasStationApplicationScheme = z.object({
+  application_id: z
+    .string()
+    .describe("The id of the gas station (Gs) application."),
+  network: z
+    .enum(NETWORKS)
+    .describe("The network of the gas station application."),
+  organization_id: z
+    .string()
+    .describe("The organization id of the gas station application."),
+  project_id: z
+    .string()
+    .describe("The project id of the gas station application."),
+});
+
+export const GetGasStationRulesToolScheme = GasStationApplicationScheme;
+
+export const AddGasStationRulesToolScheme = GasStationApplicationScheme.extend({
+  dry_run: DryRunScheme,
+  functions: SponsoredFunctionsScheme,
+  rule_config: RuleConfigScheme,
+});
+
+export const UpdateGasStationRuleToolScheme =
+  GasStationApplicationScheme.extend({
+    config: GasStationRuleConfigScheme.describe(
+      "The config values to change. Values not given keep their current value, or the value of the preset when one is given.",
+    ),
+    dry_run: DryRunScheme,
+    function: ContractFunctionScheme,
+  });
+
+export const DeleteGasStationRuleToolScheme =
+  GasStationApplicationScheme.extend({
+    confirm_token: ConfirmTokenScheme,
+    dry_run: DryRunScheme,
+    function: ContractFunctionScheme,
+  });
+
+export const ProvisionDappToolScheme = z.object({
+  allowed_origins: z
+    .array(z.string())
+    .describe(
+      "The web origins the dApp is served from, e.g. https://app.example.com. The new API keys only accept requests from them. If not provided, all origins are allowed.",
+    )
+    .optional(),
+  dry_run: DryRunScheme,
+  functions: SponsoredFunctionsScheme.describe(
+    "Entry functions to sponsor with a gas station on each network. Without them, no gas stations are created.",
+  ).optional(),
+  networks: z
+    .array(z.enum(NETWORKS))
+    .min(1)
+    .describe("The networks to provision the dApp on."),
+  organization_id: z
+    .string()
+    .describe("The organization id to provision the dApp in."),
+  project_description: z
+    .string()
+    .describe("The description of the project, if it is created.")
+    .optional(),
+  project_name: z
+    .string()
+    .describe(
+      "The name of the project. An existing project with this name is reused. Must be between 3 and 32 characters long, with only lowercase letters, numbers, dashes and underscores.",
+    ),
+  rule_config: RuleConfigScheme,
+});
+
+export const GetProvisioningRunsToolScheme = z.object({});
+
+export const ProvisioningRunToolScheme = z.object({
+  run_id: z
+    .string()
+    .describe(
+      "The id of the run, from get_geomi_provisioning_runs or the error of the failed tool.",
+    ),
+});
+
+export const CleanupProvisioningRunToolScheme =
+  ProvisioningRunToolScheme.extend({
+    confirm_token: ConfirmTokenScheme,
+  });
+
 // Query params types
 export type CreateApiKeyParams = z.infer<typeof CreateApiKeyToolScheme>;
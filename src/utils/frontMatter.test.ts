@@ -0,0 +1,50 @@
+import { describe, expect, it } from "vitest";
+
+import { parseFrontMatter } from "./frontMatter.js";
+
+describe("parseFrontMatter", () => {
+  it("parses the supported metadata fields", () => {
+    const { body, error, lines, metadata } = parseFrontMatter(`---
+title: Sponsor Transactions
+category: gas-station
+tags: [gas-station, geomi]
+networks:
+  - testnet
+  - mainnet
+packages:
+  "@aptos-labs/ts-sdk": ">=1.33"
+last_reviewed: 2025-09-05
+---
+
+# Heading
+`);
+
+    expect(error).toBeUndefined();
+    expect(lines).toBe(11);
+    expect(body).toBe("\n# Heading\n");
+    expect(metadata).toEqual({
+      category: "gas-station",
+      last_reviewed: "2025-09-05",
+      networks: ["testnet", "mainnet"],
+      packages: { "@aptos-labs/ts-sdk": ">=1.33" },
+      tags: ["gas-station", "geomi"],
+      title: "Sponsor Transactions",
+    });
+  });
+
+  it("leaves documents without front matter untouched", () => {
+    expect(parseFrontMatter("# Title\n\n---\n\nbody")).toEqual({
+      body: "# Title\n\n---\n\nbody",
+      lines: 0,
+      metadata: {},
+    });
+  });
+
+  it("reports invalid front matter and ignores it", () => {
+    const result = parseFrontMatter("---\ntags: wallet\n---\n# Title\n");
+
+    expect(result.error).toBeDefined();
+    expect(result.metadata).toEqual({});
+    expect(result.body).toBe("# Title\n");
+  });
+});
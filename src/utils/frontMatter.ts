@@ -0,0 +1,59 @@
+import { parse as parseYaml } from "yaml";
+import { z } from "zod";
+
+const FRONT_MATTER_PATTERN = /^---\r?\n([\s\S]*?)\r?\n---[ \t]*(?:\r?\n|$)/;
+
+// Dates may be written quoted or unquoted in YAML
+const DateSchema = z
+  .union([z.string(), z.date()])
+  .transform((value) =>
+    value instanceof Date ? value.toISOString().slice(0, 10) : value,
+  );
+
+/**
+ * Metadata a guide can declare in its YAML front matter. Every field is
+ * optional so guides without front matter keep working.
+ */
+export const GuideMetadataSchema = z.object({
+  category: z.string().optional(),
+  last_reviewed: DateSchema.optional(),
+  networks: z.array(z.string()).optional(),
+  // npm package name -> applicable version range, e.g. "@aptos-labs/ts-sdk": ">=1.33"
+  packages: z.record(z.string(), z.string()).optional(),
+  tags: z.array(z.string()).optional(),
+  title: z.string().optional(),
+});
+
+export type GuideMetadata = z.infer<typeof GuideMetadataSchema>;
+
+export type FrontMatter = {
+  body: string;
+  // Set when the front matter could not be parsed; metadata is then empty
+  error?: string;
+  // Number of lines the front matter block takes up
+  lines: number;
+  metadata: GuideMetadata;
+};
+
+/**
+ * Split a markdown document into its front matter metadata and the body.
+ * Invalid front matter is ignored rather than failing the guide.
+ */
+export function parseFrontMatter(markdown: string): FrontMatter {
+  const match = markdown.match(FRONT_MATTER_PATTERN);
+  if (!match) {
+    return { body: markdown, lines: 0, metadata: {} };
+  }
+
+  const body = markdown.slice(match[0].length);
+  const lines = match[0].split("\n").length - (match[0].endsWith("\n") ? 1 : 0);
+  try {
+    const parsed = GuideMetadataSchema.safeParse(parseYaml(match[1]) ?? {});
+    if (parsed.success) {
+      return { body, lines, metadata: parsed.data };
+    }
+    return { body, error: z.prettifyError(parsed.error), lines, metadata: {} };
+  } catch (error) {
+    return { body, error: String(error), lines, metadata: {} };
+  }
+}
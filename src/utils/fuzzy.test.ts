@@ -0,0 +1,33 @@
+import { describe, expect, it } from "vitest";
+
+import { rankBySimilarity } from "./fuzzy.js";
+
+const candidates = [
+  "how_to/how_to_add_wallet_connection",
+  "how_to/how_to_config_a_full_node_api_key_in_a_dapp",
+  "how_to/how_to_config_a_gas_station_in_a_dapp",
+  "how_to/how_to_integrate_fungible_asset",
+  "move/deploy_smart_contract",
+];
+
+describe("rankBySimilarity", () => {
+  it("matches on the distinctive words rather than shared prefixes", () => {
+    expect(
+      rankBySimilarity("how_to_integrate_gas_station", candidates)[0]
+        ?.candidate,
+    ).toBe("how_to/how_to_config_a_gas_station_in_a_dapp");
+  });
+
+  it("tolerates typos", () => {
+    expect(rankBySimilarity("wallet_conection", candidates)[0]?.candidate).toBe(
+      "how_to/how_to_add_wallet_connection",
+    );
+  });
+
+  it("drops candidates below the threshold and respects the limit", () => {
+    expect(rankBySimilarity("zzz", candidates)).toEqual([]);
+    expect(
+      rankBySimilarity("how_to", candidates, { limit: 2, threshold: 0 }),
+    ).toHaveLength(2);
+  });
+});
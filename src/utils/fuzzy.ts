@@ -0,0 +1,72 @@
+// Split identifiers like `how_to_add_wallet_connection` or `deploy-contract`
+const words = (value: string): string[] =>
+  value
+    .toLowerCase()
+    .split(/[^a-z0-9]+/)
+    .filter(Boolean);
+
+const trigrams = (value: string): Set<string> => {
+  const padded = `  ${value.toLowerCase()} `;
+  const grams = new Set<string>();
+  for (let i = 0; i < padded.length - 2; i++) {
+    grams.add(padded.slice(i, i + 3));
+  }
+  return grams;
+};
+
+const dice = (a: Set<string>, b: Set<string>): number => {
+  if (a.size + b.size === 0) {
+    return 0;
+  }
+  let shared = 0;
+  for (const gram of a) {
+    if (b.has(gram)) {
+      shared++;
+    }
+  }
+  return (2 * shared) / (a.size + b.size);
+};
+
+/**
+ * Rank candidate names by how close they are to the query. Words are weighted
+ * by how rare they are among the candidates, so `how_to_integrate_gas_station`
+ * is matched on "gas" and "station" rather than on the common "how_to".
+ * Character trigrams catch typos on top of that.
+ */
+export function rankBySimilarity(
+  query: string,
+  candidates: string[],
+  { limit = 3, threshold = 0.2 }: { limit?: number; threshold?: number } = {},
+): { candidate: string; score: number }[] {
+  const documentFrequencies = new Map<string, number>();
+  for (const candidate of candidates) {
+    for (const word of new Set(words(candidate))) {
+      documentFrequencies.set(word, (documentFrequencies.get(word) ?? 0) + 1);
+    }
+  }
+  const weight = (word: string) =>
+    Math.log(1 + candidates.length / (documentFrequencies.get(word) ?? 0.5));
+
+  const queryWords = new Set(words(query));
+  const queryTrigrams = trigrams(query);
+
+  return candidates
+    .map((candidate) => {
+      const candidateWords = new Set(words(candidate));
+      let shared = 0;
+      let total = 0;
+      for (const word of new Set([...queryWords, ...candidateWords])) {
+        total += weight(word);
+        if (queryWords.has(word) && candidateWords.has(word)) {
+          shared += weight(word);
+        }
+      }
+      const score =
+        0.7 * (total ? shared / total : 0) +
+        0.3 * dice(queryTrigrams, trigrams(candidate));
+      return { candidate, score };
+    })
+    .filter(({ score }) => score >= threshold)
+    .sort((a, b) => b.score - a.score)
+    .slice(0, limit);
+}
@@ -1,9 +1,26 @@
-import { describe, expect, it } from "vitest";
+import { mkdirSync, mkdtempSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
 
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+
+import { config } from "../config.js";
 import {
+  describeMissingResource,
+  describeResourceMetadata,
+  describeResourceSource,
+  findAptosResource,
+  getAptosResource,
+  getAptosResources,
   getAvailableHowToResources,
+  matchesResourceFilter,
+  parseResourceUri,
   readAllMarkdownFromDirectories,
+  readAptosGuide,
+  readMarkdownChunksFromDirectories,
   readMarkdownFromDirectory,
+  suggestAptosResources,
+  toResourceUri,
 } from "./index.js";
 
 describe("getAvailableHowToResources", () => {
@@ -46,3 +63,217 @@ describe("readAllMarkdownFromDirectories", () => {
     expect(content.length).toBeGreaterThan(100);
   });
 });
+
+describe("getAptosResources", () => {
+  it("discovers guides in every resource category", () => {
+    const resources = getAptosResources();
+    const categories = new Set(resources.map((resource) => resource.category));
+
+    expect([...categories].sort()).toEqual(
+      ["frontend", "how_to", "management", "move"].sort(),
+    );
+  });
+
+  it("gives each guide a stable uri, title and mime type", () => {
+    const resource = getAptosResource("how_to", "how_to_add_wallet_connection");
+
+    expect(resource).toMatchObject({
+      id: "how_to/how_to_add_wallet_connection",
+      mimeType: "text/markdown",
+      title: "How to Add a Wallet Connection",
+      uri: "aptos://how_to/how_to_add_wallet_connection",
+    });
+  });
+});
+
+describe("parseResourceUri", () => {
+  it("round-trips uris built by toResourceUri", () => {
+    expect(
+      parseResourceUri(toResourceUri("move", "deploy_smart_contract")),
+    ).toEqual({ category: "move", name: "deploy_smart_contract" });
+  });
+
+  it("rejects unknown schemes and categories", () => {
+    expect(parseResourceUri("file://how_to/foo")).toBeNull();
+    expect(parseResourceUri("aptos://unknown/foo")).toBeNull();
+  });
+});
+
+describe("findAptosResource", () => {
+  it("resolves ids, uris and bare file names", () => {
+    expect(findAptosResource("move/deploy_smart_contract")?.uri).toBe(
+      "aptos://move/deploy_smart_contract",
+    );
+    expect(
+      findAptosResource("aptos://frontend/write_a_frontend")?.category,
+    ).toBe("frontend");
+    expect(findAptosResource("how_to_add_wallet_connection.md")?.id).toBe(
+      "how_to/how_to_add_wallet_connection",
+    );
+    expect(findAptosResource("does_not_exist")).toBeUndefined();
+  });
+});
+
+describe("suggestAptosResources", () => {
+  it("suggests the closest guides for a name that does not exist", () => {
+    expect(suggestAptosResources("how_to_integrate_gas_station")[0]?.id).toBe(
+      "how_to/how_to_config_a_gas_station_in_a_dapp",
+    );
+    expect(suggestAptosResources("move/deploy_contract.md")[0]?.id).toBe(
+      "move/deploy_smart_contract",
+    );
+    expect(suggestAptosResources("zzz")).toEqual([]);
+  });
+
+  it("lists the suggestions in the not found message", () => {
+    const message = describeMissingResource("how_to_integrate_gas_station");
+    expect(message).toContain(
+      "Resource 'how_to_integrate_gas_station' not found. Did you mean:",
+    );
+    expect(message).toContain("- how_to/how_to_config_a_gas_station_in_a_dapp");
+  });
+});
+
+describe("readMarkdownChunksFromDirectories", () => {
+  it("splits the combined content into sections without losing any", async () => {
+    const chunks = await readMarkdownChunksFromDirectories([
+      "frontend",
+      "move",
+    ]);
+    const combined = await readAllMarkdownFromDirectories(["frontend", "move"]);
+
+    expect(chunks.length).toBeGreaterThan(2);
+    expect(chunks[0].startsWith("# FRONTEND RESOURCES")).toBe(true);
+    expect(chunks.join("").replace(/\s+/g, " ")).toBe(
+      combined.replace(/\s+/g, " "),
+    );
+  });
+});
+
+describe("team resource directories", () => {
+  let teamDir: string;
+
+  beforeEach(() => {
+    teamDir = mkdtempSync(join(tmpdir(), "aptos-mcp-team-"));
+    mkdirSync(join(teamDir, "how_to"));
+    writeFileSync(
+      join(teamDir, "how_to", "how_to_add_wallet_connection.md"),
+      "# Our Wallet Rules\n\nOnly Petra is allowed.\n",
+    );
+    writeFileSync(
+      join(teamDir, "how_to", "our_move_layout.md"),
+      "# Our Move Layout\n",
+    );
+    config.resources.extraDirs.push(teamDir);
+  });
+
+  afterEach(() => {
+    config.resources.extraDirs.splice(
+      config.resources.extraDirs.indexOf(teamDir),
+      1,
+    );
+    rmSync(teamDir, { force: true, recursive: true });
+  });
+
+  it("merges team guides into discovery", () => {
+    expect(getAvailableHowToResources()).toContain("our_move_layout");
+    expect(getAptosResource("how_to", "our_move_layout")?.source).toBe(teamDir);
+  });
+
+  it("lets a team guide shadow the bundled one", async () => {
+    const resource = getAptosResource("how_to", "how_to_add_wallet_connection");
+    if (!resource) {
+      throw new Error("expected the wallet connection guide");
+    }
+
+    expect(resource.title).toBe("Our Wallet Rules");
+    expect(resource.shadows).toEqual(["bundled"]);
+    expect(describeResourceSource(resource)).toBe(
+      `team: ${teamDir}, overrides bundled`,
+    );
+    expect(
+      await readMarkdownFromDirectory("how_to", "how_to_add_wallet_connection"),
+    ).toContain("Only Petra is allowed.");
+    expect(await readAllMarkdownFromDirectories(["how_to"])).toContain(
+      "Only Petra is allowed.",
+    );
+  });
+
+  it("skips categories a team directory does not provide", () => {
+    expect(
+      getAptosResources(["move"]).every(
+        (resource) => resource.source === "bundled",
+      ),
+    ).toBe(true);
+  });
+});
+
+describe("guide front matter", () => {
+  it("exposes the front matter of bundled guides", () => {
+    const resource = getAptosResource(
+      "how_to",
+      "how_to_integrate_fungible_asset",
+    );
+
+    expect(resource?.title).toBe(
+      "How to Integrate the Fungible Asset Standard",
+    );
+    expect(resource?.metadata.tags).toContain("fungible-asset");
+  });
+
+  it("filters by tag and by directory or front matter category", () => {
+    const resources = getAptosResources();
+
+    expect(
+      resources
+        .filter((resource) =>
+          matchesResourceFilter(resource, { tag: "WALLET" }),
+        )
+        .map((resource) => resource.name),
+    ).toContain("how_to_add_wallet_connection");
+    expect(
+      resources.filter((resource) =>
+        matchesResourceFilter(resource, { category: "gas-station" }),
+      ),
+    ).toHaveLength(1);
+    expect(
+      resources
+        .filter((resource) =>
+          matchesResourceFilter(resource, { category: "management" }),
+        )
+        .every((resource) => resource.category === "management"),
+    ).toBe(true);
+  });
+
+  it("keeps front matter out of the combined content", async () => {
+    const content = await readAllMarkdownFromDirectories(["move"], {
+      tag: "deploy",
+    });
+
+    expect(content).toContain("MOVE RESOURCES");
+    expect(content).not.toContain("tags:");
+    expect(content).not.toContain("How to Write a Move Smart Contract");
+  });
+
+  it("keeps front matter out of a single guide", async () => {
+    const resource = getAptosResource("move", "deploy_smart_contract");
+    if (!resource) {
+      throw new Error("expected the deploy guide");
+    }
+
+    const content = await readAptosGuide(resource);
+    expect(content).toMatch(/^# How to Manage a Move Smart Contract/);
+    expect(content).not.toContain("tags:");
+  });
+
+  it("summarizes metadata for listings", () => {
+    const resource = getAptosResource("move", "deploy_smart_contract");
+    if (!resource) {
+      throw new Error("expected the deploy guide");
+    }
+
+    expect(describeResourceMetadata(resource)).toBe(
+      "category: move; tags: move, deploy, cli",
+    );
+  });
+});
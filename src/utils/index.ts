@@ -3,37 +3,325 @@ import { readFile } from "node:fs/promises";
 import { basename, dirname, extname, join as pathJoin } from "node:path";
 import { fileURLToPath } from "node:url";
 
+import { config } from "../config.js";
+import { type GuideMetadata, parseFrontMatter } from "./frontMatter.js";
+import { rankBySimilarity } from "./fuzzy.js";
+import { parseMarkdownSections } from "./markdown.js";
+
 // Get __dirname equivalent in ES modules
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = dirname(__filename);
 
 const resourcesDir = pathJoin(__dirname, "..", "resources");
 
-// Dynamic discovery
-export const getAvailableHowToResources = () => {
+/**
+ * The directories under src/resources that hold the Aptos guides.
+ */
+export const RESOURCE_CATEGORIES = [
+  "how_to",
+  "move",
+  "management",
+  "frontend",
+] as const;
+
+export type ResourceCategory = (typeof RESOURCE_CATEGORIES)[number];
+
+// The source of the guides shipped with the server
+export const BUNDLED_SOURCE = "bundled";
+
+export const RESOURCE_URI_SCHEME = "aptos";
+export const RESOURCE_MIME_TYPE = "text/markdown";
+
+/**
+ * A markdown guide discovered in one of the resource directories.
+ */
+export type AptosResource = {
+  category: ResourceCategory;
+  // `<category>/<name>`, unique across all categories
+  id: string;
+  mimeType: typeof RESOURCE_MIME_TYPE;
+  // File name without the .md extension
+  name: string;
+  path: string;
+  // BUNDLED_SOURCE, or the team directory the guide was loaded from
+  source: string;
+  // From the guide's front matter, empty when it has none
+  metadata: GuideMetadata;
+  // Lower precedence sources that have a guide with the same id
+  shadows: string[];
+  title: string;
+  uri: string;
+};
+
+/**
+ * Guide directories in precedence order: the team directories from the
+ * config first, in the order they are listed, and the bundled guides last.
+ * Each directory mirrors the bundled layout (how_to/, move/, ...).
+ */
+export const getResourceSources = (): { dir: string; source: string }[] => [
+  ...config.resources.extraDirs.map((dir) => ({ dir, source: dir })),
+  { dir: resourcesDir, source: BUNDLED_SOURCE },
+];
+
+export const isResourceCategory = (value: string): value is ResourceCategory =>
+  (RESOURCE_CATEGORIES as readonly string[]).includes(value);
+
+export const toResourceUri = (category: ResourceCategory, name: string) =>
+  `${RESOURCE_URI_SCHEME}://${category}/${name}`;
+
+/**
+ * Parse an `aptos://<category>/<name>` uri. Returns null for anything else.
+ */
+export const parseResourceUri = (
+  uri: string,
+): { category: ResourceCategory; name: string } | null => {
+  const match = uri.match(/^aptos:\/\/([^/]+)\/([^/]+?)(?:\.md)?$/);
+  if (!match || !isResourceCategory(match[1])) {
+    return null;
+  }
+  return { category: match[1], name: match[2] };
+};
+
+// Read the front matter metadata and the title of a guide. The title comes
+// from the front matter, then the first heading, then the file name.
+const readGuideInfo = (
+  filePath: string,
+  name: string,
+): { metadata: GuideMetadata; title: string } => {
   try {
-    const howToDir = pathJoin(resourcesDir, "how_to");
-    const files = fs.readdirSync(howToDir);
-    return files
-      .filter((file) => extname(file).toLowerCase() === ".md")
-      .map((file) => basename(file, extname(file)));
+    const markdown = fs.readFileSync(filePath, "utf-8");
+    const { error, metadata } = parseFrontMatter(markdown);
+    if (error) {
+      console.error(`Invalid front matter in ${filePath}: ${error}`);
+    }
+    const heading = parseMarkdownSections(markdown).find(
+      (section) => section.level > 0,
+    )?.heading;
+    return {
+      metadata,
+      title: metadata.title ?? heading ?? titleFromName(name),
+    };
   } catch (err) {
-    console.error(`Error reading how_to directory: ${err}`);
-    return [];
+    console.error(`Error reading ${filePath}: ${err}`);
+    return { metadata: {}, title: titleFromName(name) };
   }
 };
 
+const titleFromName = (name: string) => name.replace(/_/g, " ");
+
+// Dynamic discovery: the directories are scanned on every call so new guides
+// are picked up without a restart. When several sources have the same guide
+// the one with the highest precedence wins and shadows the others.
+export const getAptosResources = (
+  categories: readonly ResourceCategory[] = RESOURCE_CATEGORIES,
+): AptosResource[] => {
+  const resources: AptosResource[] = [];
+  const sources = getResourceSources();
+
+  for (const category of categories) {
+    const byName = new Map<string, AptosResource>();
+
+    for (const { dir, source } of sources) {
+      const categoryDir = pathJoin(dir, category);
+      let files: string[];
+      try {
+        files = fs.readdirSync(categoryDir);
+      } catch (err) {
+        // Team directories don't have to provide every category
+        if (source === BUNDLED_SOURCE || !isMissingFileError(err)) {
+          console.error(`Error reading ${categoryDir} directory: ${err}`);
+        }
+        continue;
+      }
+
+      for (const file of files) {
+        if (extname(file).toLowerCase() !== ".md") {
+          continue;
+        }
+        const name = basename(file, extname(file));
+        const existing = byName.get(name);
+        if (existing) {
+          existing.shadows.push(source);
+          continue;
+        }
+        const path = pathJoin(categoryDir, file);
+        byName.set(name, {
+          category,
+          id: `${category}/${name}`,
+          mimeType: RESOURCE_MIME_TYPE,
+          name,
+          path,
+          shadows: [],
+          source,
+          ...readGuideInfo(path, name),
+          uri: toResourceUri(category, name),
+        });
+      }
+    }
+
+    resources.push(
+      ...[...byName.values()].sort((a, b) => a.name.localeCompare(b.name)),
+    );
+  }
+
+  return resources;
+};
+
+const isMissingFileError = (err: unknown) =>
+  err instanceof Error && "code" in err && err.code === "ENOENT";
+
+/**
+ * Look up a single guide by category and file name (with or without .md).
+ */
+export const getAptosResource = (
+  category: ResourceCategory,
+  name: string,
+): AptosResource | undefined => {
+  const fileName = name.endsWith(".md") ? basename(name, ".md") : name;
+  return getAptosResources([category]).find(
+    (resource) => resource.name === fileName,
+  );
+};
+
+/**
+ * Resolve a guide reference: an `aptos://` uri, a `<category>/<name>` id or a
+ * bare file name (looked up in every category, how_to first).
+ */
+export const findAptosResource = (
+  reference: string,
+): AptosResource | undefined => {
+  const trimmed = reference.trim();
+  const parsed =
+    parseResourceUri(trimmed) ??
+    parseResourceUri(`${RESOURCE_URI_SCHEME}://${trimmed}`);
+  if (parsed) {
+    return getAptosResource(parsed.category, parsed.name);
+  }
+  const fileName = trimmed.endsWith(".md") ? basename(trimmed, ".md") : trimmed;
+  return getAptosResources().find((resource) => resource.name === fileName);
+};
+
+/**
+ * Narrow a listing down by front matter tag, or by category (either the
+ * directory category or the front matter one). Matching is case-insensitive.
+ */
+export type ResourceFilter = {
+  category?: string;
+  tag?: string;
+};
+
+export const matchesResourceFilter = (
+  resource: AptosResource,
+  { category, tag }: ResourceFilter = {},
+): boolean => {
+  const same = (a: string, b: string) => a.toLowerCase() === b.toLowerCase();
+  if (
+    category &&
+    !same(resource.category, category) &&
+    !(resource.metadata.category && same(resource.metadata.category, category))
+  ) {
+    return false;
+  }
+  if (tag && !resource.metadata.tags?.some((value) => same(value, tag))) {
+    return false;
+  }
+  return true;
+};
+
+/**
+ * One line summary of a guide's front matter for listings, empty without it.
+ */
+export const describeResourceMetadata = ({ metadata }: AptosResource) =>
+  [
+    metadata.category && `category: ${metadata.category}`,
+    metadata.tags?.length && `tags: ${metadata.tags.join(", ")}`,
+    metadata.packages &&
+      `packages: ${Object.entries(metadata.packages)
+        .map(([name, range]) => `${name} ${range}`)
+        .join(", ")}`,
+    metadata.networks?.length && `networks: ${metadata.networks.join(", ")}`,
+    metadata.last_reviewed && `last reviewed: ${metadata.last_reviewed}`,
+  ]
+    .filter(Boolean)
+    .join("; ");
+
+/**
+ * Human readable origin of a guide for listings, e.g.
+ * "team: /repo/docs/aptos, overrides bundled".
+ */
+export const describeResourceSource = (resource: AptosResource): string => {
+  const origin =
+    resource.source === BUNDLED_SOURCE
+      ? BUNDLED_SOURCE
+      : `team: ${resource.source}`;
+  return resource.shadows.length > 0
+    ? `${origin}, overrides ${resource.shadows.join(", ")}`
+    : origin;
+};
+
+/**
+ * The guides whose ids are closest to a reference that did not resolve.
+ */
+export const suggestAptosResources = (
+  reference: string,
+  limit = 3,
+): AptosResource[] => {
+  const byId = new Map(
+    getAptosResources().map((resource) => [resource.id, resource]),
+  );
+  const query = reference
+    .trim()
+    .replace(/^aptos:\/\//, "")
+    .replace(/\.md$/, "");
+  return rankBySimilarity(query, [...byId.keys()], { limit })
+    .map(({ candidate }) => byId.get(candidate))
+    .filter((resource) => resource !== undefined);
+};
+
+/**
+ * Not found message for a guide reference, with the closest matches.
+ */
+export const describeMissingResource = (reference: string): string => {
+  const suggestions = suggestAptosResources(reference);
+  const hint =
+    suggestions.length > 0
+      ? ` Did you mean:\n${suggestions
+          .map((resource) => `- ${resource.id} (${resource.title})`)
+          .join("\n")}\n\n`
+      : "\n\n";
+  return `Resource '${reference}' not found.${hint}Use list_aptos_resources or search_aptos_resources to find the right guide.`;
+};
+
+export async function readAptosResource(
+  resource: AptosResource,
+): Promise<string> {
+  return readFile(resource.path, "utf-8");
+}
+
+/**
+ * Read a guide for display, without its front matter. The listing tools show
+ * the metadata instead.
+ */
+export async function readAptosGuide(resource: AptosResource): Promise<string> {
+  return parseFrontMatter(await readAptosResource(resource)).body.trimStart();
+}
+
+export const getAvailableHowToResources = () =>
+  getAptosResources(["how_to"]).map((resource) => resource.name);
+
 /**
  * Helper function to read all markdown files from multiple directories
  */
 export async function readAllMarkdownFromDirectories(
   dirNames: string[],
+  filter: ResourceFilter = {},
 ): Promise<string> {
   let combinedContent = "";
 
   for (const dirName of dirNames) {
-    const dirPath = pathJoin(resourcesDir, dirName);
-    const dirContent = await readAllMarkdownFromDirectory(dirPath);
+    const dirContent = isResourceCategory(dirName)
+      ? await readAllMarkdownFromCategory(dirName, filter)
+      : await readAllMarkdownFromDirectory(pathJoin(resourcesDir, dirName));
     if (dirContent.trim()) {
       combinedContent += `# ${dirName.toUpperCase()} RESOURCES\n\n`;
       combinedContent += dirContent;
@@ -43,6 +331,66 @@ export async function readAllMarkdownFromDirectories(
   return combinedContent;
 }
 
+/**
+ * Split the guides of the given categories into section sized chunks, in the
+ * same order and format as readAllMarkdownFromDirectories, for pagination.
+ */
+export async function readMarkdownChunksFromDirectories(
+  categories: ResourceCategory[],
+  filter: ResourceFilter = {},
+): Promise<string[]> {
+  const chunks: string[] = [];
+
+  for (const category of categories) {
+    let header = `# ${category.toUpperCase()} RESOURCES\n\n`;
+    const resources = getAptosResources([category]).filter((resource) =>
+      matchesResourceFilter(resource, filter),
+    );
+    for (const resource of resources) {
+      let markdown: string;
+      try {
+        markdown = await readAptosResource(resource);
+      } catch (error) {
+        console.error(`Error reading file ${resource.path}:`, error);
+        markdown = `Error reading file: ${resource.name}.md`;
+      }
+      const sections = parseMarkdownSections(markdown).map(
+        (section) => `${section.content}\n\n`,
+      );
+      if (sections.length === 0) {
+        continue;
+      }
+      sections[0] = `${header}${sections[0]}`;
+      sections[sections.length - 1] += "---\n\n";
+      header = "";
+      chunks.push(...sections);
+    }
+  }
+
+  return chunks;
+}
+
+async function readAllMarkdownFromCategory(
+  category: ResourceCategory,
+  filter: ResourceFilter,
+): Promise<string> {
+  let content = "";
+  const resources = getAptosResources([category]).filter((resource) =>
+    matchesResourceFilter(resource, filter),
+  );
+
+  for (const resource of resources) {
+    try {
+      content += `${await readAptosGuide(resource)}\n\n---\n\n`;
+    } catch (error) {
+      console.error(`Error reading file ${resource.path}:`, error);
+      content += `Error reading file: ${resource.name}.md\n\n---\n\n`;
+    }
+  }
+
+  return content;
+}
+
 /**
  * Helper function to read all markdown files from a directory
  */
@@ -87,6 +435,14 @@ export async function readMarkdownFromDirectory(
   fileName: string,
 ): Promise<string> {
   try {
+    // Guide categories resolve through the registry so team directories apply
+    const resource = isResourceCategory(dirName)
+      ? getAptosResource(dirName, fileName)
+      : undefined;
+    if (resource) {
+      return await readAptosGuide(resource);
+    }
+
     const dirPath = pathJoin(resourcesDir, dirName);
     if (!fs.existsSync(dirPath)) {
       return `Directory not found: ${dirPath}`;
@@ -0,0 +1,185 @@
+import { describe, expect, it } from "vitest";
+
+import {
+  estimateTokens,
+  extractCodeBlocks,
+  getSectionByAnchor,
+  getSubsectionAnchors,
+  paginateChunks,
+  parseMarkdownSections,
+  slugify,
+} from "./markdown.js";
+
+describe("slugify", () => {
+  it("builds GitHub style anchors", () => {
+    expect(slugify("🟩 Step 1: Retrieve & Display Keys")).toBe(
+      "-step-1-retrieve--display-keys",
+    );
+    expect(slugify("How to Sign and Submit a Transaction")).toBe(
+      "how-to-sign-and-submit-a-transaction",
+    );
+  });
+});
+
+describe("parseMarkdownSections", () => {
+  it("splits a document at each heading", () => {
+    const sections = parseMarkdownSections(
+      "intro\n\n# Title\n\nbody\n\n## Setup\n\nsteps\n",
+    );
+
+    expect(
+      sections.map(({ anchor, heading, level, line }) => ({
+        anchor,
+        heading,
+        level,
+        line,
+      })),
+    ).toEqual([
+      { anchor: "", heading: "", level: 0, line: 1 },
+      { anchor: "title", heading: "Title", level: 1, line: 3 },
+      { anchor: "setup", heading: "Setup", level: 2, line: 7 },
+    ]);
+    expect(sections[2].content).toBe("## Setup\n\nsteps");
+  });
+
+  it("ignores headings inside fenced code blocks", () => {
+    const sections = parseMarkdownSections(
+      "# Deploy\n\n```bash\n# compile the package\naptos move compile\n```\n",
+    );
+
+    expect(sections).toHaveLength(1);
+    expect(sections[0].content).toContain("# compile the package");
+  });
+
+  it("deduplicates repeated anchors", () => {
+    const sections = parseMarkdownSections("## Example\n\n## Example\n");
+
+    expect(sections.map((section) => section.anchor)).toEqual([
+      "example",
+      "example-1",
+    ]);
+  });
+});
+
+describe("getSectionByAnchor", () => {
+  const sections = parseMarkdownSections(
+    "# Guide\n\nintro\n\n## Setup\n\nsetup\n\n### Install\n\ninstall\n\n## Usage\n\nusage\n",
+  );
+
+  it("returns the section with its subsections", () => {
+    expect(getSectionByAnchor(sections, "setup")).toBe(
+      "## Setup\n\nsetup\n\n### Install\n\ninstall",
+    );
+  });
+
+  it("accepts a leading # and returns undefined for unknown anchors", () => {
+    expect(getSectionByAnchor(sections, "#usage")).toBe("## Usage\n\nusage");
+    expect(getSectionByAnchor(sections, "missing")).toBeUndefined();
+  });
+
+  it("lists the anchors of a section and its subsections", () => {
+    expect(getSubsectionAnchors(sections, "setup")).toEqual([
+      "setup",
+      "install",
+    ]);
+    expect(getSubsectionAnchors(sections, "missing")).toBeUndefined();
+  });
+});
+
+describe("extractCodeBlocks", () => {
+  it("returns each block with its heading and normalized language", () => {
+    const blocks = extractCodeBlocks(
+      [
+        "# Setup",
+        "",
+        "```sh",
+        "# install the cli",
+        "npm i",
+        "```",
+        "",
+        "## Errors",
+        "",
+        "- ```move",
+        "    const E_NOT_FOUND: u64 = 1;",
+        "  ```",
+        "",
+        "```",
+        "plain",
+        "```",
+      ].join("\n"),
+    );
+
+    expect(blocks).toEqual([
+      {
+        anchor: "setup",
+        code: "# install the cli\nnpm i",
+        heading: "Setup",
+        language: "bash",
+        line: 3,
+      },
+      {
+        anchor: "errors",
+        code: "const E_NOT_FOUND: u64 = 1;",
+        heading: "Errors",
+        language: "move",
+        line: 10,
+      },
+      {
+        anchor: "errors",
+        code: "plain",
+        heading: "Errors",
+        language: "",
+        line: 14,
+      },
+    ]);
+  });
+});
+
+describe("paginateChunks", () => {
+  const chunks = ["a".repeat(400), "b".repeat(400), "c".repeat(400)];
+
+  it("returns every chunk within the budget and a cursor for the rest", () => {
+    const first = paginateChunks(chunks, { maxTokens: 200 });
+
+    expect(first.text).toBe(chunks[0] + chunks[1]);
+    expect(first.tokens).toBe(200);
+    expect(first.nextCursor).toBeDefined();
+
+    const second = paginateChunks(chunks, {
+      cursor: first.nextCursor,
+      maxTokens: 200,
+    });
+    expect(second.text).toBe(chunks[2]);
+    expect(second.nextCursor).toBeUndefined();
+  });
+
+  it("always makes progress with a chunk larger than the budget", () => {
+    const page = paginateChunks(chunks, { maxTokens: 10 });
+
+    expect(page.text).toBe(chunks[0]);
+    expect(page.nextCursor).toBeDefined();
+  });
+
+  it("rejects malformed cursors", () => {
+    expect(() =>
+      paginateChunks(chunks, { cursor: "not-a-cursor", maxTokens: 100 }),
+    ).toThrow("Invalid cursor");
+  });
+
+  it("rejects cursors issued before the content changed", () => {
+    const { nextCursor } = paginateChunks(chunks, { maxTokens: 200 });
+
+    expect(() =>
+      paginateChunks(["d".repeat(400), ...chunks.slice(1)], {
+        cursor: nextCursor,
+        maxTokens: 200,
+      }),
+    ).toThrow("Stale cursor");
+  });
+});
+
+describe("estimateTokens", () => {
+  it("estimates about four characters per token", () => {
+    expect(estimateTokens("abcdefgh")).toBe(2);
+  });
+});
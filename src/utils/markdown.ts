@@ -0,0 +1,308 @@
+import { createHash } from "node:crypto";
+
+import { parseFrontMatter } from "./frontMatter.js";
+
+/**
+ * A heading and everything under it up to the next heading.
+ */
+export type MarkdownSection = {
+  // GitHub style slug of the heading, unique within the document
+  anchor: string;
+  // The section body including its heading line
+  content: string;
+  heading: string;
+  // 0 for text that comes before the first heading
+  level: number;
+  // 1-based line number of the heading
+  line: number;
+};
+
+// Fences may open inside a list item, e.g. "- ```rust"
+export const FENCE_PATTERN = /^\s*(?:[-*+]\s+|\d+\.\s+)?(`{3,}|~{3,})\s*(\S*)/;
+const HEADING_PATTERN = /^(#{1,6})\s+(.+?)\s*#*\s*$/;
+
+/**
+ * Turn a heading into a GitHub style anchor.
+ */
+export const slugify = (heading: string): string =>
+  heading
+    .toLowerCase()
+    .trim()
+    .replace(/[^\p{L}\p{N}\s_-]/gu, "")
+    .replace(/\s/g, "-");
+
+/**
+ * Split a markdown document into sections at each heading. Headings inside
+ * fenced code blocks (e.g. `# comment` in a bash snippet) and the front matter
+ * are ignored.
+ */
+export function parseMarkdownSections(markdown: string): MarkdownSection[] {
+  const { body, lines: frontMatterLines } = parseFrontMatter(markdown);
+  const lines = body.split("\n");
+  const sections: MarkdownSection[] = [];
+  const anchorCounts = new Map<string, number>();
+  let current: Omit<MarkdownSection, "content"> & { lines: string[] } = {
+    anchor: "",
+    heading: "",
+    level: 0,
+    line: frontMatterLines + 1,
+    lines: [],
+  };
+  let fence: string | null = null;
+
+  const flush = () => {
+    const content = current.lines.join("\n").trimEnd();
+    if (current.level > 0 || content.trim()) {
+      const { lines: _lines, ...section } = current;
+      sections.push({ ...section, content });
+    }
+  };
+
+  lines.forEach((line, index) => {
+    const fenceMatch = line.match(FENCE_PATTERN);
+    if (fenceMatch) {
+      const marker = fenceMatch[1];
+      if (!fence) {
+        fence = marker;
+      } else if (marker[0] === fence[0] && marker.length >= fence.length) {
+        fence = null;
+      }
+    }
+
+    const headingMatch =
+      fence || fenceMatch ? null : line.match(HEADING_PATTERN);
+    if (!headingMatch) {
+      current.lines.push(line);
+      return;
+    }
+
+    flush();
+    const heading = headingMatch[2];
+    const slug = slugify(heading);
+    const count = anchorCounts.get(slug) ?? 0;
+    anchorCounts.set(slug, count + 1);
+    current = {
+      anchor: count === 0 ? slug : `${slug}-${count}`,
+      heading,
+      level: headingMatch[1].length,
+      line: frontMatterLines + index + 1,
+      lines: [line],
+    };
+  });
+  flush();
+
+  return sections;
+}
+
+/**
+ * A fenced code block and the section it sits in.
+ */
+export type CodeBlock = {
+  // Anchor of the enclosing section
+  anchor: string;
+  code: string;
+  heading: string;
+  // Normalized, e.g. "typescript" becomes "ts". Empty when the fence has none.
+  language: string;
+  // 1-based line number of the opening fence
+  line: number;
+};
+
+const LANGUAGE_ALIASES: Record<string, string> = {
+  console: "bash",
+  javascript: "js",
+  sh: "bash",
+  shell: "bash",
+  typescript: "ts",
+  zsh: "bash",
+};
+
+export const normalizeLanguage = (language: string): string => {
+  const lower = language.toLowerCase();
+  return LANGUAGE_ALIASES[lower] ?? lower;
+};
+
+// Remove the indentation the block has as part of a list item
+const dedent = (lines: string[]): string => {
+  const indent = Math.min(
+    ...lines
+      .filter((line) => line.trim())
+      .map((line) => line.match(/^\s*/)?.[0].length ?? 0),
+  );
+  return lines
+    .map((line) => line.slice(Number.isFinite(indent) ? indent : 0))
+    .join("\n");
+};
+
+/**
+ * Extract every fenced code block together with the heading it sits under.
+ */
+export function extractCodeBlocks(markdown: string): CodeBlock[] {
+  const blocks: CodeBlock[] = [];
+
+  for (const section of parseMarkdownSections(markdown)) {
+    let open: { fence: string; language: string; line: number } | null = null;
+    let lines: string[] = [];
+
+    section.content.split("\n").forEach((line, index) => {
+      const fenceMatch = line.match(FENCE_PATTERN);
+      if (!open) {
+        if (fenceMatch) {
+          open = {
+            fence: fenceMatch[1],
+            language: normalizeLanguage(fenceMatch[2]),
+            line: section.line + index,
+          };
+          lines = [];
+        }
+        return;
+      }
+      const { fence } = open;
+      if (
+        fenceMatch &&
+        fenceMatch[1][0] === fence[0] &&
+        fenceMatch[1].length >= fence.length
+      ) {
+        blocks.push({
+          anchor: section.anchor,
+          code: dedent(lines),
+          heading: section.heading,
+          language: open.language,
+          line: open.line,
+        });
+        open = null;
+        return;
+      }
+      lines.push(line);
+    });
+  }
+
+  return blocks;
+}
+
+/**
+ * Rough token count for budgeting responses (~4 characters per token).
+ */
+export const estimateTokens = (text: string): number =>
+  Math.ceil(text.length / 4);
+
+// The section with the given anchor followed by its subsections
+const findSectionWithSubsections = (
+  sections: MarkdownSection[],
+  anchor: string,
+): MarkdownSection[] | undefined => {
+  const index = sections.findIndex(
+    (section) => section.anchor === anchor.replace(/^#/, ""),
+  );
+  if (index < 0) {
+    return undefined;
+  }
+
+  const { level } = sections[index];
+  if (level === 0) {
+    return [sections[index]];
+  }
+  const end = sections.findIndex(
+    (section, position) =>
+      position > index && section.level > 0 && section.level <= level,
+  );
+  return sections.slice(index, end < 0 ? undefined : end);
+};
+
+/**
+ * Return the section with the given anchor together with its subsections.
+ */
+export function getSectionByAnchor(
+  sections: MarkdownSection[],
+  anchor: string,
+): string | undefined {
+  return findSectionWithSubsections(sections, anchor)
+    ?.map((section) => section.content)
+    .join("\n\n");
+}
+
+/**
+ * The anchors of a section and all of its subsections.
+ */
+export const getSubsectionAnchors = (
+  sections: MarkdownSection[],
+  anchor: string,
+): string[] | undefined =>
+  findSectionWithSubsections(sections, anchor)?.map(
+    (section) => section.anchor,
+  );
+
+// Page size used when a cursor is passed without an explicit budget
+export const DEFAULT_PAGE_TOKENS = 8_000;
+
+export type MarkdownPage = {
+  // Pass back to fetch the next page. Undefined on the last page.
+  nextCursor?: string;
+  text: string;
+  tokens: number;
+};
+
+// Identifies the content a cursor was issued for, so that a cursor from
+// before a guide changed (e.g. a hot reload) is not applied to the new text
+const hashChunks = (chunks: string[]) => {
+  const hash = createHash("sha256");
+  for (const chunk of chunks) {
+    hash.update(chunk).update("\0");
+  }
+  return hash.digest("hex").slice(0, 16);
+};
+
+const encodeCursor = (offset: number, version: string) =>
+  Buffer.from(JSON.stringify({ offset, version })).toString("base64url");
+
+const decodeCursor = (cursor: string, version: string): number => {
+  let offset: unknown;
+  let issuedFor: unknown;
+  try {
+    ({ offset, version: issuedFor } = JSON.parse(
+      Buffer.from(cursor, "base64url").toString("utf-8"),
+    ));
+  } catch {
+    // Fall through to the error below
+  }
+  if (typeof offset !== "number" || !Number.isInteger(offset) || offset < 0) {
+    throw new Error(`Invalid cursor: ${cursor}`);
+  }
+  if (issuedFor !== version) {
+    throw new Error(
+      "Stale cursor: the guides changed since it was issued. Start again without a cursor.",
+    );
+  }
+  return offset;
+};
+
+/**
+ * Take as many chunks as fit in the token budget, starting at the cursor.
+ * A single chunk larger than the budget is returned on its own so that
+ * pagination always makes progress. Cursors only apply to the chunks they
+ * were issued for.
+ */
+export function paginateChunks(
+  chunks: string[],
+  { cursor, maxTokens }: { cursor?: string; maxTokens: number },
+): MarkdownPage {
+  const version = hashChunks(chunks);
+  const start = cursor ? decodeCursor(cursor, version) : 0;
+  let end = start;
+  let tokens = 0;
+
+  while (end < chunks.length) {
+    const chunkTokens = estimateTokens(chunks[end]);
+    if (end > start && tokens + chunkTokens > maxTokens) {
+      break;
+    }
+    tokens += chunkTokens;
+    end++;
+  }
+
+  return {
+    nextCursor: end < chunks.length ? encodeCursor(end, version) : undefined,
+    text: chunks.slice(start, end).join(""),
+    tokens,
+  };
+}
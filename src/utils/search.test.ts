@@ -0,0 +1,55 @@
+import { describe, expect, it } from "vitest";
+
+import { getSearchIndex, searchSections, tokenize } from "./search.js";
+
+describe("tokenize", () => {
+  it("indexes identifiers whole and by their parts", () => {
+    expect(tokenize("signAndSubmitTransaction")).toEqual([
+      "signandsubmittransaction",
+      "sign",
+      "submit",
+      "transaction",
+    ]);
+    expect(tokenize("APTOS_BOT_KEY")).toEqual(
+      expect.arrayContaining(["aptos_bot_key", "aptos", "bot", "key"]),
+    );
+  });
+});
+
+describe("searchSections", () => {
+  it("finds the gas station guide", () => {
+    const results = searchSections(getSearchIndex(), "gas station 403", {
+      limit: 3,
+    });
+
+    expect(results.map((result) => result.resource.id)).toContain(
+      "how_to/how_to_config_a_gas_station_in_a_dapp",
+    );
+  });
+
+  it("finds the wallet transaction section", () => {
+    const results = searchSections(
+      getSearchIndex(),
+      "wallet adapter signAndSubmit",
+    );
+
+    expect(results[0].resource.id).toBe(
+      "how_to/how_to_sign_and_submit_transaction",
+    );
+    expect(results[0].snippet.toLowerCase()).toContain("signandsubmit");
+  });
+
+  it("searches every resource category", () => {
+    const results = searchSections(getSearchIndex(), "aptos move publish", {
+      limit: 20,
+    });
+
+    expect(results.some((result) => result.resource.category === "move")).toBe(
+      true,
+    );
+  });
+
+  it("returns nothing for unknown terms", () => {
+    expect(searchSections(getSearchIndex(), "zzqqxx")).toEqual([]);
+  });
+});
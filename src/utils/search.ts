@@ -0,0 +1,218 @@
+import * as fs from "node:fs";
+
+import { type AptosResource, getAptosResources } from "./index.js";
+import { parseMarkdownSections } from "./markdown.js";
+
+type IndexedSection = {
+  anchor: string;
+  content: string;
+  heading: string;
+  length: number;
+  resource: AptosResource;
+  termFrequencies: Map<string, number>;
+};
+
+export type SearchIndex = {
+  averageLength: number;
+  documentFrequencies: Map<string, number>;
+  sections: IndexedSection[];
+};
+
+export type SearchResult = {
+  anchor: string;
+  heading: string;
+  resource: AptosResource;
+  score: number;
+  snippet: string;
+};
+
+// Terms in a heading or title count more than terms in the body.
+const HEADING_WEIGHT = 3;
+const TITLE_WEIGHT = 2;
+// BM25 tuning
+const K1 = 1.2;
+const B = 0.75;
+const SNIPPET_LENGTH = 240;
+
+const STOP_WORDS = new Set([
+  "a",
+  "an",
+  "and",
+  "are",
+  "as",
+  "at",
+  "be",
+  "by",
+  "for",
+  "from",
+  "how",
+  "in",
+  "is",
+  "it",
+  "of",
+  "on",
+  "or",
+  "that",
+  "the",
+  "this",
+  "to",
+  "with",
+]);
+
+/**
+ * Split text into lowercase search terms. Identifiers are indexed both whole
+ * and by their camelCase / snake_case parts, so `signAndSubmit` matches
+ * "signAndSubmit" as well as "sign" and "submit".
+ */
+export const tokenize = (text: string): string[] => {
+  const terms: string[] = [];
+  for (const word of text.match(/[\p{L}\p{N}_]+/gu) ?? []) {
+    const parts = word
+      .replace(/([a-z0-9])([A-Z])/g, "$1 $2")
+      .split(/[\s_]+/)
+      .filter(Boolean);
+    for (const term of new Set([word, ...parts])) {
+      const lower = term.toLowerCase();
+      if (!STOP_WORDS.has(lower)) {
+        terms.push(lower);
+      }
+    }
+  }
+  return terms;
+};
+
+const countTerms = (
+  frequencies: Map<string, number>,
+  text: string,
+  weight: number,
+) => {
+  for (const term of tokenize(text)) {
+    frequencies.set(term, (frequencies.get(term) ?? 0) + weight);
+  }
+};
+
+/**
+ * Build an in-memory index of every section of the given guides.
+ */
+export function buildSearchIndex(
+  resources: AptosResource[] = getAptosResources(),
+): SearchIndex {
+  const sections: IndexedSection[] = [];
+  const documentFrequencies = new Map<string, number>();
+
+  for (const resource of resources) {
+    let markdown: string;
+    try {
+      markdown = fs.readFileSync(resource.path, "utf-8");
+    } catch (error) {
+      console.error(`Error indexing ${resource.path}:`, error);
+      continue;
+    }
+
+    for (const section of parseMarkdownSections(markdown)) {
+      const termFrequencies = new Map<string, number>();
+      countTerms(termFrequencies, section.content, 1);
+      countTerms(termFrequencies, section.heading, HEADING_WEIGHT - 1);
+      countTerms(termFrequencies, resource.title, TITLE_WEIGHT);
+
+      for (const term of termFrequencies.keys()) {
+        documentFrequencies.set(term, (documentFrequencies.get(term) ?? 0) + 1);
+      }
+      sections.push({
+        anchor: section.anchor,
+        content: section.content,
+        heading: section.heading || resource.title,
+        length: [...termFrequencies.values()].reduce((a, b) => a + b, 0),
+        resource,
+        termFrequencies,
+      });
+    }
+  }
+
+  const totalLength = sections.reduce((sum, s) => sum + s.length, 0);
+  return {
+    averageLength: sections.length ? totalLength / sections.length : 0,
+    documentFrequencies,
+    sections,
+  };
+}
+
+const buildSnippet = (content: string, terms: string[]): string => {
+  const text = content.replace(/\s+/g, " ").trim();
+  const lower = text.toLowerCase();
+  const positions = terms
+    .map((term) => lower.indexOf(term))
+    .filter((position) => position >= 0);
+  const start = Math.max(
+    0,
+    (positions.length ? Math.min(...positions) : 0) - SNIPPET_LENGTH / 4,
+  );
+  const snippet = text.slice(start, start + SNIPPET_LENGTH);
+  return `${start > 0 ? "…" : ""}${snippet}${start + SNIPPET_LENGTH < text.length ? "…" : ""}`;
+};
+
+/**
+ * Rank the indexed sections against a free text query with BM25.
+ */
+export function searchSections(
+  index: SearchIndex,
+  query: string,
+  { limit = 5 }: { limit?: number } = {},
+): SearchResult[] {
+  const terms = [...new Set(tokenize(query))];
+  const phrase = query.trim().toLowerCase();
+  const total = index.sections.length;
+
+  const scored = index.sections.map((section) => {
+    let score = 0;
+    for (const term of terms) {
+      const frequency = section.termFrequencies.get(term);
+      if (!frequency) {
+        continue;
+      }
+      const documentFrequency = index.documentFrequencies.get(term) ?? 0;
+      const idf = Math.log(
+        1 + (total - documentFrequency + 0.5) / (documentFrequency + 0.5),
+      );
+      score +=
+        (idf * frequency * (K1 + 1)) /
+        (frequency +
+          K1 * (1 - B + (B * section.length) / (index.averageLength || 1)));
+    }
+    // Reward sections that contain the query verbatim
+    if (score > 0 && phrase && section.content.toLowerCase().includes(phrase)) {
+      score *= 1.5;
+    }
+    return { score, section };
+  });
+
+  return scored
+    .filter(({ score }) => score > 0)
+    .sort((a, b) => b.score - a.score)
+    .slice(0, limit)
+    .map(({ score, section }) => ({
+      anchor: section.anchor,
+      heading: section.heading,
+      resource: section.resource,
+      score: Math.round(score * 100) / 100,
+      snippet: buildSnippet(section.content, terms),
+    }));
+}
+
+let searchIndex: SearchIndex | undefined;
+
+/**
+ * The shared index used by the search tool. Built on first use.
+ */
+export const getSearchIndex = (): SearchIndex => {
+  searchIndex ??= buildSearchIndex();
+  return searchIndex;
+};
+
+/**
+ * Rebuild the shared index, e.g. after the guides on disk changed.
+ */
+export const rebuildSearchIndex = (): SearchIndex => {
+  searchIndex = buildSearchIndex();
+  return searchIndex;
+};